@@ -1,23 +1,70 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
-import { Mic, Search, Loader2 } from "lucide-react";
-import { useAction } from "convex/react";
+import { Mic, Search, Loader2, MapPin, Utensils, Tag, History, Store } from "lucide-react";
+import { useAction, useMutation, useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { applyClarificationAnswer, ClarificationChips, ClarificationQuestion } from "./ClarificationChips";
+
+// Wait this long after the last keystroke before asking for suggestions
+const SUGGEST_DEBOUNCE_MS = 150;
+
+const SUGGESTION_ICONS = {
+  venue: Store,
+  area: MapPin,
+  cuisine: Utensils,
+  tag: Tag,
+  query: History,
+};
+
+// Follow-up questions for the last search, with what's needed to re-run it as they're answered
+interface PendingClarification {
+  id: Id<"clarifications">;
+  questions: ClarificationQuestion[];
+  query: string;
+  filters: any; // Parsed filters, answers applied
+  intent?: string;
+  answers: Record<number, string>; // Question index -> label picked
+}
 
 interface AISearchBarProps {
   onSearch: (query: string, aiFilters?: any, intent?: string) => void;
   initialValue?: string;
+  guestId?: string;
 }
 
-export function AISearchBar({ onSearch, initialValue = "" }: AISearchBarProps) {
+export function AISearchBar({ onSearch, initialValue = "", guestId }: AISearchBarProps) {
   const [query, setQuery] = useState(initialValue);
   const [isListening, setIsListening] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  // Set when the AI parser was unavailable and the search fell back to basic matching
+  const [degraded, setDegraded] = useState(false);
+  // Set when the caller hit a rate limit or their daily AI budget (server-provided message)
+  const [rateLimitMessage, setRateLimitMessage] = useState<string | null>(null);
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+  // Set when the parser wasn't sure what was meant (see convex/clarifications.ts)
+  const [clarification, setClarification] = useState<PendingClarification | null>(null);
   const recognitionRef = useRef<any>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
   const parseQuery = useAction(api.ai.parseSearchQuery);
+  const recordAnswer = useMutation(api.clarifications.recordAnswer);
+  const suggestions = useQuery(
+    api.autocomplete.suggest,
+    showSuggestions && debouncedQuery.trim().length >= 2 ? { prefix: debouncedQuery } : "skip"
+  );
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query), SUGGEST_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  useEffect(() => {
+    setHighlighted(-1);
+  }, [suggestions]);
 
   useEffect(() => {
     if (typeof window !== "undefined" && "webkitSpeechRecognition" in window) {
@@ -60,29 +107,111 @@ export function AISearchBar({ onSearch, initialValue = "" }: AISearchBarProps) {
     const trimmedQuery = searchQuery.trim();
     if (!trimmedQuery) return;
 
+    setShowSuggestions(false);
+    setClarification(null);
     setIsProcessing(true);
     try {
-      const result = await parseQuery({ query: trimmedQuery });
+      const result = await parseQuery({ query: trimmedQuery, guestId });
 
-      if (result.success && result.result) {
+      if ("rateLimit" in result && result.rateLimit) {
+        setDegraded(false);
+        setRateLimitMessage(result.rateLimit.message);
+        onSearch(trimmedQuery);
+      } else if (result.success && result.result) {
+        setDegraded(false);
+        setRateLimitMessage(null);
         onSearch(trimmedQuery, result.result.filters, result.result.intent);
+        if (result.clarification) {
+          setClarification({
+            ...result.clarification,
+            query: trimmedQuery,
+            filters: result.result.filters,
+            intent: result.result.intent,
+            answers: {},
+          });
+        }
       } else {
+        setDegraded(true);
+        setRateLimitMessage(null);
         onSearch(trimmedQuery);
       }
     } catch (error) {
+      setDegraded(true);
+      setRateLimitMessage(null);
       onSearch(trimmedQuery);
     } finally {
       setIsProcessing(false);
     }
   };
 
+  // An answer chip refines the search locally - no second parse
+  const handleAnswer = async (questionIndex: number, optionIndex: number) => {
+    if (!clarification) return;
+    const option = clarification.questions[questionIndex].options[optionIndex];
+    const filters = applyClarificationAnswer(clarification.filters, option.delta);
+
+    setClarification({ ...clarification, filters, answers: { ...clarification.answers, [questionIndex]: option.label } });
+    onSearch(clarification.query, filters, clarification.intent);
+    // Only feeds the admin stats, so a failure doesn't touch the search
+    await recordAnswer({ guestId, clarificationId: clarification.id, questionIndex, optionIndex }).catch((error) =>
+      console.error("Failed to record answer:", error)
+    );
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    handleSearch(query);
+    const suggestion = highlighted >= 0 ? suggestions?.[highlighted] : undefined;
+    if (suggestion) {
+      handleSelectSuggestion(suggestion);
+    } else {
+      handleSearch(query);
+    }
+  };
+
+  // Venues open directly; areas, cuisines and tags apply as filters without the AI parse
+  const handleSelectSuggestion = (suggestion: NonNullable<typeof suggestions>[number]) => {
+    setShowSuggestions(false);
+    setClarification(null);
+
+    switch (suggestion.type) {
+      case "venue":
+        window.location.href = `/place/${suggestion.placeId}`;
+        return;
+      case "area":
+        setQuery(suggestion.label);
+        onSearch(suggestion.label, { area: suggestion.value });
+        return;
+      case "cuisine":
+        setQuery(suggestion.label);
+        onSearch(suggestion.label, { cuisine: [suggestion.value] });
+        return;
+      case "tag":
+        setQuery(suggestion.label);
+        onSearch(suggestion.label, { tags: [suggestion.value] });
+        return;
+      case "query":
+        setQuery(suggestion.value);
+        handleSearch(suggestion.value);
+        return;
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions || !suggestions || suggestions.length === 0) return;
+
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setHighlighted((index) => (index + 1) % suggestions.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlighted((index) => (index <= 0 ? suggestions.length - 1 : index - 1));
+    } else if (e.key === "Escape") {
+      setShowSuggestions(false);
+    }
   };
 
   return (
-    <form onSubmit={handleSubmit} style={{ width: "100%" }}>
+    <form onSubmit={handleSubmit} style={{ width: "100%", position: "relative" }}>
       <div
         style={{
           display: "flex",
@@ -101,7 +230,15 @@ export function AISearchBar({ onSearch, initialValue = "" }: AISearchBarProps) {
           ref={inputRef}
           type="text"
           value={query}
-          onChange={(e) => setQuery(e.target.value)}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setShowSuggestions(true);
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setShowSuggestions(false)}
+          role="combobox"
+          aria-expanded={showSuggestions && !!suggestions?.length}
+          aria-autocomplete="list"
           placeholder="Search for cafes, restaurants, or describe what you want..."
           disabled={isProcessing}
           style={{
@@ -150,6 +287,91 @@ export function AISearchBar({ onSearch, initialValue = "" }: AISearchBarProps) {
           {isProcessing ? <Loader2 size={18} className="animate-spin" /> : "Search"}
         </button>
       </div>
+
+      {/* Suggestions */}
+      {showSuggestions && suggestions && suggestions.length > 0 && (
+        <ul
+          role="listbox"
+          style={{
+            position: "absolute",
+            top: "100%",
+            left: 0,
+            right: 0,
+            zIndex: 20,
+            marginTop: 6,
+            padding: 6,
+            listStyle: "none",
+            background: "var(--bg-secondary)",
+            border: "1px solid var(--border-light)",
+            borderRadius: "var(--radius-lg)",
+            boxShadow: "var(--shadow-md)",
+          }}
+        >
+          {suggestions.map((suggestion, index) => {
+            const Icon = SUGGESTION_ICONS[suggestion.type];
+            return (
+              <li
+                key={`${suggestion.type}-${suggestion.value}`}
+                role="option"
+                aria-selected={index === highlighted}
+                // mousedown fires before the input's blur closes the list
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  handleSelectSuggestion(suggestion);
+                }}
+                onMouseEnter={() => setHighlighted(index)}
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: 10,
+                  padding: "8px 10px",
+                  borderRadius: "var(--radius-md)",
+                  cursor: "pointer",
+                  background: index === highlighted ? "var(--bg-tertiary)" : "transparent",
+                }}
+              >
+                <Icon size={15} color="var(--text-tertiary)" style={{ flexShrink: 0 }} />
+                <span style={{ flex: 1, fontSize: 14, color: "var(--text-primary)" }}>
+                  {suggestion.type === "tag" ? suggestion.label.replace(/-/g, " ") : suggestion.label}
+                </span>
+                {suggestion.labelAr && (
+                  <span dir="rtl" style={{ fontSize: 13, color: "var(--text-secondary)" }}>
+                    {suggestion.labelAr}
+                  </span>
+                )}
+                <span style={{ fontSize: 11, color: "var(--text-tertiary)", textTransform: "capitalize" }}>
+                  {suggestion.type === "query" ? "Popular" : suggestion.type}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {clarification && (
+        <div style={{ display: "flex", flexDirection: "column", gap: 6, marginTop: 8, paddingLeft: 16 }}>
+          {clarification.questions.map((question, index) => (
+            <ClarificationChips
+              key={index}
+              question={question}
+              answer={clarification.answers[index]}
+              onAnswer={(optionIndex) => handleAnswer(index, optionIndex)}
+            />
+          ))}
+        </div>
+      )}
+
+      {rateLimitMessage && (
+        <p style={{ fontSize: 12, color: "var(--warning)", marginTop: 6, paddingLeft: 16 }}>
+          {rateLimitMessage} Showing basic results for now.
+        </p>
+      )}
+
+      {degraded && (
+        <p style={{ fontSize: 12, color: "var(--text-tertiary)", marginTop: 6, paddingLeft: 16 }}>
+          Smart search is having trouble right now, showing basic results.
+        </p>
+      )}
     </form>
   );
 }
@@ -0,0 +1,187 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useConvexAuth, useMutation, useQuery } from "convex/react";
+import { useAuthActions } from "@convex-dev/auth/react";
+import { api } from "../../convex/_generated/api";
+import { LogOut, User } from "lucide-react";
+
+interface AccountMenuProps {
+  guestId: string;
+}
+
+// Must match the provider id in convex/auth.ts
+const EMAIL_PROVIDER = "email-otp";
+
+export function AccountMenu({ guestId }: AccountMenuProps) {
+  const { isAuthenticated, isLoading } = useConvexAuth();
+  const { signIn, signOut } = useAuthActions();
+  const viewer = useQuery(api.users.viewer);
+  const mergeGuestData = useMutation(api.users.mergeGuestData);
+
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<"email" | "code">("email");
+  const [email, setEmail] = useState("");
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Once signed in, move anything collected as a guest onto the account (no-op when empty)
+  const mergedFor = useRef<string | null>(null);
+  useEffect(() => {
+    if (!isAuthenticated || guestId === "guest" || mergedFor.current === guestId) return;
+    mergedFor.current = guestId;
+    mergeGuestData({ guestId }).catch(() => {
+      mergedFor.current = null;
+    });
+  }, [isAuthenticated, guestId, mergeGuestData]);
+
+  const handleSendCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      await signIn(EMAIL_PROVIDER, { email: email.trim().toLowerCase() });
+      setStep("code");
+    } catch {
+      setError("Couldn't send a code to that address");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      await signIn(EMAIL_PROVIDER, { email: email.trim().toLowerCase(), code: code.trim() });
+      setOpen(false);
+      setStep("email");
+      setCode("");
+    } catch {
+      setError("That code is wrong or has expired");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return null;
+  }
+
+  return (
+    <div style={{ position: "relative" }}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="btn-icon"
+        aria-label={isAuthenticated ? "Account" : "Sign in"}
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: 6,
+          padding: "6px 12px",
+          borderRadius: "var(--radius-full)",
+          background: "var(--bg-tertiary)",
+          fontSize: 13,
+          fontWeight: 500,
+        }}
+      >
+        <User size={14} />
+        {isAuthenticated ? "Account" : "Sign in"}
+      </button>
+
+      {open && (
+        <div
+          style={{
+            position: "absolute",
+            right: 0,
+            top: "calc(100% + 8px)",
+            width: 280,
+            padding: 16,
+            background: "var(--bg-secondary)",
+            border: "1px solid var(--border-light)",
+            borderRadius: "var(--radius-lg)",
+            boxShadow: "var(--shadow-md)",
+            zIndex: 200,
+          }}
+        >
+          {isAuthenticated ? (
+            <>
+              <div style={{ fontSize: 13, color: "var(--text-secondary)", marginBottom: 4 }}>Signed in as</div>
+              <div style={{ fontWeight: 600, fontSize: 14, marginBottom: 12, wordBreak: "break-all" }}>
+                {viewer?.email ?? "…"}
+              </div>
+              <button
+                className="btn btn-secondary"
+                style={{ width: "100%", display: "flex", alignItems: "center", justifyContent: "center", gap: 6 }}
+                onClick={() => {
+                  setOpen(false);
+                  void signOut();
+                }}
+              >
+                <LogOut size={14} />
+                Sign out
+              </button>
+            </>
+          ) : step === "email" ? (
+            <form onSubmit={handleSendCode}>
+              <div style={{ fontWeight: 600, fontSize: 14, marginBottom: 4 }}>Sign in</div>
+              <p style={{ fontSize: 13, color: "var(--text-secondary)", marginBottom: 12 }}>
+                We&apos;ll email you a one-time code. Your searches and preferences so far are kept.
+              </p>
+              <input
+                className="input"
+                type="email"
+                required
+                placeholder="you@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                style={{ marginBottom: 12 }}
+              />
+              <button className="btn btn-primary" type="submit" disabled={submitting} style={{ width: "100%" }}>
+                {submitting ? "Sending…" : "Send code"}
+              </button>
+            </form>
+          ) : (
+            <form onSubmit={handleVerify}>
+              <div style={{ fontWeight: 600, fontSize: 14, marginBottom: 4 }}>Check your email</div>
+              <p style={{ fontSize: 13, color: "var(--text-secondary)", marginBottom: 12 }}>
+                Enter the code we sent to {email}.
+              </p>
+              <input
+                className="input"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                required
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                style={{ marginBottom: 12, letterSpacing: "0.2em" }}
+              />
+              <button className="btn btn-primary" type="submit" disabled={submitting} style={{ width: "100%" }}>
+                {submitting ? "Verifying…" : "Verify"}
+              </button>
+              <button
+                type="button"
+                className="btn btn-ghost"
+                style={{ width: "100%", marginTop: 6 }}
+                onClick={() => {
+                  setStep("email");
+                  setCode("");
+                  setError(null);
+                }}
+              >
+                Use a different email
+              </button>
+            </form>
+          )}
+
+          {error && (
+            <div style={{ marginTop: 10, fontSize: 13, color: "var(--error)" }}>{error}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
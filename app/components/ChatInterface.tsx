@@ -1,30 +1,64 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
-import { Send, Loader2, Trash2, Mic, MicOff } from "lucide-react";
+import { Send, Loader2, Trash2, Mic, MicOff, Square, Star, AlertTriangle, History, Plus, Brain } from "lucide-react";
 import { useQuery, useMutation, useAction } from "convex/react";
 import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { ConversationFilters, ConversationList } from "./ConversationList";
+import { FilterTurn } from "./FilterTimeline";
+import { ClarificationChips } from "./ClarificationChips";
 
 interface ChatInterfaceProps {
-  userId: string;
-  onSearchTriggered: (filters: any, intent: string) => void;
+  guestId: string;
+  userLocation?: { lat: number; lon: number } | null;
+  currentResultIds?: Id<"places">[]; // Results on screen, best first - the assistant is told about them
+  onSearchTriggered: (filters: ConversationFilters, query: string) => void; // The thread's filters after a reply's search
+  onFiltersRestored: (filters: ConversationFilters) => void; // A past thread was reopened, a refinement undone or a question answered
 }
 
-export function ChatInterface({ userId, onSearchTriggered }: ChatInterfaceProps) {
+// Citation markers ([[venue id]]) in a reply that's still streaming, including a cut-off one
+const STREAMING_CITATION = /\s?\[\[[^\]]*(\]\])?/g;
+
+export function ChatInterface({
+  guestId,
+  userLocation,
+  currentResultIds,
+  onSearchTriggered,
+  onFiltersRestored,
+}: ChatInterfaceProps) {
   const [input, setInput] = useState("");
   const [isProcessing, setIsProcessing] = useState(false);
   const [isListening, setIsListening] = useState(false);
   const [recognition, setRecognition] = useState<any>(null);
+  // Shown instead of an assistant reply when the caller is rate limited or over budget
+  const [rateLimitMessage, setRateLimitMessage] = useState<string | null>(null);
+  // Thread picked in the history sidebar; null follows the latest thread
+  const [selectedId, setSelectedId] = useState<Id<"conversations"> | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
   const isListeningRef = useRef(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
-  const conversation = useQuery(api.conversations.getConversation, { userId });
+  const conversation = useQuery(api.conversations.getConversation, { guestId, conversationId: selectedId ?? undefined });
+  const conversationId = selectedId ?? conversation?._id ?? null;
   const addMessage = useMutation(api.conversations.addMessage);
-  const clearConversation = useMutation(api.conversations.clearConversation);
-  const parseQuery = useAction(api.ai.parseSearchQuery);
+  const createConversation = useMutation(api.conversations.createConversation);
+  const deleteConversation = useMutation(api.conversations.deleteConversation);
+  const undoFilterChange = useMutation(api.conversations.undoFilterChange);
+  const answerClarification = useMutation(api.conversations.answerClarification);
+  // Reply being streamed by chatWithAI; disappears once it's appended to messages
+  const activeStream = useQuery(api.conversations.getActiveChatStream, {
+    guestId,
+    conversationId: conversationId ?? undefined,
+  });
+  const cancelChatStream = useMutation(api.conversations.cancelChatStream);
   const chatWithAI = useAction(api.ai.chatWithAI);
 
   const messages = conversation?.messages || [];
+  const memoryConstraints = conversation?.memory?.constraints ?? [];
+  const filterHistory = conversation?.filterHistory ?? [];
+  const lastRefinement = filterHistory.filter((entry) => !entry.undone).pop();
+  const isStreaming = activeStream?.status === "streaming";
 
   useEffect(() => {
     if (typeof window !== "undefined") {
@@ -72,7 +106,7 @@ export function ChatInterface({ userId, onSearchTriggered }: ChatInterfaceProps)
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  }, [messages, activeStream?.content]);
 
   const handleSend = async () => {
     if (!input.trim() || isProcessing) return;
@@ -81,55 +115,52 @@ export function ChatInterface({ userId, onSearchTriggered }: ChatInterfaceProps)
     setInput("");
     setIsProcessing(true);
 
+    // Replies go to the thread the question went to, even if another one is opened meanwhile
+    let threadId = conversationId;
     try {
-      await addMessage({ userId, role: "user", content: userMessage });
-
-      const parseResult = await parseQuery({
-        query: userMessage,
-        conversationHistory: messages.slice(-6).map((m) => ({
-          role: m.role,
-          content: m.content,
-        })),
+      threadId = await addMessage({ guestId, conversationId: threadId ?? undefined, role: "user", content: userMessage });
+      setSelectedId(threadId);
+
+      // The assistant runs its own searches; the results list follows its last one.
+      // Only recent turns are sent - older ones are in the thread's memory (convex/memory.ts)
+      const chatResult = await chatWithAI({
+        messages: [
+          ...messages.slice(-6).map((m) => ({ role: m.role, content: m.content })),
+          { role: "user", content: userMessage },
+        ],
+        currentResults: currentResultIds,
+        guestId,
+        conversationId: threadId,
+        userLat: userLocation?.lat,
+        userLon: userLocation?.lon,
+        stream: true,
       });
+      if ("rateLimit" in chatResult && chatResult.rateLimit) {
+        setRateLimitMessage(chatResult.rateLimit.message);
+        return;
+      }
+      setRateLimitMessage(null);
 
-      if (parseResult.success && parseResult.result) {
-        const { intent, filters, clarifyingQuestions, confidence } = parseResult.result;
-
-        if (confidence >= 0.7) {
-          await addMessage({
-            userId,
-            role: "assistant",
-            content: `Looking for ${intent}...`,
-            filters,
-          });
-          onSearchTriggered(filters, intent);
-        } else if (clarifyingQuestions.length > 0) {
-          await addMessage({
-            userId,
-            role: "assistant",
-            content: clarifyingQuestions.join(" "),
-          });
-        } else {
-          await addMessage({
-            userId,
-            role: "assistant",
-            content: `Searching for ${intent}...`,
-            filters,
-          });
-          onSearchTriggered(filters, intent);
-        }
-      } else {
-        const chatResult = await chatWithAI({
-          messages: [
-            ...messages.slice(-6).map((m) => ({ role: m.role, content: m.content })),
-            { role: "user", content: userMessage },
-          ],
+      // Streamed replies are already in the conversation
+      if (!("streamed" in chatResult && chatResult.streamed)) {
+        await addMessage({
+          guestId,
+          conversationId: threadId,
+          role: "assistant",
+          content: chatResult.message,
+          placeIds: "placeIds" in chatResult ? chatResult.placeIds : undefined,
+          grounded: chatResult.grounded,
+          filters: "search" in chatResult ? chatResult.search?.filters : undefined,
+          clarification: "clarification" in chatResult ? chatResult.clarification ?? undefined : undefined,
         });
-        await addMessage({ userId, role: "assistant", content: chatResult.message });
+      }
+      if ("search" in chatResult && chatResult.search) {
+        onSearchTriggered(chatResult.search.filters, chatResult.search.query);
       }
     } catch {
       await addMessage({
-        userId,
+        guestId,
+        conversationId: threadId ?? undefined,
         role: "assistant",
         content: "Sorry, something went wrong. Could you try again?",
       });
@@ -138,9 +169,36 @@ export function ChatInterface({ userId, onSearchTriggered }: ChatInterfaceProps)
     }
   };
 
-  const handleClear = async () => {
-    if (confirm("Clear conversation?")) {
-      await clearConversation({ userId });
+  const handleUndoFilters = async () => {
+    if (!conversationId) return;
+    onFiltersRestored(await undoFilterChange({ guestId, conversationId }));
+  };
+
+  // An answer chip applies its filter and searches right away, without another model turn
+  const handleAnswer = async (messageTimestamp: number, optionIndex: number) => {
+    if (!conversationId) return;
+    onFiltersRestored(await answerClarification({ guestId, conversationId, messageTimestamp, optionIndex }));
+  };
+
+  const handleStop = async () => {
+    await cancelChatStream({ guestId });
+  };
+
+  const handleNewChat = async () => {
+    setSelectedId(await createConversation({ guestId }));
+  };
+
+  const handleSelectThread = (id: Id<"conversations">, filters: ConversationFilters | null) => {
+    setSelectedId(id);
+    if (filters) {
+      onFiltersRestored(filters);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (conversationId && confirm("Delete this conversation?")) {
+      await deleteConversation({ guestId, conversationId });
+      setSelectedId(null);
     }
   };
 
@@ -170,7 +228,6 @@ export function ChatInterface({ userId, onSearchTriggered }: ChatInterfaceProps)
     <div
       style={{
         display: "flex",
-        flexDirection: "column",
         height: 520,
         background: "var(--bg-secondary)",
         borderRadius: "var(--radius-lg)",
@@ -178,151 +235,343 @@ export function ChatInterface({ userId, onSearchTriggered }: ChatInterfaceProps)
         overflow: "hidden",
       }}
     >
-      {/* Header */}
-      <div
-        style={{
-          padding: "14px 16px",
-          borderBottom: "1px solid var(--border-light)",
-          display: "flex",
-          justifyContent: "space-between",
-          alignItems: "center",
-        }}
-      >
-        <h3 style={{ fontSize: 15, fontWeight: 600 }}>Chat with Mouoj</h3>
-        <button
-          onClick={handleClear}
-          className="btn btn-ghost btn-icon"
-          title="Clear conversation"
-        >
-          <Trash2 size={16} />
-        </button>
-      </div>
+      {showHistory && (
+        <ConversationList
+          guestId={guestId}
+          activeId={conversationId}
+          onSelect={handleSelectThread}
+          onNew={handleNewChat}
+          onDeleted={(id) => id === conversationId && setSelectedId(null)}
+        />
+      )}
 
-      {/* Messages */}
-      <div
-        style={{
-          flex: 1,
-          overflowY: "auto",
-          padding: 16,
-          display: "flex",
-          flexDirection: "column",
-          gap: 12,
-        }}
-      >
-        {messages.length === 0 && (
-          <div style={{ textAlign: "center", color: "var(--text-secondary)", padding: "32px 16px" }}>
-            <p style={{ fontSize: 15, fontWeight: 500, marginBottom: 8 }}>Hi! I'm your Dubai guide</p>
-            <p style={{ fontSize: 13, marginBottom: 16 }}>Tell me what you're looking for</p>
-            <div style={{ fontSize: 13, color: "var(--text-tertiary)" }}>
-              <p>"Family cafe with outdoor seating"</p>
-              <p>"Waterfront dinner tonight"</p>
-              <p>"Budget breakfast near Marina"</p>
-            </div>
+      <div style={{ flex: 1, minWidth: 0, display: "flex", flexDirection: "column" }}>
+        {/* Header */}
+        <div
+          style={{
+            padding: "14px 16px",
+            borderBottom: "1px solid var(--border-light)",
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+          }}
+        >
+          <div style={{ display: "flex", alignItems: "center", gap: 8, minWidth: 0 }}>
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              className="btn btn-ghost btn-icon"
+              title={showHistory ? "Hide conversations" : "Conversations"}
+            >
+              <History size={16} />
+            </button>
+            <h3 style={{ fontSize: 15, fontWeight: 600, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+              {conversation?.title || "Chat with Mouoj"}
+            </h3>
           </div>
-        )}
+          <div style={{ display: "flex", gap: 4 }}>
+            <button onClick={handleNewChat} className="btn btn-ghost btn-icon" title="New chat">
+              <Plus size={16} />
+            </button>
+            <button
+              onClick={handleDelete}
+              disabled={!conversationId}
+              className="btn btn-ghost btn-icon"
+              title="Delete conversation"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        </div>
 
-        {messages.map((message, idx) => (
+        {/* What the assistant remembers from earlier turns */}
+        {memoryConstraints.length > 0 && (
           <div
-            key={idx}
             style={{
+              padding: "8px 16px",
+              borderBottom: "1px solid var(--border-light)",
               display: "flex",
-              justifyContent: message.role === "user" ? "flex-end" : "flex-start",
+              flexWrap: "wrap",
+              alignItems: "center",
+              gap: 6,
+              fontSize: 12,
+              color: "var(--text-secondary)",
             }}
+            title={conversation?.memory?.summary}
           >
-            <div
-              style={{
-                maxWidth: "75%",
-                padding: "10px 14px",
-                borderRadius: "var(--radius-lg)",
-                background: message.role === "user" ? "var(--accent)" : "var(--bg-tertiary)",
-                color: message.role === "user" ? "white" : "var(--text-primary)",
-                fontSize: 14,
-                lineHeight: 1.5,
-              }}
-            >
-              {message.content}
-            </div>
+            <Brain size={13} />
+            {memoryConstraints.map((constraint, idx) => (
+              <span
+                key={idx}
+                style={{
+                  padding: "2px 8px",
+                  borderRadius: "var(--radius-full)",
+                  background: "var(--bg-tertiary)",
+                }}
+              >
+                {constraint.value}
+              </span>
+            ))}
           </div>
-        ))}
+        )}
 
-        {isProcessing && (
-          <div style={{ display: "flex", justifyContent: "flex-start" }}>
+        {/* Messages */}
+        <div
+          style={{
+            flex: 1,
+            overflowY: "auto",
+            padding: 16,
+            display: "flex",
+            flexDirection: "column",
+            gap: 12,
+          }}
+        >
+          {messages.length === 0 && (
+            <div style={{ textAlign: "center", color: "var(--text-secondary)", padding: "32px 16px" }}>
+              <p style={{ fontSize: 15, fontWeight: 500, marginBottom: 8 }}>Hi! I'm your Dubai guide</p>
+              <p style={{ fontSize: 13, marginBottom: 16 }}>Tell me what you're looking for</p>
+              <div style={{ fontSize: 13, color: "var(--text-tertiary)" }}>
+                <p>"Family cafe with outdoor seating"</p>
+                <p>"Waterfront dinner tonight"</p>
+                <p>"Budget breakfast near Marina"</p>
+              </div>
+            </div>
+          )}
+
+          {messages.map((message, idx) => (
             <div
+              key={idx}
               style={{
-                padding: "10px 14px",
-                borderRadius: "var(--radius-lg)",
-                background: "var(--bg-tertiary)",
                 display: "flex",
-                alignItems: "center",
+                flexDirection: "column",
+                alignItems: message.role === "user" ? "flex-end" : "flex-start",
                 gap: 8,
               }}
             >
-              <Loader2 size={14} className="animate-spin" />
-              <span style={{ fontSize: 13, color: "var(--text-secondary)" }}>Thinking...</span>
+              <div
+                style={{
+                  maxWidth: "75%",
+                  padding: "10px 14px",
+                  borderRadius: "var(--radius-lg)",
+                  background: message.role === "user" ? "var(--accent)" : "var(--bg-tertiary)",
+                  color: message.role === "user" ? "white" : "var(--text-primary)",
+                  fontSize: 14,
+                  lineHeight: 1.5,
+                }}
+              >
+                {message.content}
+              </div>
+              {message.grounded === false && (
+                <div
+                  style={{ display: "flex", alignItems: "center", gap: 4, fontSize: 12, color: "var(--text-tertiary)" }}
+                  title="Some places in this reply aren't in our listings"
+                >
+                  <AlertTriangle size={12} />
+                  Some places mentioned couldn&apos;t be verified
+                </div>
+              )}
+              {message.placeIds && message.placeIds.length > 0 && (
+                <div style={{ display: "flex", flexDirection: "column", gap: 6, width: "75%" }}>
+                  {message.placeIds.map((placeId) => (
+                    <CitedVenueCard key={placeId} placeId={placeId} />
+                  ))}
+                </div>
+              )}
+              {message.clarification && (
+                <div style={{ maxWidth: "75%" }}>
+                  <ClarificationChips
+                    question={message.clarification.question}
+                    answer={message.clarification.answer}
+                    disabled={isProcessing}
+                    hideQuestion
+                    onAnswer={(optionIndex) => handleAnswer(message.timestamp, optionIndex)}
+                  />
+                </div>
+              )}
+              {filterHistory
+                .filter((entry) => entry.messageTimestamp === message.timestamp)
+                .map((entry) => (
+                  <FilterTurn
+                    key={entry.messageTimestamp}
+                    entry={entry}
+                    canUndo={entry === lastRefinement && !isProcessing}
+                    onUndo={handleUndoFilters}
+                  />
+                ))}
             </div>
-          </div>
-        )}
+          ))}
 
-        <div ref={messagesEndRef} />
-      </div>
+          {activeStream?.content && (
+            <div style={{ display: "flex", justifyContent: "flex-start" }}>
+              <div
+                style={{
+                  maxWidth: "75%",
+                  padding: "10px 14px",
+                  borderRadius: "var(--radius-lg)",
+                  background: "var(--bg-tertiary)",
+                  color: "var(--text-primary)",
+                  fontSize: 14,
+                  lineHeight: 1.5,
+                }}
+              >
+                {activeStream.content.replace(STREAMING_CITATION, "")}
+                {isStreaming && <span style={{ color: "var(--text-tertiary)" }}> ▍</span>}
+              </div>
+            </div>
+          )}
 
-      {/* Input */}
-      <div style={{ padding: 12, borderTop: "1px solid var(--border-light)" }}>
-        <div style={{ display: "flex", gap: 8, alignItems: "flex-end" }}>
-          <textarea
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyDown={handleKeyDown}
-            placeholder={isListening ? "Listening..." : "Type a message..."}
-            disabled={isProcessing || isListening}
-            rows={1}
-            style={{
-              flex: 1,
-              padding: "10px 14px",
-              borderRadius: "var(--radius-md)",
-              border: `1px solid ${isListening ? "var(--accent)" : "var(--border-light)"}`,
-              outline: "none",
-              fontSize: 14,
-              resize: "none",
-              fontFamily: "inherit",
-              background: isListening ? "var(--accent-light)" : "var(--bg-secondary)",
-              minHeight: 42,
-              maxHeight: 120,
-            }}
-          />
+          {isProcessing && !activeStream?.content && (
+            <div style={{ display: "flex", justifyContent: "flex-start" }}>
+              <div
+                style={{
+                  padding: "10px 14px",
+                  borderRadius: "var(--radius-lg)",
+                  background: "var(--bg-tertiary)",
+                  display: "flex",
+                  alignItems: "center",
+                  gap: 8,
+                }}
+              >
+                <Loader2 size={14} className="animate-spin" />
+                <span style={{ fontSize: 13, color: "var(--text-secondary)" }}>Thinking...</span>
+              </div>
+            </div>
+          )}
 
-          <button
-            onClick={toggleVoice}
-            disabled={isProcessing}
-            className="btn btn-icon"
-            style={{
-              background: isListening ? "var(--error)" : "var(--bg-tertiary)",
-              color: isListening ? "white" : "var(--text-secondary)",
-              height: 42,
-              width: 42,
-            }}
-            title={isListening ? "Stop" : "Voice input"}
-          >
-            {isListening ? <MicOff size={18} /> : <Mic size={18} />}
-          </button>
+          <div ref={messagesEndRef} />
+        </div>
 
-          <button
-            onClick={handleSend}
-            disabled={!input.trim() || isProcessing}
-            className="btn btn-primary btn-icon"
+        {rateLimitMessage && (
+          <div
             style={{
-              height: 42,
-              width: 42,
-              opacity: !input.trim() || isProcessing ? 0.6 : 1,
+              padding: "8px 16px",
+              fontSize: 13,
+              color: "var(--warning)",
+              borderTop: "1px solid var(--border-light)",
             }}
           >
-            <Send size={18} />
-          </button>
+            {rateLimitMessage}
+          </div>
+        )}
+
+        {/* Input */}
+        <div style={{ padding: 12, borderTop: "1px solid var(--border-light)" }}>
+          <div style={{ display: "flex", gap: 8, alignItems: "flex-end" }}>
+            <textarea
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder={isListening ? "Listening..." : "Type a message..."}
+              disabled={isProcessing || isListening}
+              rows={1}
+              style={{
+                flex: 1,
+                padding: "10px 14px",
+                borderRadius: "var(--radius-md)",
+                border: `1px solid ${isListening ? "var(--accent)" : "var(--border-light)"}`,
+                outline: "none",
+                fontSize: 14,
+                resize: "none",
+                fontFamily: "inherit",
+                background: isListening ? "var(--accent-light)" : "var(--bg-secondary)",
+                minHeight: 42,
+                maxHeight: 120,
+              }}
+            />
+
+            <button
+              onClick={toggleVoice}
+              disabled={isProcessing}
+              className="btn btn-icon"
+              style={{
+                background: isListening ? "var(--error)" : "var(--bg-tertiary)",
+                color: isListening ? "white" : "var(--text-secondary)",
+                height: 42,
+                width: 42,
+              }}
+              title={isListening ? "Stop" : "Voice input"}
+            >
+              {isListening ? <MicOff size={18} /> : <Mic size={18} />}
+            </button>
+
+            {isStreaming ? (
+              <button
+                onClick={handleStop}
+                className="btn btn-secondary btn-icon"
+                style={{ height: 42, width: 42 }}
+                title="Stop generating"
+              >
+                <Square size={16} />
+              </button>
+            ) : (
+              <button
+                onClick={handleSend}
+                disabled={!input.trim() || isProcessing}
+                className="btn btn-primary btn-icon"
+                style={{
+                  height: 42,
+                  width: 42,
+                  opacity: !input.trim() || isProcessing ? 0.6 : 1,
+                }}
+              >
+                <Send size={18} />
+              </button>
+            )}
+          </div>
+          <p style={{ fontSize: 11, color: "var(--text-tertiary)", marginTop: 8, textAlign: "center" }}>
+            Enter to send · Shift+Enter for new line
+          </p>
         </div>
-        <p style={{ fontSize: 11, color: "var(--text-tertiary)", marginTop: 8, textAlign: "center" }}>
-          Enter to send · Shift+Enter for new line
-        </p>
       </div>
     </div>
   );
 }
+
+/**
+ * Compact card for a venue the assistant cited
+ */
+function CitedVenueCard({ placeId }: { placeId: Id<"places"> }) {
+  const place = useQuery(api.places.getPlace, { placeId });
+
+  if (!place) return null;
+
+  const imageUrl = place.googlePhotos?.[0] || place.coverImage;
+
+  return (
+    <a
+      href={`/place/${place._id}`}
+      style={{
+        display: "flex",
+        alignItems: "center",
+        gap: 10,
+        padding: 8,
+        borderRadius: "var(--radius-md)",
+        border: "1px solid var(--border-light)",
+        background: "var(--bg-secondary)",
+        textDecoration: "none",
+        color: "inherit",
+      }}
+    >
+      <div
+        style={{
+          width: 48,
+          height: 48,
+          flexShrink: 0,
+          borderRadius: "var(--radius-md)",
+          background: imageUrl ? `url(${imageUrl})` : "var(--bg-tertiary)",
+          backgroundSize: "cover",
+          backgroundPosition: "center",
+        }}
+      />
+      <div style={{ minWidth: 0, flex: 1 }}>
+        <div style={{ fontSize: 14, fontWeight: 600, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+          {place.name}
+        </div>
+        <div style={{ fontSize: 12, color: "var(--text-secondary)", display: "flex", alignItems: "center", gap: 4 }}>
+          <Star size={11} fill="currentColor" />
+          {place.rating.toFixed(1)} · {place.area} · {place.priceLevel}
+          {place.openStatus.label && ` · ${place.openStatus.label}`}
+        </div>
+      </div>
+    </a>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { Check, MessageCircleQuestion } from "lucide-react";
+import { Doc } from "../../convex/_generated/dataModel";
+
+export type ClarificationQuestion = NonNullable<Doc<"conversations">["messages"][number]["clarification"]>["question"];
+type AnswerDelta = ClarificationQuestion["options"][number]["delta"];
+
+const LIST_FIELDS = ["tags", "cuisine", "dietary"];
+
+/**
+ * Parsed filters with an answer applied: list filters gain the value, others take it
+ */
+export function applyClarificationAnswer<T extends Record<string, any>>(filters: T, delta: AnswerDelta): T {
+  if (LIST_FIELDS.includes(delta.field)) {
+    const items: unknown[] = filters[delta.field] ?? [];
+    return { ...filters, [delta.field]: items.includes(delta.value) ? items : [...items, delta.value] };
+  }
+  return { ...filters, [delta.field]: delta.value };
+}
+
+interface ClarificationChipsProps {
+  question: ClarificationQuestion;
+  answer?: string; // Label of the option picked
+  disabled?: boolean;
+  hideQuestion?: boolean; // The chat reply already asks it
+  onAnswer: (optionIndex: number) => void;
+}
+
+/**
+ * A follow-up question with its answers as chips; picking one applies it straight away
+ */
+export function ClarificationChips({ question, answer, disabled, hideQuestion, onAnswer }: ClarificationChipsProps) {
+  return (
+    <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 6, fontSize: 13 }}>
+      <span style={{ display: "flex", alignItems: "center", gap: 4, color: "var(--text-secondary)" }}>
+        <MessageCircleQuestion size={14} />
+        {!hideQuestion && question.question}
+      </span>
+      {question.options.map((option, index) => {
+        const picked = answer === option.label;
+        return (
+          <button
+            key={option.label}
+            type="button"
+            onClick={() => onAnswer(index)}
+            disabled={disabled || answer !== undefined}
+            className={`chip ${picked ? "active" : ""}`}
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: 4,
+              opacity: answer !== undefined && !picked ? 0.5 : 1,
+            }}
+          >
+            {picked && <Check size={12} />}
+            {option.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
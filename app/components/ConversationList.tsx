@@ -0,0 +1,184 @@
+"use client";
+
+import { useState } from "react";
+import { Archive, ArchiveRestore, Check, Pencil, Plus, Trash2 } from "lucide-react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Doc, Id } from "../../convex/_generated/dataModel";
+
+export type ConversationFilters = NonNullable<Doc<"conversations">["currentFilters"]>;
+
+interface ConversationListProps {
+  guestId: string;
+  activeId: Id<"conversations"> | null;
+  onSelect: (conversationId: Id<"conversations">, filters: ConversationFilters | null) => void;
+  onNew: () => void;
+  onDeleted: (conversationId: Id<"conversations">) => void;
+}
+
+function formatWhen(timestamp: number): string {
+  const days = Math.floor((Date.now() - timestamp) / (24 * 60 * 60 * 1000));
+  if (days === 0) return new Date(timestamp).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+  if (days === 1) return "Yesterday";
+  if (days < 7) return `${days} days ago`;
+  return new Date(timestamp).toLocaleDateString([], { month: "short", day: "numeric" });
+}
+
+export function ConversationList({ guestId, activeId, onSelect, onNew, onDeleted }: ConversationListProps) {
+  const [showArchived, setShowArchived] = useState(false);
+  const [editingId, setEditingId] = useState<Id<"conversations"> | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+
+  const conversations = useQuery(api.conversations.listConversations, { guestId, includeArchived: showArchived });
+  const renameConversation = useMutation(api.conversations.renameConversation);
+  const archiveConversation = useMutation(api.conversations.archiveConversation);
+  const deleteConversation = useMutation(api.conversations.deleteConversation);
+
+  const handleRename = async (conversationId: Id<"conversations">) => {
+    if (draftTitle.trim()) {
+      await renameConversation({ guestId, conversationId, title: draftTitle });
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = async (conversationId: Id<"conversations">) => {
+    if (confirm("Delete this conversation?")) {
+      await deleteConversation({ guestId, conversationId });
+      onDeleted(conversationId);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        width: 220,
+        flexShrink: 0,
+        borderRight: "1px solid var(--border-light)",
+        display: "flex",
+        flexDirection: "column",
+        background: "var(--bg-secondary)",
+      }}
+    >
+      <div style={{ padding: 10 }}>
+        <button
+          onClick={onNew}
+          className="btn btn-secondary"
+          style={{ width: "100%", display: "flex", alignItems: "center", justifyContent: "center", gap: 6, fontSize: 13 }}
+        >
+          <Plus size={14} />
+          New chat
+        </button>
+      </div>
+
+      <div style={{ flex: 1, overflowY: "auto", padding: "0 6px" }}>
+        {conversations?.length === 0 && (
+          <p style={{ fontSize: 12, color: "var(--text-tertiary)", padding: "8px 6px" }}>No conversations yet</p>
+        )}
+
+        {conversations?.map((conversation) => {
+          const isActive = conversation._id === activeId;
+          return (
+            <div
+              key={conversation._id}
+              onClick={() => editingId !== conversation._id && onSelect(conversation._id, conversation.currentFilters)}
+              style={{
+                padding: "8px 8px",
+                marginBottom: 2,
+                borderRadius: "var(--radius-md)",
+                background: isActive ? "var(--bg-tertiary)" : "transparent",
+                cursor: "pointer",
+                opacity: conversation.archived ? 0.6 : 1,
+              }}
+            >
+              {editingId === conversation._id ? (
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    void handleRename(conversation._id);
+                  }}
+                  style={{ display: "flex", gap: 4 }}
+                >
+                  <input
+                    className="input"
+                    autoFocus
+                    value={draftTitle}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    onBlur={() => void handleRename(conversation._id)}
+                    onKeyDown={(e) => e.key === "Escape" && setEditingId(null)}
+                    style={{ fontSize: 13, padding: "4px 8px" }}
+                  />
+                  <button type="submit" className="btn btn-ghost btn-icon" title="Save">
+                    <Check size={14} />
+                  </button>
+                </form>
+              ) : (
+                <>
+                  <div
+                    style={{
+                      fontSize: 13,
+                      fontWeight: isActive ? 600 : 500,
+                      overflow: "hidden",
+                      textOverflow: "ellipsis",
+                      whiteSpace: "nowrap",
+                    }}
+                  >
+                    {conversation.title}
+                  </div>
+                  <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginTop: 2 }}>
+                    <span style={{ fontSize: 11, color: "var(--text-tertiary)" }}>
+                      {formatWhen(conversation.lastMessage)}
+                    </span>
+                    <div style={{ display: "flex", gap: 2 }} onClick={(e) => e.stopPropagation()}>
+                      <button
+                        className="btn btn-ghost btn-icon"
+                        title="Rename"
+                        onClick={() => {
+                          setEditingId(conversation._id);
+                          setDraftTitle(conversation.title);
+                        }}
+                      >
+                        <Pencil size={12} />
+                      </button>
+                      <button
+                        className="btn btn-ghost btn-icon"
+                        title={conversation.archived ? "Unarchive" : "Archive"}
+                        onClick={() =>
+                          archiveConversation({
+                            guestId,
+                            conversationId: conversation._id,
+                            archived: !conversation.archived,
+                          })
+                        }
+                      >
+                        {conversation.archived ? <ArchiveRestore size={12} /> : <Archive size={12} />}
+                      </button>
+                      <button className="btn btn-ghost btn-icon" title="Delete" onClick={() => handleDelete(conversation._id)}>
+                        <Trash2 size={12} />
+                      </button>
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <label
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: 6,
+          padding: 10,
+          fontSize: 12,
+          color: "var(--text-secondary)",
+          borderTop: "1px solid var(--border-light)",
+          cursor: "pointer",
+        }}
+      >
+        <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />
+        Show archived
+      </label>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 "use client";
 
+import { useQuery } from "convex/react";
 import { X } from "lucide-react";
+import { api } from "../../convex/_generated/api";
 
 interface Filters {
   category: string | undefined;
@@ -12,6 +14,12 @@ interface Filters {
   cuisine: string[];
   noise: string | undefined;
   openNow: boolean;
+  // From the AI parser; shown as removable chips only when set
+  partySize: number | undefined;
+  occasion: string | undefined;
+  dietary: string[];
+  budgetPerPerson: number | undefined;
+  seating: string | undefined;
 }
 
 interface FilterChipsProps {
@@ -20,7 +28,13 @@ interface FilterChipsProps {
 }
 
 export function FilterChips({ filters, onFilterChange }: FilterChipsProps) {
-  const tagOptions = ["family-friendly", "outdoor", "indoor", "waterfront", "quiet"];
+  // Chip tags come from the tag taxonomy, plus any other active tag (e.g. set by the AI) so it can be removed
+  const taxonomy = useQuery(api.tagTaxonomy.listTags) ?? [];
+  const tagOptions = taxonomy.filter((tag) => tag.filterChip).map((tag) => tag.slug);
+  filters.tags.forEach((tag) => {
+    if (!tagOptions.includes(tag)) tagOptions.push(tag);
+  });
+  const tagDefinition = (slug: string) => taxonomy.find((tag) => tag.slug === slug);
   const priceOptions = ["Low", "Mid", "High", "Lux"];
   const vibeOptions = ["Quiet", "Moderate", "Lively"];
 
@@ -70,15 +84,59 @@ export function FilterChips({ filters, onFilterChange }: FilterChipsProps) {
       cuisine: [],
       noise: undefined,
       openNow: false,
+      partySize: undefined,
+      occasion: undefined,
+      dietary: [],
+      budgetPerPerson: undefined,
+      seating: undefined,
     });
   };
 
+  // Chips for what the parser understood about the outing, each removable on its own
+  const intentChips: Array<{ key: string; label: string; remove: () => void }> = [];
+  if (filters.partySize) {
+    intentChips.push({
+      key: "party",
+      label: `${filters.partySize} ${filters.partySize === 1 ? "person" : "people"}`,
+      remove: () => onFilterChange({ ...filters, partySize: undefined }),
+    });
+  }
+  if (filters.occasion) {
+    intentChips.push({
+      key: "occasion",
+      label: filters.occasion.charAt(0).toUpperCase() + filters.occasion.slice(1),
+      remove: () => onFilterChange({ ...filters, occasion: undefined }),
+    });
+  }
+  filters.dietary.forEach((need) => {
+    intentChips.push({
+      key: `dietary-${need}`,
+      label: need.charAt(0).toUpperCase() + need.slice(1),
+      remove: () => onFilterChange({ ...filters, dietary: filters.dietary.filter((d) => d !== need) }),
+    });
+  });
+  if (filters.budgetPerPerson) {
+    intentChips.push({
+      key: "budget",
+      label: `AED ${filters.budgetPerPerson} pp`,
+      remove: () => onFilterChange({ ...filters, budgetPerPerson: undefined }),
+    });
+  }
+  if (filters.seating) {
+    intentChips.push({
+      key: "seating",
+      label: `${filters.seating.replace("-", " ")} seating`,
+      remove: () => onFilterChange({ ...filters, seating: undefined }),
+    });
+  }
+
   const hasActive =
     filters.tags.length > 0 ||
     filters.priceLevel ||
     filters.nearMetro ||
     filters.openNow ||
-    filters.noise;
+    filters.noise ||
+    intentChips.length > 0;
 
   return (
     <div style={{ marginBottom: 24 }}>
@@ -114,8 +172,9 @@ export function FilterChips({ filters, onFilterChange }: FilterChipsProps) {
             key={tag}
             onClick={() => toggleTag(tag)}
             className={`chip ${filters.tags.includes(tag) ? "active" : ""}`}
+            title={tagDefinition(tag)?.labelAr}
           >
-            {tag.replace("-", " ")}
+            {tagDefinition(tag)?.label ?? tag.replace("-", " ")}
           </button>
         ))}
       </div>
@@ -164,6 +223,34 @@ export function FilterChips({ filters, onFilterChange }: FilterChipsProps) {
         ))}
       </div>
 
+      {/* Third Row - Parsed intent */}
+      {intentChips.length > 0 && (
+        <div
+          className="hide-scrollbar"
+          style={{
+            display: "flex",
+            gap: 8,
+            marginTop: 8,
+            overflowX: "auto",
+            alignItems: "center",
+          }}
+        >
+          <span style={{ color: "var(--text-secondary)", fontSize: 13, flexShrink: 0 }}>Plan:</span>
+          {intentChips.map((chip) => (
+            <button
+              key={chip.key}
+              onClick={chip.remove}
+              className="chip active"
+              style={{ display: "flex", alignItems: "center", gap: 4 }}
+              title="Remove"
+            >
+              {chip.label}
+              <X size={12} />
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Clear All */}
       {hasActive && (
         <button
@@ -0,0 +1,128 @@
+"use client";
+
+import { SlidersHorizontal, Undo2 } from "lucide-react";
+import { Doc } from "../../convex/_generated/dataModel";
+
+export type FilterTurnEntry = NonNullable<Doc<"conversations">["filterHistory"]>[number];
+type FilterDelta = FilterTurnEntry["deltas"][number];
+
+const PRICE_ORDER = ["Low", "Mid", "High", "Lux"];
+
+const FIELD_LABELS: Record<string, string> = {
+  category: "Type",
+  priceLevel: "Price",
+  area: "Area",
+  minRating: "Rating",
+  noise: "Vibe",
+  openAt: "Open at",
+  openUntil: "Until",
+  partySize: "Party",
+  occasion: "Occasion",
+  budgetPerPerson: "Budget",
+  seating: "Seating",
+};
+
+function formatValue(field: string, value: FilterDelta["value"]): string {
+  if ((field === "openAt" || field === "openUntil") && typeof value === "number") {
+    return new Date(value).toLocaleString([], { weekday: "short", hour: "numeric", minute: "2-digit" });
+  }
+  if (field === "minRating") {
+    return `${value}+`;
+  }
+  if (field === "budgetPerPerson") {
+    return `AED ${value} pp`;
+  }
+  return String(value);
+}
+
+// A price or rating change that widens the search
+function isRelaxed(delta: FilterDelta): boolean {
+  if (delta.op !== "set" || delta.previous === undefined) {
+    return false;
+  }
+  if (delta.field === "priceLevel") {
+    return PRICE_ORDER.indexOf(String(delta.value)) > PRICE_ORDER.indexOf(String(delta.previous));
+  }
+  if (delta.field === "budgetPerPerson") {
+    return Number(delta.value) > Number(delta.previous);
+  }
+  return delta.field === "minRating" && Number(delta.value) < Number(delta.previous);
+}
+
+/**
+ * One change in words, e.g. "+ outdoor", "− Marina", "Relaxed price: Mid → High"
+ */
+export function describeDelta(delta: FilterDelta): string {
+  if (delta.op === "add" || delta.op === "remove") {
+    return `${delta.op === "add" ? "+" : "−"} ${delta.value}`;
+  }
+
+  if (delta.field === "openNow") {
+    return delta.op === "set" ? "+ Open now" : "− Open now";
+  }
+  if (delta.field === "nearMetro") {
+    if (delta.op === "clear") return "− Near metro";
+    return delta.value ? "+ Near metro" : "Not near metro";
+  }
+
+  const label = FIELD_LABELS[delta.field] ?? delta.field;
+  if (delta.op === "clear") {
+    return `− ${formatValue(delta.field, delta.previous)}`;
+  }
+  const change = delta.previous === undefined
+    ? formatValue(delta.field, delta.value)
+    : `${formatValue(delta.field, delta.previous)} → ${formatValue(delta.field, delta.value)}`;
+  return `${isRelaxed(delta) ? `Relaxed ${label.toLowerCase()}` : label}: ${change}`;
+}
+
+interface FilterTurnProps {
+  entry: FilterTurnEntry;
+  canUndo: boolean; // Only the latest refinement can be undone
+  onUndo: () => void;
+}
+
+/**
+ * How one chat turn changed the search - a step in the thread's filter timeline
+ */
+export function FilterTurn({ entry, canUndo, onUndo }: FilterTurnProps) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexWrap: "wrap",
+        alignItems: "center",
+        gap: 6,
+        maxWidth: "75%",
+        fontSize: 12,
+        color: "var(--text-secondary)",
+        opacity: entry.undone ? 0.5 : 1,
+        textDecoration: entry.undone ? "line-through" : "none",
+      }}
+      title={entry.undone ? "Undone" : "Search filters changed"}
+    >
+      <SlidersHorizontal size={12} />
+      {entry.deltas.map((delta, idx) => (
+        <span
+          key={idx}
+          style={{
+            padding: "2px 8px",
+            borderRadius: "var(--radius-full)",
+            border: "1px solid var(--border-light)",
+          }}
+        >
+          {describeDelta(delta)}
+        </span>
+      ))}
+      {canUndo && (
+        <button
+          onClick={onUndo}
+          className="btn btn-ghost"
+          style={{ display: "flex", alignItems: "center", gap: 4, padding: "2px 6px", fontSize: 12 }}
+        >
+          <Undo2 size={12} />
+          Undo
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,14 @@
 "use client";
 
-import { Star, MapPin, Phone, Navigation, ArrowUpRight } from "lucide-react";
+import { useState } from "react";
+import { Star, MapPin, Phone, Navigation, ArrowUpRight, Info } from "lucide-react";
 import { useMutation } from "convex/react";
+import { FunctionArgs } from "convex/server";
 import { api } from "../../convex/_generated/api";
 
+// The search's filters, recorded with the selection
+export type SelectionFilters = FunctionArgs<typeof api.preferences.recordPlaceSelection>["filters"];
+
 interface Place {
   _id: any;
   name: string;
@@ -13,7 +18,10 @@ interface Place {
   priceLevel: string;
   distance: number;
   isOpen: boolean | null;
+  openStatus?: { state: string; label: string | null };
   reasons: string;
+  score?: number;
+  scoreBreakdown?: { signal: string; label: string; contribution: number }[];
   area: string;
   cuisine: string[];
   phone?: string;
@@ -27,33 +35,34 @@ interface Place {
 
 interface PlaceCardProps {
   place: Place;
-  userId: string;
+  guestId: string;
   searchQuery: string;
-  filters: any;
+  filters: SelectionFilters;
   isBestMatch: boolean;
 }
 
-export function PlaceCard({ place, userId, searchQuery, filters, isBestMatch }: PlaceCardProps) {
+export function PlaceCard({ place, guestId, searchQuery, filters, isBestMatch }: PlaceCardProps) {
   const recordSelection = useMutation(api.preferences.recordPlaceSelection);
+  const [showBreakdown, setShowBreakdown] = useState(false);
 
-  const handleCardClick = () => {
+  // Learning preferences is best-effort; a failed write never blocks opening the venue
+  const recordClick = () => {
     recordSelection({
-      userId,
+      guestId,
       placeId: place._id,
       query: searchQuery,
       filters,
-    });
+    }).catch((error) => console.error("Failed to record selection:", error));
+  };
+
+  const handleCardClick = () => {
+    recordClick();
     window.location.href = `/place/${place._id}`;
   };
 
   const handleNavigate = (e: React.MouseEvent) => {
     e.stopPropagation();
-    recordSelection({
-      userId,
-      placeId: place._id,
-      query: searchQuery,
-      filters,
-    });
+    recordClick();
     window.open(
       `https://www.google.com/maps/search/?api=1&query=${place.latitude},${place.longitude}`,
       "_blank"
@@ -67,11 +76,29 @@ export function PlaceCard({ place, userId, searchQuery, filters, isBestMatch }:
     }
   };
 
+  const handleToggleBreakdown = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setShowBreakdown((shown) => !shown);
+  };
+
   const getPriceSymbol = (level: string) => {
     const map: Record<string, string> = { Low: "$", Mid: "$$", High: "$$$", Lux: "$$$$" };
     return map[level] || level;
   };
 
+  const getStatusBadge = () => {
+    const state = place.openStatus?.state;
+    const label = place.openStatus?.label;
+    if (state === "closing_soon" || state === "opening_soon") {
+      return { className: "badge-warning", text: label };
+    }
+    return place.isOpen
+      ? { className: "badge-success", text: "Open" }
+      : { className: "badge-error", text: "Closed" };
+  };
+
+  const statusBadge = getStatusBadge();
+
   // Use Google photos if available, fall back to coverImage
   const imageUrl = place.googlePhotos?.[0] || place.coverImage;
 
@@ -128,11 +155,8 @@ export function PlaceCard({ place, userId, searchQuery, filters, isBestMatch }:
             right: 12,
           }}
         >
-          <span
-            className={`badge ${place.isOpen ? "badge-success" : "badge-error"}`}
-            style={{ fontSize: 11 }}
-          >
-            {place.isOpen ? "Open" : "Closed"}
+          <span className={`badge ${statusBadge.className}`} style={{ fontSize: 11 }}>
+            {statusBadge.text}
           </span>
         </div>
       </div>
@@ -192,6 +216,69 @@ export function PlaceCard({ place, userId, searchQuery, filters, isBestMatch }:
           ))}
         </div>
 
+        {/* Why this ranked */}
+        {place.scoreBreakdown && place.scoreBreakdown.length > 0 && (
+          <div style={{ marginBottom: 14 }}>
+            <button
+              onClick={handleToggleBreakdown}
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: 4,
+                background: "none",
+                border: "none",
+                padding: 0,
+                cursor: "pointer",
+                fontSize: 12,
+                color: "var(--text-secondary)",
+              }}
+            >
+              <Info size={12} />
+              {showBreakdown ? "Hide ranking details" : "Why this ranked"}
+            </button>
+            {showBreakdown && (
+              <div
+                onClick={(e) => e.stopPropagation()}
+                style={{
+                  marginTop: 8,
+                  padding: 10,
+                  background: "var(--bg-tertiary)",
+                  borderRadius: "var(--radius-md)",
+                  fontSize: 12,
+                }}
+              >
+                {place.scoreBreakdown.map((entry, index) => (
+                  <div
+                    key={`${entry.signal}-${index}`}
+                    style={{ display: "flex", justifyContent: "space-between", gap: 8, padding: "2px 0" }}
+                  >
+                    <span style={{ color: "var(--text-secondary)" }}>{entry.label}</span>
+                    <span style={{ fontWeight: 500, color: entry.contribution < 0 ? "var(--error)" : "var(--text-primary)" }}>
+                      {entry.contribution > 0 ? "+" : ""}
+                      {entry.contribution}
+                    </span>
+                  </div>
+                ))}
+                {place.score !== undefined && (
+                  <div
+                    style={{
+                      display: "flex",
+                      justifyContent: "space-between",
+                      borderTop: "1px solid var(--border-medium)",
+                      marginTop: 6,
+                      paddingTop: 6,
+                      fontWeight: 600,
+                    }}
+                  >
+                    <span>Score</span>
+                    <span>{Math.round(place.score * 10) / 10}</span>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Actions */}
         <div style={{ display: "flex", gap: 8 }}>
           <button
@@ -6,26 +6,26 @@ import { api } from "../../convex/_generated/api";
 import { Settings, Trash2, Heart } from "lucide-react";
 
 interface PreferenceToggleProps {
-  userId: string;
+  guestId: string;
   currentPrefs?: any;
 }
 
-export function PreferenceToggle({ userId, currentPrefs }: PreferenceToggleProps) {
+export function PreferenceToggle({ guestId, currentPrefs }: PreferenceToggleProps) {
   const [showMenu, setShowMenu] = useState(false);
   const updatePrefs = useMutation(api.preferences.updateUserPreferences);
   const clearPrefs = useMutation(api.preferences.clearUserPreferences);
-  const vibeSummary = useQuery(api.preferences.getUserVibeSummary, { userId });
+  const vibeSummary = useQuery(api.preferences.getUserVibeSummary, { guestId });
 
   const handleToggleMemory = async () => {
     await updatePrefs({
-      userId,
+      guestId,
       memoryEnabled: !currentPrefs?.memoryEnabled,
     });
   };
 
   const handleClearPreferences = async () => {
     if (confirm("Clear all your learned preferences? This cannot be undone.")) {
-      await clearPrefs({ userId });
+      await clearPrefs({ guestId });
       alert("Preferences cleared!");
     }
   };
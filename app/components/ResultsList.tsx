@@ -1,7 +1,7 @@
 "use client";
 
-import { PlaceCard } from "./PlaceCard";
-import { MapPin } from "lucide-react";
+import { PlaceCard, SelectionFilters } from "./PlaceCard";
+import { MapPin, Loader2 } from "lucide-react";
 
 interface Place {
   _id: any;
@@ -12,7 +12,10 @@ interface Place {
   priceLevel: string;
   distance: number;
   isOpen: boolean | null;
+  openStatus?: { state: string; label: string | null };
   reasons: string;
+  score?: number;
+  scoreBreakdown?: { signal: string; label: string; contribution: number }[];
   area: string;
   cuisine: string[];
   latitude: number;
@@ -22,21 +25,27 @@ interface Place {
 interface ResultsListProps {
   results: Place[];
   bestMatch: Place | null;
-  totalCount: number;
-  userId: string;
+  guestId: string;
   searchQuery: string;
-  filters: any;
+  filters: SelectionFilters;
+  canLoadMore: boolean;
+  isLoadingMore: boolean;
+  onLoadMore: () => void;
 }
 
 export function ResultsList({
   results,
   bestMatch,
-  totalCount,
-  userId,
+  guestId,
   searchQuery,
   filters,
+  canLoadMore,
+  isLoadingMore,
+  onLoadMore,
 }: ResultsListProps) {
-  if (results.length === 0) {
+  const totalCount = results.length;
+
+  if (results.length === 0 && !canLoadMore) {
     return (
       <div
         style={{
@@ -68,6 +77,7 @@ export function ResultsList({
         <p style={{ color: "var(--text-secondary)", fontSize: 14 }}>
           <span style={{ fontWeight: 600, color: "var(--text-primary)" }}>{totalCount}</span>{" "}
           {totalCount === 1 ? "place" : "places"} found
+          {canLoadMore && " so far"}
         </p>
       </div>
 
@@ -78,7 +88,7 @@ export function ResultsList({
           <PlaceCard
             key={bestMatch._id + "-best"}
             place={bestMatch}
-            userId={userId}
+            guestId={guestId}
             searchQuery={searchQuery}
             filters={filters}
             isBestMatch={true}
@@ -92,13 +102,27 @@ export function ResultsList({
             <PlaceCard
               key={place._id}
               place={place}
-              userId={userId}
+              guestId={guestId}
               searchQuery={searchQuery}
               filters={filters}
               isBestMatch={false}
             />
           ))}
       </div>
+
+      {/* Load More */}
+      {(canLoadMore || isLoadingMore) && (
+        <div style={{ display: "flex", justifyContent: "center", marginTop: 24 }}>
+          <button
+            onClick={onLoadMore}
+            disabled={isLoadingMore}
+            className="btn btn-secondary"
+            style={{ padding: "10px 20px", fontSize: 14, opacity: isLoadingMore ? 0.6 : 1 }}
+          >
+            {isLoadingMore ? <Loader2 size={16} className="animate-spin" /> : "Load more"}
+          </button>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,12 +1,14 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
+import { AccountMenu } from "./components/AccountMenu";
 import { AISearchBar } from "./components/AISearchBar";
 import { ChatInterface } from "./components/ChatInterface";
+import type { ConversationFilters } from "./components/ConversationList";
 import { FilterChips } from "./components/FilterChips";
 import { ResultsList } from "./components/ResultsList";
 import { MessageSquare, Search as SearchIcon, MapPin } from "lucide-react";
-import { useQuery } from "convex/react";
+import { usePaginatedQuery } from "convex/react";
 import { api } from "../convex/_generated/api";
 
 const ROTATING_PHRASES = [
@@ -18,6 +20,8 @@ const ROTATING_PHRASES = [
   "Near the Metro",
 ];
 
+const RESULTS_PAGE_SIZE = 10;
+
 function useTypingAnimation(phrases: string[], typingSpeed = 80, pauseDuration = 2000) {
   const [displayText, setDisplayText] = useState("");
   const [phraseIndex, setPhraseIndex] = useState(0);
@@ -53,10 +57,10 @@ function useTypingAnimation(phrases: string[], typingSpeed = 80, pauseDuration =
 }
 
 export default function Home() {
-  const [userId, setUserId] = useState("guest");
+  const [guestId, setGuestId] = useState("guest");
   const [mounted, setMounted] = useState(false);
 
-  // Initialize userId on client only
+  // Guest id for signed-out users, created on the client only
   useEffect(() => {
     setMounted(true);
     let id = localStorage.getItem("where2-user-id");
@@ -64,7 +68,7 @@ export default function Home() {
       id = `user-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
       localStorage.setItem("where2-user-id", id);
     }
-    setUserId(id);
+    setGuestId(id);
   }, []);
 
   const [searchQuery, setSearchQuery] = useState("");
@@ -78,7 +82,15 @@ export default function Home() {
     cuisine: [] as string[],
     noise: undefined as string | undefined,
     openNow: false,
+    partySize: undefined as number | undefined,
+    occasion: undefined as string | undefined,
+    dietary: [] as string[],
+    budgetPerPerson: undefined as number | undefined,
+    seating: undefined as string | undefined,
   });
+  // "Open at" time phrase from the AI parser, e.g. "tonight at 11", and the end of the window if given
+  const [openAt, setOpenAt] = useState<string | number | undefined>(undefined);
+  const [openUntil, setOpenUntil] = useState<string | number | undefined>(undefined);
 
   const [userLocation, setUserLocation] = useState<{
     lat: number;
@@ -91,18 +103,27 @@ export default function Home() {
 
   const typingText = useTypingAnimation(ROTATING_PHRASES);
 
-  const results = useQuery(
+  const {
+    results,
+    status: resultsStatus,
+    loadMore,
+  } = usePaginatedQuery(
     api.places.searchPlaces,
     showResults && mounted
       ? {
           query: searchQuery,
           ...filters,
+          openAt,
+          openUntil,
           userLat: userLocation?.lat,
           userLon: userLocation?.lon,
-          userId,
+          guestId,
         }
-      : "skip"
+      : "skip",
+    { initialNumItems: RESULTS_PAGE_SIZE }
   );
+  const resultsLoaded = resultsStatus !== "LoadingFirstPage";
+  const bestMatch = results.find((place) => place.isBestMatch) ?? null;
 
   // Request location on mount
   useEffect(() => {
@@ -120,26 +141,66 @@ export default function Home() {
     }
   }, [mounted, locationPermissionAsked]);
 
+  // Parsed filters describe the whole search: one the parser left out (null) is removed, not kept
   const handleSearch = useCallback((query: string, aiFilters?: any, intent?: string) => {
     setSearchQuery(intent || query);
 
     if (aiFilters) {
-      setFilters((prev) => ({
-        category: aiFilters.category ?? prev.category,
-        tags: aiFilters.tags ?? prev.tags,
-        priceLevel: aiFilters.priceLevel ?? prev.priceLevel,
-        area: aiFilters.area ?? prev.area,
-        nearMetro: aiFilters.nearMetro ?? prev.nearMetro,
-        minRating: aiFilters.minRating ?? prev.minRating,
-        cuisine: aiFilters.cuisine ?? prev.cuisine,
-        noise: aiFilters.noise ?? prev.noise,
-        openNow: aiFilters.openNow ?? prev.openNow,
-      }));
+      setFilters({
+        category: aiFilters.category ?? undefined,
+        tags: aiFilters.tags ?? [],
+        priceLevel: aiFilters.priceLevel ?? undefined,
+        area: aiFilters.area ?? undefined,
+        nearMetro: aiFilters.nearMetro ?? undefined,
+        minRating: aiFilters.minRating ?? undefined,
+        cuisine: aiFilters.cuisine ?? [],
+        noise: aiFilters.noise ?? undefined,
+        openNow: aiFilters.openNow ?? false,
+        partySize: aiFilters.partySize ?? undefined,
+        occasion: aiFilters.occasion ?? undefined,
+        dietary: aiFilters.dietary ?? [],
+        budgetPerPerson: aiFilters.budgetPerPerson ?? undefined,
+        seating: aiFilters.seating ?? undefined,
+      });
+      setOpenAt(aiFilters.openAt ?? undefined);
+      setOpenUntil(aiFilters.openUntil ?? undefined);
     }
 
     setShowResults(true);
   }, []);
 
+  // Reopening a chat thread (or undoing a refinement) brings back the filters it's searching with
+  const handleFiltersRestored = useCallback((saved: ConversationFilters) => {
+    setFilters({
+      category: saved.category,
+      tags: saved.tags,
+      priceLevel: saved.priceLevel,
+      area: saved.area,
+      nearMetro: saved.nearMetro,
+      minRating: saved.minRating,
+      cuisine: saved.cuisine,
+      noise: saved.noise,
+      openNow: saved.openNow,
+      partySize: saved.partySize,
+      occasion: saved.occasion,
+      dietary: saved.dietary ?? [],
+      budgetPerPerson: saved.budgetPerPerson,
+      seating: saved.seating,
+    });
+    setOpenAt(saved.openAt);
+    setOpenUntil(saved.openUntil);
+    setShowResults(true);
+  }, []);
+
+  // The assistant searched: results follow the thread's filters and its free-text query
+  const handleChatSearch = useCallback(
+    (saved: ConversationFilters, query: string) => {
+      handleFiltersRestored(saved);
+      setSearchQuery(query);
+    },
+    [handleFiltersRestored]
+  );
+
   const handleFilterChange = useCallback((newFilters: typeof filters) => {
     setFilters(newFilters);
   }, []);
@@ -178,54 +239,58 @@ export default function Home() {
               <span style={{ fontSize: 17, fontWeight: 600 }}>Mouoj</span>
             </div>
 
-            {/* Mode Toggle */}
-            <div
-              style={{
-                display: "flex",
-                background: "var(--bg-tertiary)",
-                borderRadius: "var(--radius-full)",
-                padding: 3,
-              }}
-            >
-              <button
-                onClick={() => setMode("search")}
+            <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+              {/* Mode Toggle */}
+              <div
                 style={{
-                  padding: "6px 14px",
-                  borderRadius: "var(--radius-full)",
-                  background: mode === "search" ? "var(--bg-secondary)" : "transparent",
-                  color: mode === "search" ? "var(--text-primary)" : "var(--text-secondary)",
-                  fontWeight: 500,
-                  fontSize: 13,
                   display: "flex",
-                  alignItems: "center",
-                  gap: 6,
-                  boxShadow: mode === "search" ? "var(--shadow-sm)" : "none",
-                }}
-              >
-                <SearchIcon size={14} />
-                Search
-              </button>
-              <button
-                onClick={() => {
-                  setMode("chat");
-                  setShowResults(false);
-                }}
-                style={{
-                  padding: "6px 14px",
+                  background: "var(--bg-tertiary)",
                   borderRadius: "var(--radius-full)",
-                  background: mode === "chat" ? "var(--bg-secondary)" : "transparent",
-                  color: mode === "chat" ? "var(--text-primary)" : "var(--text-secondary)",
-                  fontWeight: 500,
-                  fontSize: 13,
-                  display: "flex",
-                  alignItems: "center",
-                  gap: 6,
-                  boxShadow: mode === "chat" ? "var(--shadow-sm)" : "none",
+                  padding: 3,
                 }}
               >
-                <MessageSquare size={14} />
-                Chat
-              </button>
+                <button
+                  onClick={() => setMode("search")}
+                  style={{
+                    padding: "6px 14px",
+                    borderRadius: "var(--radius-full)",
+                    background: mode === "search" ? "var(--bg-secondary)" : "transparent",
+                    color: mode === "search" ? "var(--text-primary)" : "var(--text-secondary)",
+                    fontWeight: 500,
+                    fontSize: 13,
+                    display: "flex",
+                    alignItems: "center",
+                    gap: 6,
+                    boxShadow: mode === "search" ? "var(--shadow-sm)" : "none",
+                  }}
+                >
+                  <SearchIcon size={14} />
+                  Search
+                </button>
+                <button
+                  onClick={() => {
+                    setMode("chat");
+                    setShowResults(false);
+                  }}
+                  style={{
+                    padding: "6px 14px",
+                    borderRadius: "var(--radius-full)",
+                    background: mode === "chat" ? "var(--bg-secondary)" : "transparent",
+                    color: mode === "chat" ? "var(--text-primary)" : "var(--text-secondary)",
+                    fontWeight: 500,
+                    fontSize: 13,
+                    display: "flex",
+                    alignItems: "center",
+                    gap: 6,
+                    boxShadow: mode === "chat" ? "var(--shadow-sm)" : "none",
+                  }}
+                >
+                  <MessageSquare size={14} />
+                  Chat
+                </button>
+              </div>
+
+              <AccountMenu guestId={guestId} />
             </div>
           </div>
         </div>
@@ -235,18 +300,26 @@ export default function Home() {
       <div className="container" style={{ paddingTop: 24 }}>
         {mode === "chat" ? (
           <div style={{ maxWidth: 720, margin: "0 auto" }}>
-            <ChatInterface userId={userId} onSearchTriggered={handleSearch} />
+            <ChatInterface
+              guestId={guestId}
+              userLocation={userLocation}
+              currentResultIds={showResults ? results.slice(0, 10).map((place) => place._id) : undefined}
+              onSearchTriggered={handleChatSearch}
+              onFiltersRestored={handleFiltersRestored}
+            />
 
-            {showResults && results && (
+            {showResults && resultsLoaded && (
               <div style={{ marginTop: 32 }}>
                 <FilterChips filters={filters} onFilterChange={handleFilterChange} />
                 <ResultsList
-                  results={results.places}
-                  bestMatch={results.bestMatch}
-                  totalCount={results.totalCount}
-                  userId={userId}
+                  results={results}
+                  bestMatch={bestMatch}
+                  guestId={guestId}
                   searchQuery={searchQuery}
                   filters={filters}
+                  canLoadMore={resultsStatus === "CanLoadMore"}
+                  isLoadingMore={resultsStatus === "LoadingMore"}
+                  onLoadMore={() => loadMore(RESULTS_PAGE_SIZE)}
                 />
               </div>
             )}
@@ -282,7 +355,7 @@ export default function Home() {
               </p>
             </div>
 
-            <AISearchBar onSearch={handleSearch} />
+            <AISearchBar onSearch={handleSearch} guestId={guestId} />
 
             {/* Quick Filters */}
             <div
@@ -348,19 +421,21 @@ export default function Home() {
           /* Results View */
           <div style={{ maxWidth: 960, margin: "0 auto" }}>
             <div style={{ marginBottom: 24 }}>
-              <AISearchBar onSearch={handleSearch} initialValue={searchQuery} />
+              <AISearchBar onSearch={handleSearch} initialValue={searchQuery} guestId={guestId} />
             </div>
 
             <FilterChips filters={filters} onFilterChange={handleFilterChange} />
 
-            {results ? (
+            {resultsLoaded ? (
               <ResultsList
-                results={results.places}
-                bestMatch={results.bestMatch}
-                totalCount={results.totalCount}
-                userId={userId}
+                results={results}
+                bestMatch={bestMatch}
+                guestId={guestId}
                 searchQuery={searchQuery}
                 filters={filters}
+                canLoadMore={resultsStatus === "CanLoadMore"}
+                isLoadingMore={resultsStatus === "LoadingMore"}
+                onLoadMore={() => loadMore(RESULTS_PAGE_SIZE)}
               />
             ) : (
               <div style={{ textAlign: "center", padding: 48, color: "var(--text-secondary)" }}>
@@ -136,8 +136,12 @@ export default function PlaceDetailsPage() {
         >
           {/* Status Badge */}
           <div style={{ position: "absolute", top: 16, right: 16 }}>
-            <span className={`badge ${place.isOpen ? "badge-success" : "badge-error"}`}>
-              {place.isOpen ? "Open Now" : "Closed"}
+            <span
+              className={`badge ${
+                place.openStatus.label ? "badge-warning" : place.isOpen ? "badge-success" : "badge-error"
+              }`}
+            >
+              {place.openStatus.label ?? (place.isOpen ? "Open Now" : "Closed")}
             </span>
           </div>
         </div>
@@ -252,11 +256,16 @@ export default function PlaceDetailsPage() {
           )}
 
           {/* Opening Hours */}
-          {place.openingHours && (
+          {place.weeklyHours && (
             <div className="card">
               <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 16 }}>
                 <Clock size={18} />
                 <h3 style={{ fontSize: 16, fontWeight: 600 }}>Opening Hours</h3>
+                {place.openStatus.specialDay && (
+                  <span className="badge badge-warning" style={{ fontSize: 11 }}>
+                    {place.openStatus.specialDay} hours
+                  </span>
+                )}
               </div>
               <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
                 {days.map((day) => (
@@ -280,7 +289,7 @@ export default function PlaceDetailsPage() {
                       {day}
                     </span>
                     <span style={{ color: "var(--text-secondary)", fontSize: 14 }}>
-                      {place.openingHours![day as keyof typeof place.openingHours]}
+                      {place.weeklyHours![day as keyof typeof place.weeklyHours]}
                     </span>
                   </div>
                 ))}
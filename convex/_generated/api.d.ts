@@ -9,16 +9,39 @@
  */
 
 import type * as ai from "../ai.js";
+import type * as auth from "../auth.js";
+import type * as autocomplete from "../autocomplete.js";
+import type * as chatAgent from "../chatAgent.js";
+import type * as clarifications from "../clarifications.js";
 import type * as conversations from "../conversations.js";
+import type * as crons from "../crons.js";
 import type * as embeddings from "../embeddings.js";
 import type * as enrichment from "../enrichment.js";
 import type * as feedback from "../feedback.js";
+import type * as filterState from "../filterState.js";
+import type * as fusion from "../fusion.js";
 import type * as googlePlaces from "../googlePlaces.js";
+import type * as googlePlacesFixtures from "../googlePlacesFixtures.js";
+import type * as grounding from "../grounding.js";
+import type * as http from "../http.js";
 import type * as hybridSearch from "../hybridSearch.js";
+import type * as llm from "../llm.js";
+import type * as mail from "../mail.js";
+import type * as memory from "../memory.js";
+import type * as openingHours from "../openingHours.js";
+import type * as parseCache from "../parseCache.js";
+import type * as parseEval from "../parseEval.js";
+import type * as parseEvalDataset from "../parseEvalDataset.js";
 import type * as places from "../places.js";
 import type * as preferences from "../preferences.js";
+import type * as rateLimits from "../rateLimits.js";
+import type * as scoring from "../scoring.js";
+import type * as searchIntent from "../searchIntent.js";
 import type * as seedData from "../seedData.js";
 import type * as semanticSearch from "../semanticSearch.js";
+import type * as tagTaxonomy from "../tagTaxonomy.js";
+import type * as users from "../users.js";
+import type * as weather from "../weather.js";
 
 import type {
   ApiFromModules,
@@ -28,16 +51,39 @@ import type {
 
 declare const fullApi: ApiFromModules<{
   ai: typeof ai;
+  auth: typeof auth;
+  autocomplete: typeof autocomplete;
+  chatAgent: typeof chatAgent;
+  clarifications: typeof clarifications;
   conversations: typeof conversations;
+  crons: typeof crons;
   embeddings: typeof embeddings;
   enrichment: typeof enrichment;
   feedback: typeof feedback;
+  filterState: typeof filterState;
+  fusion: typeof fusion;
   googlePlaces: typeof googlePlaces;
+  googlePlacesFixtures: typeof googlePlacesFixtures;
+  grounding: typeof grounding;
+  http: typeof http;
   hybridSearch: typeof hybridSearch;
+  llm: typeof llm;
+  mail: typeof mail;
+  memory: typeof memory;
+  openingHours: typeof openingHours;
+  parseCache: typeof parseCache;
+  parseEval: typeof parseEval;
+  parseEvalDataset: typeof parseEvalDataset;
   places: typeof places;
   preferences: typeof preferences;
+  rateLimits: typeof rateLimits;
+  scoring: typeof scoring;
+  searchIntent: typeof searchIntent;
   seedData: typeof seedData;
   semanticSearch: typeof semanticSearch;
+  tagTaxonomy: typeof tagTaxonomy;
+  users: typeof users;
+  weather: typeof weather;
 }>;
 
 /**
@@ -109,4 +155,74 @@ export declare const components: {
       >;
     };
   };
+  ratelimiter: {
+    public: {
+      checkRateLimit: FunctionReference<
+        "query",
+        "internal",
+        {
+          config:
+            | {
+                capacity?: number;
+                kind: "token bucket";
+                maxReserved?: number;
+                period: number;
+                rate: number;
+                shards?: number;
+              }
+            | {
+                capacity?: number;
+                kind: "fixed window";
+                maxReserved?: number;
+                period: number;
+                rate: number;
+                shards?: number;
+                start?: number;
+              };
+          count?: number;
+          key?: string;
+          name: string;
+          reserve?: boolean;
+          throws?: boolean;
+        },
+        { ok: true; retryAfter?: number } | { ok: false; retryAfter: number }
+      >;
+      rateLimit: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          config:
+            | {
+                capacity?: number;
+                kind: "token bucket";
+                maxReserved?: number;
+                period: number;
+                rate: number;
+                shards?: number;
+              }
+            | {
+                capacity?: number;
+                kind: "fixed window";
+                maxReserved?: number;
+                period: number;
+                rate: number;
+                shards?: number;
+                start?: number;
+              };
+          count?: number;
+          key?: string;
+          name: string;
+          reserve?: boolean;
+          throws?: boolean;
+        },
+        { ok: true; retryAfter?: number } | { ok: false; retryAfter: number }
+      >;
+      resetRateLimit: FunctionReference<
+        "mutation",
+        "internal",
+        { key?: string; name: string },
+        null
+      >;
+    };
+  };
 };
@@ -1,140 +1,158 @@
-import { action } from "./_generated/server";
+import { action, internalAction, ActionCtx } from "./_generated/server";
 import { v } from "convex/values";
-import OpenAI from "openai";
-
-// Initialize OpenAI client configured for OpenRouter
-const getOpenAIClient = () => {
-  const apiKey = process.env.OPENROUTER_API_KEY;
-  if (!apiKey) {
-    throw new Error("OPENROUTER_API_KEY environment variable is not set");
-  }
-
-  return new OpenAI({
-    baseURL: "https://openrouter.ai/api/v1",
-    apiKey: apiKey,
-    defaultHeaders: {
-      "HTTP-Referer": process.env.APP_URL || "http://localhost:3000",
-      "X-Title": "Where2 Dubai",
-    },
-  });
-};
-
-// Define the structured output schema for search intent
-const searchIntentSchema = {
-  type: "object",
-  additionalProperties: false,
-  properties: {
-    intent: {
-      type: "string",
-      description: "A brief summary of what the user is looking for",
-    },
-    filters: {
-      type: "object",
-      additionalProperties: false,
-      properties: {
-        category: {
-          type: ["string", "null"],
-          enum: ["cafe", "restaurant", "any", null],
-          description: "Type of venue (null if not specified)",
-        },
-        tags: {
-          type: "array",
-          items: {
-            type: "string",
-            enum: [
-              "family-friendly",
-              "kid-friendly",
-              "outdoor",
-              "indoor",
-              "waterfront",
-            ],
+import { FunctionReference } from "convex/server";
+import { api, components, internal } from "./_generated/api";
+import { ActionCache } from "@convex-dev/action-cache";
+import { Id } from "./_generated/dataModel";
+import { describeWeather, WeatherContext } from "./weather";
+import { ChatMessage, complete, LLMBackend } from "./llm";
+import { AgentContext, AGENT_INSTRUCTIONS, runChatAgent } from "./chatAgent";
+import { KnownVenues, loadResultsContext, stripCitations } from "./grounding";
+import { checkAIRateLimit } from "./rateLimits";
+import { ConversationMemory, formatMemory } from "./memory";
+import { diffFilters, EMPTY_FILTERS } from "./filterState";
+import { DIETARY_NEEDS, OCCASIONS, SEATING_OPTIONS } from "./searchIntent";
+import {
+  Clarification,
+  CLARIFY_CONFIDENCE_THRESHOLD,
+  clarifyingQuestionSchema,
+  toClarificationQuestions,
+} from "./clarifications";
+import {
+  DEFAULT_TAG_TAXONOMY,
+  describeTagsForSchema,
+  fetchTagTaxonomy,
+  TagDefinition,
+  taxonomyVersion,
+} from "./tagTaxonomy";
+import { PARSE_CACHE_TTL_MS, parseCacheKey } from "./parseCache";
+
+// How often a streaming chat reply is written back for the client to render
+const CHAT_STREAM_FLUSH_MS = 100;
+
+const CHAT_FALLBACK_MESSAGE = "I'm having trouble connecting right now. Please try again.";
+
+// Structured output schema for search intent; the tag vocabulary comes from the tag taxonomy
+function buildSearchIntentSchema(taxonomy: TagDefinition[]) {
+  return {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      intent: {
+        type: "string",
+        description: "A brief summary of what the user is looking for",
+      },
+      filters: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          category: {
+            type: ["string", "null"],
+            enum: ["cafe", "restaurant", "any", null],
+            description: "Type of venue (null if not specified)",
           },
-          description: "Venue characteristics",
-        },
-        priceLevel: {
-          type: ["string", "null"],
-          enum: ["Low", "Mid", "High", "Lux", null],
-          description: "Price range (null if not specified)",
-        },
-        area: {
-          type: ["string", "null"],
-          description: "Area or neighborhood in Dubai (null if not specified)",
-        },
-        nearMetro: {
-          type: ["boolean", "null"],
-          description: "Whether venue should be near a Metro station (null if not specified)",
-        },
-        minRating: {
-          type: ["number", "null"],
-          description: "Minimum rating 0-5 (null if not specified)",
-        },
-        cuisine: {
-          type: "array",
-          items: {
-            type: "string",
+          tags: {
+            type: "array",
+            items: { type: "string", enum: taxonomy.map((definition) => definition.slug) },
+            description: describeTagsForSchema(taxonomy),
+          },
+          priceLevel: {
+            type: ["string", "null"],
+            enum: ["Low", "Mid", "High", "Lux", null],
+            description: "Price range (null if not specified)",
+          },
+          area: {
+            type: ["string", "null"],
+            description: "Area or neighborhood in Dubai (null if not specified)",
+          },
+          nearMetro: {
+            type: ["boolean", "null"],
+            description: "Whether venue should be near a Metro station (null if not specified)",
+          },
+          minRating: {
+            type: ["number", "null"],
+            description: "Minimum rating 0-5 (null if not specified)",
+          },
+          cuisine: {
+            type: "array",
+            items: {
+              type: "string",
+            },
+            description: "Types of cuisine",
+          },
+          noise: {
+            type: ["string", "null"],
+            enum: ["Quiet", "Moderate", "Lively", null],
+            description: "Atmosphere noise level (null if not specified)",
+          },
+          openNow: {
+            type: "boolean",
+            description: "Whether venue must be open now",
+          },
+          openAt: {
+            type: ["string", "null"],
+            description: "When the user plans to go, as a short phrase like \"tonight at 11\" or \"tomorrow 9am\" (null if not specified or if they mean right now)",
+          },
+          openUntil: {
+            type: ["string", "null"],
+            description: "End of the time window they want, as a short phrase like \"9pm\" (null if they gave no end time)",
+          },
+          partySize: {
+            type: ["integer", "null"],
+            description: "Number of people going, including the user (null if not specified)",
+          },
+          occasion: {
+            type: ["string", "null"],
+            enum: [...OCCASIONS, null],
+            description: "What the outing is for (null if not specified)",
+          },
+          dietary: {
+            type: "array",
+            items: { type: "string", enum: [...DIETARY_NEEDS] },
+            description: "Dietary needs of anyone in the party",
+          },
+          budgetPerPerson: {
+            type: ["number", "null"],
+            description: "Budget per person in AED (null if not specified)",
+          },
+          seating: {
+            type: ["string", "null"],
+            enum: [...SEATING_OPTIONS, null],
+            description: "Seating preference (null if not specified)",
           },
-          description: "Types of cuisine",
-        },
-        noise: {
-          type: ["string", "null"],
-          enum: ["Quiet", "Moderate", "Lively", null],
-          description: "Atmosphere noise level (null if not specified)",
-        },
-        openNow: {
-          type: "boolean",
-          description: "Whether venue must be open now",
         },
+        required: [
+          "category", "tags", "priceLevel", "area", "nearMetro", "minRating", "cuisine", "noise", "openNow", "openAt",
+          "openUntil", "partySize", "occasion", "dietary", "budgetPerPerson", "seating",
+        ],
       },
-      required: ["category", "tags", "priceLevel", "area", "nearMetro", "minRating", "cuisine", "noise", "openNow"],
-    },
-    clarifyingQuestions: {
-      type: "array",
-      items: {
-        type: "string",
+      clarifyingQuestions: {
+        type: "array",
+        items: clarifyingQuestionSchema,
+        description: "Multiple-choice questions to ask if more information is needed (max 2)",
+        maxItems: 2,
+      },
+      confidence: {
+        type: "number",
+        minimum: 0,
+        maximum: 1,
+        description: "Confidence level in understanding the query (0-1)",
       },
-      description: "Questions to ask if more information is needed (max 2)",
-      maxItems: 2,
-    },
-    confidence: {
-      type: "number",
-      minimum: 0,
-      maximum: 1,
-      description: "Confidence level in understanding the query (0-1)",
     },
-  },
-  required: ["intent", "filters", "clarifyingQuestions", "confidence"],
-};
-
-// Parse natural language query into structured search filters
-export const parseSearchQuery = action({
-  args: {
-    query: v.string(),
-    conversationHistory: v.optional(
-      v.array(
-        v.object({
-          role: v.string(),
-          content: v.string(),
-        })
-      )
-    ),
-  },
-  handler: async (ctx, args) => {
-    const client = getOpenAIClient();
+    required: ["intent", "filters", "clarifyingQuestions", "confidence"],
+  };
+}
 
-    // Build messages with context - explicitly type as array of chat messages
-    const messages: Array<{
-      role: "system" | "user" | "assistant";
-      content: string;
-    }> = [
-      {
-        role: "system",
-        content: `You are an AI assistant helping users find venues in Dubai. Your job is to understand their natural language queries and convert them into structured search filters.
+// Parser system prompts by version. Add a new version instead of editing one in place,
+// then compare them with the golden-query eval (see parseEval.ts).
+export const PARSE_PROMPT_VERSIONS: Record<string, (now: Date) => string> = {
+  v1: (now) => `You are an AI assistant helping users find venues in Dubai. Your job is to understand their natural language queries and convert them into structured search filters.
 
 Context about Dubai:
 - Metro stations: DMCC, Business Bay, Burj Khalifa/Dubai Mall, Mall of the Emirates, Emirates Towers, Al Rigga
 - Popular areas: Marina, Business Bay, Downtown, JBR, City Walk, Al Barsha, Palm Jumeirah, DIFC, Jumeirah, Deira
 - Weather: Dubai is pleasant outdoors from October to March (outdoor bias), hot from April to September (indoor bias)
-- Current time: ${new Date().toLocaleString("en-US", { timeZone: "Asia/Dubai" })}
+- Current time: ${now.toLocaleString("en-US", { timeZone: "Asia/Dubai" })}
 
 Extract search intent and filters from the user's query. Consider:
 1. Time context (breakfast, lunch, dinner, late night)
@@ -151,70 +169,318 @@ If the query is ambiguous, add up to 2 clarifying questions. Set confidence to:
 Default values:
 - tags: [] (extract from query)
 - cuisine: [] (extract from query)
-- openNow: true if time-sensitive (e.g., "now", "tonight"), false otherwise`,
-      },
-    ];
-
-    // Add conversation history if provided
-    if (args.conversationHistory && args.conversationHistory.length > 0) {
-      const historyMessages = args.conversationHistory.map((msg) => ({
-        role: msg.role as "user" | "assistant" | "system",
-        content: msg.content,
-      }));
-      messages.push(...historyMessages);
-    }
+- openNow: true if they want somewhere open right now, false otherwise
+- openAt: the time phrase if they mention a later time (e.g., "tonight at 11", "Friday brunch"), null otherwise`,
+
+  // v1 plus party size, occasion, dietary needs, budget per person, time window and seating
+  v2: (now) => `${PARSE_PROMPT_VERSIONS.v1(now)}
+
+Also extract, when the user mentions them (null or [] otherwise):
+- partySize: how many people in total ("me and 3 friends" = 4, "a couple" = 2)
+- occasion: "date" (romantic), "business" (meetings, client lunch), "birthday", "celebration" (anniversary, graduation, farewell)
+- dietary: "halal", "vegetarian", "vegan", "gluten-free" - needs of anyone in the party
+- budgetPerPerson: an amount per person in AED; convert totals ("300 for the two of us" = 150) and leave priceLevel null when an amount is given
+- openAt / openUntil: a time window ("between 7 and 9pm" = openAt "7pm", openUntil "9pm")
+- seating: "indoor", "outdoor", "sofa" (comfy seating, couches) or "high-chair" (babies, toddlers)`,
+
+
+  // v2 plus multiple-choice clarifying questions whose options map onto filters
+  v3: (now) => `${PARSE_PROMPT_VERSIONS.v2(now)}
+
+Clarifying questions are shown as answer chips, so make each one multiple choice:
+- field: the filter the answer sets (ask about what matters most for the search, e.g. partySize, area, occasion)
+- options: 2-4 likely answers, each with a short label and the filter value it means ("Just the two of us" -> "2",
+  "Near the beach" -> tag "beach", "Under 100 AED" -> budgetPerPerson "100")
+Only ask when confidence is below 0.6; otherwise return no questions.`,
+};
+
+export const DEFAULT_PARSE_PROMPT_VERSION = "v3";
 
-    // Add current query
+type ConversationMessage = { role: string; content: string };
+
+// Basic parse when the model fails or is rate limited: the raw query as intent, no filters
+function fallbackParseResult(query: string) {
+  return {
+    intent: query,
+    filters: {
+      tags: [],
+      cuisine: [],
+      dietary: [],
+      openNow: false,
+    },
+    clarifyingQuestions: [],
+    confidence: 0.3,
+  };
+}
+
+/**
+ * Parse a query with a given prompt version (shared by parseSearchQuery and the eval runner)
+ * Never throws: failures return success: false with a basic fallback result
+ */
+export async function parseQuery(
+  ctx: ActionCtx,
+  args: {
+    query: string;
+    conversationHistory?: ConversationMessage[];
+    memory?: string | null; // The thread's summary and constraints (memory.ts)
+    promptVersion?: string;
+    backend?: LLMBackend; // Eval runs pass a fake or replay backend
+    userKey?: string | null; // Caller the spend is attributed to
+    tags?: TagDefinition[]; // Tag taxonomy (default: the built-in tags)
+  }
+) {
+  const promptVersion = args.promptVersion ?? DEFAULT_PARSE_PROMPT_VERSION;
+  const buildPrompt = PARSE_PROMPT_VERSIONS[promptVersion];
+  if (!buildPrompt) {
+    throw new Error(`Unknown parse prompt version "${promptVersion}"`);
+  }
+
+  // Build messages with context
+  const messages: ChatMessage[] = [{ role: "system", content: buildPrompt(new Date()) }];
+
+  if (args.memory) {
     messages.push({
-      role: "user",
-      content: args.query,
+      role: "system",
+      content: `Known from earlier in the conversation - apply these constraints as filters where they fit (e.g. a young child -> kid-friendly) unless the query overrides them:\n${args.memory}`,
     });
+  }
 
-    try {
-      const completion = await client.chat.completions.create({
-        model: "openai/gpt-4o-mini", // Fast + supports structured outputs (100x cheaper, 6x faster)
+  // Add conversation history if provided
+  if (args.conversationHistory && args.conversationHistory.length > 0) {
+    const historyMessages = args.conversationHistory.map((msg) => ({
+      role: msg.role as ChatMessage["role"],
+      content: msg.content,
+    }));
+    messages.push(...historyMessages);
+  }
+
+  // Add current query
+  messages.push({
+    role: "user",
+    content: args.query,
+  });
+
+  try {
+    const completion = await complete(
+      ctx,
+      "parse",
+      {
         messages,
-        response_format: {
+        responseFormat: {
           type: "json_schema",
           json_schema: {
             name: "search_intent",
             strict: true,
-            schema: searchIntentSchema,
+            schema: buildSearchIntentSchema(args.tags ?? DEFAULT_TAG_TAXONOMY),
           },
         },
         temperature: 0.3, // Lower temperature for more consistent parsing
-      });
+      },
+      { backend: args.backend, userKey: args.userKey }
+    );
 
-      const content = completion.choices[0].message.content;
-      if (!content) {
-        throw new Error("No content in AI response");
-      }
+    if (!completion.content) {
+      throw new Error("No content in AI response");
+    }
 
-      const parsed = JSON.parse(content);
+    const parsed = JSON.parse(completion.content);
 
-      return {
-        success: true,
-        result: parsed,
-        usage: completion.usage,
-      };
-    } catch (error: any) {
-      console.error("Error parsing query with AI:", error);
+    return {
+      success: true,
+      result: parsed,
+      usage: completion.usage,
+    };
+  } catch (error: any) {
+    console.error("Error parsing query with AI:", error);
+    return {
+      success: false,
+      error: error.message,
+      // Fallback to basic parsing
+      result: fallbackParseResult(args.query),
+    };
+  }
+}
+
+/**
+ * The caller's thread memory as prompt text (see memory.ts)
+ */
+async function loadMemory(
+  ctx: ActionCtx,
+  userKey: string | null,
+  conversationId: Id<"conversations"> | undefined,
+  forSearch?: boolean
+): Promise<string | null> {
+  if (!userKey) {
+    return null;
+  }
+  const memory: ConversationMemory | null = await ctx.runQuery(internal.memory.getConversationMemory, {
+    userId: userKey,
+    conversationId,
+    forSearch,
+  });
+  return formatMemory(memory);
+}
+
+type ParseOutcome = { success: boolean; result: any; error?: string; cached?: boolean };
+
+// Parses by normalized query, time bucket, prompt version and taxonomy version (parseCache.ts)
+const parseResultCache = new ActionCache(components.actionCache, {
+  action: internal.ai.parseForCache,
+  name: "parseResult",
+  ttl: PARSE_CACHE_TTL_MS,
+});
+
+/**
+ * Parse a normalized query for the cache. Failures throw so the fallback is never cached.
+ * The spend counts against the caller whose lookup missed (see parseWithCache).
+ */
+export const parseForCache = internalAction({
+  args: {
+    query: v.string(),
+    timeBucket: v.optional(v.string()), // Only part of the cache key
+    promptVersion: v.string(),
+    taxonomyVersion: v.string(), // Only part of the cache key; the parse loads the current taxonomy
+    userKey: v.optional(v.string()), // Added on a miss, never part of the cache key
+  },
+  handler: async (ctx, args): Promise<{ result: any }> => {
+    const parsed = await parseQuery(ctx, {
+      query: args.query,
+      promptVersion: args.promptVersion,
+      userKey: args.userKey,
+      tags: await fetchTagTaxonomy(ctx),
+    });
+    if (!parsed.success) {
+      throw new Error("error" in parsed ? parsed.error : "Parse failed");
+    }
+    return { result: parsed.result };
+  },
+});
+
+/**
+ * Parse through the cache, counting the hit or miss
+ * Only hits are free: the cache runs parseForCache on a miss, and this passes the caller's key
+ * along with that call (not with the lookup), so the parse counts against their daily budget
+ * while the result is still shared under the caller-independent key.
+ */
+async function parseWithCache(
+  ctx: ActionCtx,
+  query: string,
+  tags: TagDefinition[],
+  userKey: string | null
+): Promise<ParseOutcome> {
+  const now = Date.now();
+  const key = parseCacheKey(query, now, {
+    promptVersion: DEFAULT_PARSE_PROMPT_VERSION,
+    taxonomyVersion: taxonomyVersion(tags),
+  });
+  let missed = false;
+  const attributingCtx = {
+    runQuery: ctx.runQuery,
+    runMutation: ctx.runMutation,
+    runAction: ((reference: FunctionReference<"action", "internal">, args: Record<string, unknown>) => {
+      missed = true;
+      return ctx.runAction(reference, { ...args, userKey: userKey ?? undefined });
+    }) as ActionCtx["runAction"],
+  };
+  try {
+    const { result } = await parseResultCache.fetch(
+      attributingCtx,
+      {
+        query: key.query,
+        timeBucket: key.timeBucket,
+        promptVersion: key.promptVersion,
+        taxonomyVersion: key.taxonomyVersion,
+      },
+      // Entries for "now" or "tonight" expire with their time bucket
+      { ttl: Math.min(PARSE_CACHE_TTL_MS, key.expiresAt - now) }
+    );
+    const cached = !missed;
+    await ctx.runMutation(internal.parseCache.recordLookup, { outcome: cached ? "hit" : "miss" });
+    return { success: true, result, cached };
+  } catch (error: any) {
+    console.error("Error parsing query with AI:", error);
+    await ctx.runMutation(internal.parseCache.recordLookup, { outcome: "miss" });
+    return { success: false, error: error.message, result: fallbackParseResult(query), cached: false };
+  }
+}
+
+/**
+ * Answer chips for a parse the model wasn't confident about, logged for prompt tuning
+ * (see clarifications.ts); null when it was confident or asked nothing usable
+ */
+async function clarify(
+  ctx: ActionCtx,
+  query: string,
+  result: any,
+  tags: TagDefinition[],
+  userKey: string | null
+): Promise<Clarification | null> {
+  if (typeof result.confidence !== "number" || result.confidence >= CLARIFY_CONFIDENCE_THRESHOLD) {
+    return null;
+  }
+  const questions = toClarificationQuestions(result.clarifyingQuestions, tags);
+  if (questions.length === 0) {
+    return null;
+  }
+  const id = await ctx.runMutation(internal.clarifications.logClarification, {
+    userKey: userKey ?? undefined,
+    surface: "search",
+    query,
+    confidence: result.confidence,
+    promptVersion: DEFAULT_PARSE_PROMPT_VERSION,
+    questions,
+  });
+  return { id, questions };
+}
+
+// Parse natural language query into structured search filters
+export const parseSearchQuery = action({
+  args: {
+    query: v.string(),
+    conversationHistory: v.optional(
+      v.array(
+        v.object({
+          role: v.string(),
+          content: v.string(),
+        })
+      )
+    ),
+    guestId: v.optional(v.string()),
+    conversationId: v.optional(v.id("conversations")), // Thread whose memory applies (default: latest, if recent)
+  },
+  handler: async (ctx, args) => {
+    const { userKey, limited } = await checkAIRateLimit(ctx, "parse", args.guestId);
+    if (limited) {
       return {
         success: false,
-        error: error.message,
-        // Fallback to basic parsing
-        result: {
-          intent: args.query,
-          filters: {
-            tags: [],
-            cuisine: [],
-            openNow: false,
-          },
-          clarifyingQuestions: [],
-          confidence: 0.3,
-        },
+        error: "rate_limited",
+        rateLimit: limited,
+        result: fallbackParseResult(args.query),
+        clarification: null,
       };
     }
+
+    const tags = await fetchTagTaxonomy(ctx);
+    const memory = await loadMemory(ctx, userKey, args.conversationId, true);
+
+    // A parse that depends on the conversation can't be shared
+    let parsed: ParseOutcome;
+    if (memory || args.conversationHistory?.length) {
+      await ctx.runMutation(internal.parseCache.recordLookup, { outcome: "bypassed" });
+      parsed = await parseQuery(ctx, {
+        query: args.query,
+        conversationHistory: args.conversationHistory,
+        memory,
+        userKey,
+        tags,
+      });
+    } else {
+      parsed = await parseWithCache(ctx, args.query, tags, userKey);
+    }
+    return {
+      ...parsed,
+      clarification: parsed.success ? await clarify(ctx, args.query, parsed.result, tags, userKey) : null,
+    };
   },
 });
 
@@ -224,12 +490,19 @@ export const generateSearchResponse = action({
     query: v.string(),
     results: v.any(), // Search results
     bestMatch: v.optional(v.any()),
+    guestId: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const client = getOpenAIClient();
-
     const resultsCount = args.results?.places?.length || 0;
     const hasResults = resultsCount > 0;
+    const fallbackResponse = hasResults
+      ? `Found ${resultsCount} great options for you!`
+      : "No exact matches found. Try adjusting your filters.";
+
+    const { userKey, limited } = await checkAIRateLimit(ctx, "response", args.guestId);
+    if (limited) {
+      return { success: false, error: "rate_limited", rateLimit: limited, response: fallbackResponse };
+    }
 
     const prompt = hasResults
       ? `The user searched for: "${args.query}"
@@ -256,26 +529,25 @@ We found no exact matches. Generate a friendly, empathetic response (2-3 sentenc
 Keep it conversational.`;
 
     try {
-      const completion = await client.chat.completions.create({
-        model: "openai/gpt-4o-mini", // Faster, cheaper for simple generation
+      const completion = await complete(ctx, "response", {
         messages: [
           {
-            role: "system" as const,
+            role: "system",
             content:
               "You are a friendly, helpful AI assistant for Where2 Dubai. Be concise, warm, and actionable.",
           },
           {
-            role: "user" as const,
+            role: "user",
             content: prompt,
           },
         ],
         temperature: 0.7,
-        max_tokens: 150,
-      });
+        maxTokens: 150,
+      }, { userKey });
 
       return {
         success: true,
-        response: completion.choices[0].message.content || "",
+        response: completion.content,
         usage: completion.usage,
       };
     } catch (error: any) {
@@ -283,9 +555,7 @@ Keep it conversational.`;
       return {
         success: false,
         error: error.message,
-        response: hasResults
-          ? `Found ${resultsCount} great options for you!`
-          : "No exact matches found. Try adjusting your filters.",
+        response: fallbackResponse,
       };
     }
   },
@@ -300,17 +570,39 @@ export const chatWithAI = action({
         content: v.string(),
       })
     ),
-    currentResults: v.optional(v.any()),
+    currentResults: v.optional(v.array(v.id("places"))), // What the user is looking at, best first
+    guestId: v.optional(v.string()),
+    conversationId: v.optional(v.id("conversations")), // Thread a streamed reply goes to and whose memory applies (default: latest)
+    // For distance lookups
+    userLat: v.optional(v.number()),
+    userLon: v.optional(v.number()),
+    // Stream the reply via conversations.getActiveChatStream; it's appended to the
+    // conversation when done instead of being left to the caller
+    stream: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
-    const client = getOpenAIClient();
+    const { userKey, limited } = await checkAIRateLimit(ctx, "chat", args.guestId);
+    if (limited) {
+      return { success: false, error: "rate_limited", rateLimit: limited, message: limited.message, grounded: true };
+    }
 
-    const systemMessage = {
-      role: "system" as const,
+    const weather: WeatherContext = await ctx.runQuery(api.weather.getCurrentWeather, {});
+    const known: KnownVenues = new Map();
+    const resultsContext = args.currentResults ? await loadResultsContext(ctx, args.currentResults, known) : null;
+    // Turns older than the messages sent along live on as the thread's memory
+    const memory = await loadMemory(ctx, userKey, args.conversationId);
+    const currentFilters = userKey
+      ? await ctx.runQuery(internal.conversations.getCurrentFilters, { userId: userKey, conversationId: args.conversationId })
+      : null;
+    const activeFilters = currentFilters && diffFilters(EMPTY_FILTERS, currentFilters).length > 0 ? currentFilters : null;
+
+    const systemMessage: ChatMessage = {
+      role: "system",
       content: `You are Where2, a friendly AI assistant helping users discover venues in Dubai.
 
 Your capabilities:
 - Understand natural language queries about cafes, restaurants, and venues
+- Search venues, check opening hours and distances with your tools
 - Consider time, weather, party size, and preferences
 - Ask clarifying questions when needed (max 2 at a time)
 - Provide personalized recommendations
@@ -318,52 +610,147 @@ Your capabilities:
 
 Current context:
 - Time: ${new Date().toLocaleString("en-US", { timeZone: "Asia/Dubai" })}
-- Weather season: ${
-        new Date().getMonth() >= 9 || new Date().getMonth() <= 2
-          ? "Pleasant (outdoor-friendly)"
-          : "Hot (indoor preferred)"
-      }
+- Weather: ${describeWeather(weather)}
 ${
-  args.currentResults
-    ? `- Current search has ${args.currentResults.places?.length || 0} results`
+  resultsContext
+    ? `- The user is looking at these results (best first, JSON):\n${resultsContext}`
+    : "- The user has no search results yet"
+}
+${activeFilters ? `- Current search filters (JSON): ${JSON.stringify(activeFilters)}\n` : ""}${
+  memory
+    ? `\nEarlier in this conversation (keep to these constraints in every search unless the user changes them):\n${memory}\n`
     : ""
 }
-
 Guidelines:
 - Be conversational and friendly
 - Keep responses concise (2-4 sentences)
-- If user asks to search, acknowledge and let them know results are coming
-- If discussing results, reference specific venues
-- Use emojis sparingly and naturally`,
+- Use emojis sparingly and naturally
+
+${AGENT_INSTRUCTIONS}`,
     };
 
-    // Cast messages to proper OpenAI format
-    const chatMessages = args.messages.map((msg) => ({
-      role: msg.role as "user" | "assistant" | "system",
+    const chatMessages: ChatMessage[] = args.messages.map((msg) => ({
+      role: msg.role as ChatMessage["role"],
       content: msg.content,
     }));
 
+    const messages = [systemMessage, ...chatMessages];
+    const agent: AgentContext = {
+      guestId: args.guestId,
+      userKey,
+      userLocation:
+        args.userLat !== undefined && args.userLon !== undefined ? { lat: args.userLat, lon: args.userLon } : undefined,
+      known,
+    };
+
+    if (args.stream && userKey) {
+      return await streamChatReply(ctx, userKey, args.conversationId, messages, agent);
+    }
+
     try {
-      const completion = await client.chat.completions.create({
-        model: "openai/gpt-4o-mini",
-        messages: [systemMessage, ...chatMessages],
-        temperature: 0.8,
-        max_tokens: 200,
-      });
+      const reply = await runChatAgent(ctx, messages, agent);
 
       return {
         success: true,
-        message: completion.choices[0].message.content || "",
-        usage: completion.usage,
+        message: reply.content,
+        placeIds: reply.placeIds,
+        grounded: reply.grounded,
+        flaggedNames: reply.flaggedNames,
+        search: reply.search,
+        clarification: reply.clarification,
+        usage: reply.usage,
       };
     } catch (error: any) {
       console.error("Error in chat:", error);
       return {
         success: false,
         error: error.message,
-        message: "I'm having trouble connecting right now. Please try again.",
+        message: CHAT_FALLBACK_MESSAGE,
+        grounded: true,
       };
     }
   },
 });
 
+/**
+ * Stream a chat reply into a chatStreams doc, flushing at most every CHAT_STREAM_FLUSH_MS.
+ * A flush that finds the stream cancelled aborts the model call; whatever arrived is kept.
+ */
+async function streamChatReply(
+  ctx: ActionCtx,
+  userKey: string,
+  conversationId: Id<"conversations"> | undefined,
+  messages: ChatMessage[],
+  agent: AgentContext
+) {
+  const streamId = await ctx.runMutation(internal.conversations.startChatStream, { userId: userKey, conversationId });
+  const controller = new AbortController();
+  let content = "";
+  let lastFlush = 0;
+
+  const flush = async () => {
+    lastFlush = Date.now();
+    const { cancelled } = await ctx.runMutation(internal.conversations.writeChatStream, { streamId, content });
+    if (cancelled) {
+      controller.abort();
+    }
+  };
+
+  try {
+    const reply = await runChatAgent(ctx, messages, agent, {
+      onDelta: async (delta) => {
+        content += delta;
+        if (!controller.signal.aborted && Date.now() - lastFlush >= CHAT_STREAM_FLUSH_MS) {
+          await flush();
+        }
+      },
+      // Anything said before a tool call ("let me check...") is superseded by the answer
+      onToolRound: async () => {
+        if (content) {
+          content = "";
+          await flush();
+        }
+      },
+      signal: controller.signal,
+    });
+
+    await ctx.runMutation(internal.conversations.finishChatStream, {
+      streamId,
+      content: reply.content,
+      placeIds: reply.placeIds,
+      grounded: reply.grounded,
+      filters: reply.search?.filters,
+      clarification: reply.clarification ?? undefined,
+    });
+    return {
+      success: true,
+      message: reply.content,
+      placeIds: reply.placeIds,
+      grounded: reply.grounded,
+      flaggedNames: reply.flaggedNames,
+      search: reply.search,
+      clarification: reply.clarification,
+      usage: reply.usage,
+      streamed: true,
+      cancelled: reply.cancelled,
+    };
+  } catch (error: any) {
+    console.error("Error in chat stream:", error);
+    // Keep a partial reply; otherwise leave the apology in the conversation
+    const partial = stripCitations(content);
+    await ctx.runMutation(internal.conversations.finishChatStream, {
+      streamId,
+      content: partial || CHAT_FALLBACK_MESSAGE,
+      grounded: !partial,
+    });
+    return {
+      success: false,
+      error: error.message,
+      message: partial || CHAT_FALLBACK_MESSAGE,
+      grounded: !partial, // A partial reply never went through grounding
+      streamed: true,
+      cancelled: false,
+    };
+  }
+}
+
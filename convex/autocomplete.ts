@@ -0,0 +1,215 @@
+/**
+ * Typeahead Autocomplete
+ *
+ * Cheap suggestions for the search bar while the user types (no LLM call):
+ * venue names, areas, cuisines, tags and popular past queries, in English and Arabic.
+ * Ranked by how well the input matches (exact > label prefix > word prefix), then popularity.
+ *
+ * Runs on every keystroke, so it never scans the places table: venues come from the
+ * keyword index, areas from a loose scan of the area index, cuisines and tags from their
+ * vocabularies. A past query is only suggested once several people have searched it.
+ */
+
+import { v } from "convex/values";
+import { stream } from "convex-helpers/server/stream";
+import { query } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import schema from "./schema";
+import { loadTagTaxonomy } from "./tagTaxonomy";
+
+export type SuggestionType = "venue" | "area" | "cuisine" | "tag" | "query";
+
+export interface Suggestion {
+  type: SuggestionType;
+  label: string; // English (or as stored)
+  labelAr?: string;
+  value: string; // what to search/filter by
+  placeId?: Id<"places">; // venues only
+  popularity: number;
+  score: number;
+}
+
+// Keyword index hits considered for venue suggestions (their cuisines and tags count towards popularity)
+const VENUE_CANDIDATES = 20;
+
+// Most distinct areas read from the area index
+const MAX_AREAS = 100;
+
+// Recent searches scanned for popular queries
+const HISTORY_WINDOW = 500;
+
+// A past query is only suggested once this many different people have searched it
+const MIN_QUERY_USERS = 3;
+
+// Arabic labels for areas (venue names carry their own nameAr, tags come from the tag taxonomy)
+const AREA_LABELS_AR: Record<string, string> = {
+  "Marina": "دبي مارينا",
+  "Downtown": "وسط مدينة دبي",
+  "Business Bay": "الخليج التجاري",
+  "JBR": "جي بي آر",
+  "City Walk": "سيتي ووك",
+  "Al Barsha": "البرشاء",
+  "Palm Jumeirah": "نخلة جميرا",
+  "DIFC": "مركز دبي المالي العالمي",
+  "Jumeirah": "جميرا",
+  "Deira": "ديرة",
+  "Bur Dubai": "بر دبي",
+};
+
+// Cuisines suggested, with their Arabic labels
+const CUISINE_LABELS_AR: Record<string, string> = {
+  "Italian": "إيطالي",
+  "Indian": "هندي",
+  "Japanese": "ياباني",
+  "Arabic": "عربي",
+  "Lebanese": "لبناني",
+  "Emirati": "إماراتي",
+  "Mediterranean": "متوسطي",
+  "Seafood": "مأكولات بحرية",
+  "International": "عالمي",
+  "Cafe": "مقهى",
+  "Breakfast": "فطور",
+  "Healthy": "صحي",
+  "Asian": "آسيوي",
+  "Pakistani": "باكستاني",
+  "Fusion": "مطبخ مدمج",
+  "Fine Dining": "مطاعم فاخرة",
+};
+
+// Lowercase, strip Arabic diacritics and unify alef/ya/ta marbuta forms so "احمد" finds "أحمد"
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[\u064B-\u065F\u0670]/g, "")
+    .replace(/[أإآ]/g, "ا")
+    .replace(/ى/g, "ي")
+    .replace(/ة/g, "ه")
+    .replace(/[-_]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Emails, phone or card numbers and links shouldn't be suggested to other people
+function hasPersonalDetails(text: string): boolean {
+  return /\S+@\S+/.test(text) || /\d(?:[\s-]?\d){5,}/.test(text) || /https?:\/\/|www\./i.test(text);
+}
+
+// 3 = exact, 2 = label starts with input, 1 = a later word starts with input, 0 = no match
+function matchQuality(input: string, label: string | undefined): number {
+  if (!label) return 0;
+  const candidate = normalize(label);
+  if (candidate === input) return 3;
+  if (candidate.startsWith(input)) return 2;
+  if (candidate.split(" ").some((word) => word.startsWith(input))) return 1;
+  return 0;
+}
+
+/**
+ * Suggestions for a partially typed query
+ */
+export const suggest = query({
+  args: {
+    prefix: v.string(),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<Suggestion[]> => {
+    const input = normalize(args.prefix);
+    const limit = args.limit ?? 8;
+    if (input.length < 2) {
+      return [];
+    }
+
+    const suggestions: Suggestion[] = [];
+    // Synonyms match like labels but aren't shown
+    const add = (suggestion: Omit<Suggestion, "score">, synonyms: string[] = []) => {
+      const quality = Math.max(
+        matchQuality(input, suggestion.label),
+        matchQuality(input, suggestion.labelAr),
+        ...synonyms.map((synonym) => matchQuality(input, synonym))
+      );
+      if (quality > 0) {
+        // Match quality dominates; popularity (log-scaled) breaks ties
+        suggestions.push({ ...suggestion, score: quality * 10 + Math.log1p(suggestion.popularity) });
+      }
+    };
+
+    // Venues whose name matches, from the keyword index (prefix-matches the last word)
+    const places = await ctx.db
+      .query("places")
+      .withSearchIndex("search_text", (q) => q.search("searchText", args.prefix))
+      .take(VENUE_CANDIDATES);
+    const cuisineCounts = new Map<string, number>();
+    const tagCounts = new Map<string, number>();
+    const bump = (counts: Map<string, number>, key: string) => counts.set(key, (counts.get(key) ?? 0) + 1);
+
+    for (const place of places) {
+      add({
+        type: "venue",
+        label: place.name,
+        labelAr: place.nameAr,
+        value: place.name,
+        placeId: place._id,
+        popularity: place.userRatingCount ?? place.rating,
+      });
+      place.cuisine.forEach((cuisine) => bump(cuisineCounts, cuisine));
+      place.tags.forEach((tag) => bump(tagCounts, tag));
+    }
+
+    // One row per distinct area (a loose index scan, not a table scan)
+    const areas = await stream(ctx.db, schema)
+      .query("places")
+      .withIndex("by_area_key")
+      .distinct(["areaKey"])
+      .take(MAX_AREAS);
+    for (const place of areas) {
+      add({ type: "area", label: place.area, labelAr: AREA_LABELS_AR[place.area], value: place.area, popularity: 0 });
+    }
+
+    const cuisines = new Set([...Object.keys(CUISINE_LABELS_AR), ...Array.from(cuisineCounts.keys())]);
+    cuisines.forEach((cuisine) => {
+      add({
+        type: "cuisine",
+        label: cuisine,
+        labelAr: CUISINE_LABELS_AR[cuisine],
+        value: cuisine,
+        popularity: cuisineCounts.get(cuisine) ?? 0,
+      });
+    });
+
+    const taxonomy = await loadTagTaxonomy(ctx);
+    for (const definition of taxonomy) {
+      add(
+        {
+          type: "tag",
+          label: definition.label,
+          labelAr: definition.labelAr,
+          value: definition.slug,
+          popularity: tagCounts.get(definition.slug) ?? 0,
+        },
+        [definition.slug, ...definition.synonyms]
+      );
+    }
+
+    // Popular past queries (case/spacing variants counted together), by how many people searched them
+    const history = await ctx.db
+      .query("searchHistory")
+      .withIndex("by_timestamp")
+      .order("desc")
+      .take(HISTORY_WINDOW);
+    const queryUsers = new Map<string, { label: string; users: Set<string> }>();
+    for (const entry of history) {
+      const key = normalize(entry.query);
+      if (!key || hasPersonalDetails(entry.query)) continue;
+      const existing = queryUsers.get(key) ?? { label: entry.query.trim(), users: new Set<string>() };
+      existing.users.add(entry.userId);
+      queryUsers.set(key, existing);
+    }
+    queryUsers.forEach(({ label, users }) => {
+      if (users.size >= MIN_QUERY_USERS) {
+        add({ type: "query", label, value: label, popularity: users.size });
+      }
+    });
+
+    return suggestions.sort((a, b) => b.score - a.score).slice(0, limit);
+  },
+});
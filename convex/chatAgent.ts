@@ -0,0 +1,425 @@
+/**
+ * Chat Agent
+ *
+ * Tool-calling loop behind chatWithAI. Instead of promising results it can't produce, the
+ * chat model looks venues up with the tools below (search, semantic search, venue details,
+ * open-at checks, distances) and cites every venue it mentions as [[<venue id>]]. When a request
+ * is too vague it asks a multiple-choice question instead (clarifications.ts).
+ * The final reply is grounded against the database (grounding.ts); its venues come back as
+ * placeIds, which ChatInterface renders as cards under the reply.
+ */
+
+import { FunctionArgs, FunctionReturnType } from "convex/server";
+import { ActionCtx } from "./_generated/server";
+import { api, internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { ChatMessage, complete, CompletionRequest, completeStream, TokenUsage, ToolDefinition } from "./llm";
+import { describeVenue, groundReply, KnownVenues } from "./grounding";
+import { resolveOpenAt } from "./openingHours";
+import { calculateDistance } from "./places";
+import { ConversationFilters } from "./filterState";
+import { DIETARY_NEEDS, OCCASIONS, SEATING_OPTIONS } from "./searchIntent";
+import { describeTagsForSchema, fetchTagTaxonomy, TagDefinition } from "./tagTaxonomy";
+import {
+  ClarificationQuestion,
+  CLARIFY_CONFIDENCE_THRESHOLD,
+  clarifyingQuestionSchema,
+  toClarificationQuestions,
+} from "./clarifications";
+
+// Tool rounds before the model has to answer with what it has
+const MAX_TOOL_ROUNDS = 4;
+
+// Venues per search handed back to the model
+const TOOL_RESULT_LIMIT = 6;
+
+export interface AgentContext {
+  guestId?: string;
+  userKey: string | null;
+  userLocation?: { lat: number; lon: number };
+  known?: KnownVenues; // Venues already in the prompt (the user's current results)
+}
+
+export interface AgentStream {
+  onDelta: (text: string) => Promise<void>;
+  onToolRound: () => Promise<void>; // Text streamed before tool calls is dropped from the reply
+  signal: AbortSignal;
+}
+
+export interface AgentResult {
+  content: string; // Grounded, citation markers removed
+  placeIds: Id<"places">[]; // Venues mentioned, in order of first mention
+  grounded: boolean; // False if ungrounded venues were removed or flagged
+  flaggedNames: string[];
+  search: { filters: ConversationFilters; query: string } | null; // Last searchPlaces call
+  clarification: { id: Id<"clarifications">; question: ClarificationQuestion } | null; // Shown as answer chips
+  usage: TokenUsage; // Summed over all rounds
+  cancelled: boolean;
+}
+
+// ============================================================================
+// Tools
+// ============================================================================
+
+interface ToolRun {
+  ctx: ActionCtx;
+  agent: AgentContext;
+  seen: KnownVenues; // Every venue a tool returned
+  onSearch: (filters: ConversationFilters, query: string) => void;
+  taxonomy: TagDefinition[];
+  onClarify: (question: ClarificationQuestion, confidence: number) => Promise<void>;
+}
+
+// Arguments as the model writes them: the declared parameters, any of which may be missing or null
+type ToolArgs<T> = { [K in keyof T]?: T[K] | null };
+
+interface Tool<Args> {
+  definition: ToolDefinition;
+  run(args: ToolArgs<Args>, run: ToolRun): Promise<unknown>;
+}
+
+type SearchPlacesArgs = FunctionArgs<typeof api.places.searchPlaces>;
+type SearchPlacesResult = FunctionReturnType<typeof api.places.searchPlaces>;
+type SemanticSearchResult = FunctionReturnType<typeof api.semanticSearch.semanticSearch>;
+type PlaceDetails = FunctionReturnType<typeof api.places.getPlace>;
+
+const placeIdParameter = { type: "string", description: "Venue id from an earlier tool result" };
+
+// A venue by the id the model passed (null if it passed none, or no venue has it)
+async function findPlace(ctx: ActionCtx, placeId: string | null | undefined, openAt?: number): Promise<PlaceDetails> {
+  if (typeof placeId !== "string") {
+    return null;
+  }
+  return await ctx.runQuery(api.places.getPlace, { placeId: placeId as Id<"places">, openAt });
+}
+
+function formatDubaiTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString("en-US", { timeZone: "Asia/Dubai", weekday: "long", hour: "numeric", minute: "2-digit" });
+}
+
+const SEARCH_FILTER_KEYS = [
+  "category", "tags", "priceLevel", "area", "nearMetro", "minRating", "cuisine", "noise", "openNow", "openAt",
+  "openUntil", "partySize", "occasion", "dietary", "budgetPerPerson", "seating",
+] as const;
+
+type SearchFilters = Pick<SearchPlacesArgs, (typeof SEARCH_FILTER_KEYS)[number]>;
+
+const askClarification: Tool<ClarificationQuestion & { confidence: number }> = {
+  definition: {
+    name: "askClarification",
+    description: `Ask the user one multiple-choice question when the request is too ambiguous to search well (your confidence below ${CLARIFY_CONFIDENCE_THRESHOLD}). The options are shown as chips that apply a filter when tapped. After calling it, end your reply with the question.`,
+    parameters: {
+      ...clarifyingQuestionSchema,
+      properties: {
+        ...clarifyingQuestionSchema.properties,
+        confidence: { type: "number", description: "How sure you are what the user wants, 0-1" },
+      },
+      required: [...clarifyingQuestionSchema.required, "confidence"],
+    },
+  },
+  async run(args, { taxonomy, onClarify }) {
+    const confidence = typeof args.confidence === "number" ? args.confidence : 0;
+    if (confidence >= CLARIFY_CONFIDENCE_THRESHOLD) {
+      return { error: "Confident enough - search instead of asking" };
+    }
+    const [question] = toClarificationQuestions([args], taxonomy);
+    if (!question) {
+      return { error: "Give at least two options with values that fit the field" };
+    }
+    await onClarify(question, confidence);
+    return { shown: true, options: question.options.map((option) => option.label) };
+  },
+};
+
+const searchPlaces: Tool<SearchFilters & { query: string }> = {
+  definition: {
+    name: "searchPlaces",
+    description: "Search venues with filters, ranked by rating, distance, weather, opening hours and the user's preferences. Use this for any request to find places. The filters replace the current ones: pass every filter that should still apply and leave one out to drop it.",
+    parameters: {
+      type: "object",
+      properties: {
+        query: { type: "string", description: "Free text, e.g. a venue name or dish" },
+        category: { type: "string", enum: ["cafe", "restaurant"] },
+        tags: { type: "array", items: { type: "string" } }, // Enum filled in from the tag taxonomy (toolDefinitions)
+        priceLevel: { type: "string", enum: ["Low", "Mid", "High", "Lux"] },
+        area: { type: "string", description: "Dubai area, e.g. Marina, Downtown, JBR" },
+        nearMetro: { type: "boolean" },
+        minRating: { type: "number", description: "0-5" },
+        cuisine: { type: "array", items: { type: "string" } },
+        noise: { type: "string", enum: ["Quiet", "Moderate", "Lively"] },
+        openNow: { type: "boolean" },
+        openAt: { type: "string", description: "When they plan to go, e.g. \"tonight at 11\"" },
+        openUntil: { type: "string", description: "End of their time window, e.g. \"9pm\"" },
+        partySize: { type: "integer", description: "People going, including the user" },
+        occasion: { type: "string", enum: [...OCCASIONS] },
+        dietary: { type: "array", items: { type: "string", enum: [...DIETARY_NEEDS] } },
+        budgetPerPerson: { type: "number", description: "AED per person" },
+        seating: { type: "string", enum: [...SEATING_OPTIONS] },
+      },
+    },
+  },
+  async run(args, { ctx, agent, seen, onSearch }) {
+    // Only the declared parameters, minus anything the model left null
+    const filters = Object.fromEntries(
+      SEARCH_FILTER_KEYS.filter((key) => args[key] !== undefined && args[key] !== null).map((key) => [key, args[key]])
+    ) as Partial<SearchFilters>;
+    const query = typeof args.query === "string" ? args.query : undefined;
+
+    const result: SearchPlacesResult = await ctx.runQuery(api.places.searchPlaces, {
+      query,
+      ...filters,
+      userLat: agent.userLocation?.lat,
+      userLon: agent.userLocation?.lon,
+      guestId: agent.guestId,
+      paginationOpts: { numItems: 20, cursor: null },
+    });
+    // Arguments passed the searchPlaces validators, so the types hold
+    onSearch({ ...filters, tags: filters.tags ?? [], cuisine: filters.cuisine ?? [], openNow: filters.openNow ?? false }, query ?? "");
+
+    return {
+      places: result.page.slice(0, TOOL_RESULT_LIMIT).map((place) => describeVenue(place, seen)),
+      openAt: result.openAt ? formatDubaiTime(result.openAt) : undefined,
+    };
+  },
+};
+
+const semanticSearch: Tool<{ query: string; category: string; area: string }> = {
+  definition: {
+    name: "semanticSearch",
+    description: "Find venues by vibe or description when filters don't capture it, e.g. \"cozy spot to read with great pastries\".",
+    parameters: {
+      type: "object",
+      properties: {
+        query: { type: "string" },
+        category: { type: "string", enum: ["cafe", "restaurant"] },
+        area: { type: "string" },
+      },
+      required: ["query"],
+    },
+  },
+  async run(args, { ctx, agent, seen }) {
+    const result: SemanticSearchResult = await ctx.runAction(api.semanticSearch.semanticSearch, {
+      query: String(args.query ?? ""),
+      filters: { category: args.category ?? undefined, area: args.area ?? undefined },
+      limit: TOOL_RESULT_LIMIT,
+      userLat: agent.userLocation?.lat,
+      userLon: agent.userLocation?.lon,
+      guestId: agent.guestId,
+    });
+    if (result.success === false) {
+      return { error: "Semantic search is unavailable right now; use searchPlaces" };
+    }
+    return { places: result.places.map((place) => describeVenue(place, seen)) };
+  },
+};
+
+const getPlace: Tool<{ placeId: Id<"places"> }> = {
+  definition: {
+    name: "getPlace",
+    description: "Full details for one venue: highlights, weekly hours, metro access, contact.",
+    parameters: { type: "object", properties: { placeId: placeIdParameter }, required: ["placeId"] },
+  },
+  async run(args, { ctx, seen }) {
+    const place = await findPlace(ctx, args.placeId);
+    if (!place) {
+      return { error: "No venue with that id" };
+    }
+    return {
+      ...describeVenue(place, seen),
+      highlights: place.highlights,
+      summary: place.googleSummary,
+      weeklyHours: place.weeklyHours,
+      metroWalkMinutes: place.metroWalkTime,
+      phone: place.phone,
+      website: place.website,
+    };
+  },
+};
+
+const isOpenAt: Tool<{ placeId: Id<"places">; when: string }> = {
+  definition: {
+    name: "isOpenAt",
+    description: "Whether a venue is open at a given time (Dubai time).",
+    parameters: {
+      type: "object",
+      properties: {
+        placeId: placeIdParameter,
+        when: { type: "string", description: "e.g. \"now\", \"tonight at 11\", \"friday 9am\"" },
+      },
+      required: ["placeId", "when"],
+    },
+  },
+  async run(args, { ctx, seen }) {
+    const at = resolveOpenAt(args.when, Date.now());
+    if (at === null) {
+      return { error: `Couldn't understand the time "${args.when}"` };
+    }
+    const place = await findPlace(ctx, args.placeId, at);
+    if (!place) {
+      return { error: "No venue with that id" };
+    }
+    seen.set(place._id, place.name);
+    return {
+      id: place._id,
+      name: place.name,
+      at: formatDubaiTime(at),
+      isOpen: place.openStatus.isOpen,
+      status: place.openStatus.label,
+    };
+  },
+};
+
+const getDistance: Tool<{ placeId: Id<"places">; fromPlaceId: Id<"places"> }> = {
+  definition: {
+    name: "getDistance",
+    description: "Straight-line distance in km to a venue from the user's location, or from another venue.",
+    parameters: {
+      type: "object",
+      properties: {
+        placeId: placeIdParameter,
+        fromPlaceId: { ...placeIdParameter, description: "Measure from this venue instead of the user" },
+      },
+      required: ["placeId"],
+    },
+  },
+  async run(args, { ctx, agent, seen }) {
+    const place = await findPlace(ctx, args.placeId);
+    if (!place) {
+      return { error: "No venue with that id" };
+    }
+    seen.set(place._id, place.name);
+
+    let from: { lat: number; lon: number; label: string };
+    if (args.fromPlaceId) {
+      const origin = await findPlace(ctx, args.fromPlaceId);
+      if (!origin) {
+        return { error: "No venue with the fromPlaceId id" };
+      }
+      seen.set(origin._id, origin.name);
+      from = { lat: origin.latitude, lon: origin.longitude, label: origin.name };
+    } else if (agent.userLocation) {
+      from = { ...agent.userLocation, label: "the user's location" };
+    } else {
+      return { error: "The user's location is unknown; ask which area they're in" };
+    }
+
+    const km = calculateDistance(from.lat, from.lon, place.latitude, place.longitude);
+    return { id: place._id, name: place.name, from: from.label, km: Number(km.toFixed(1)) };
+  },
+};
+
+// Method parameters are bivariant, so every tool fits the registry whatever its arguments
+const TOOLS: Record<string, Tool<object>> = {
+  askClarification,
+  searchPlaces,
+  semanticSearch,
+  getPlace,
+  isOpenAt,
+  getDistance,
+};
+
+// Tool definitions for a run, with the searchPlaces tag vocabulary from the tag taxonomy
+function toolDefinitions(taxonomy: TagDefinition[]): ToolDefinition[] {
+  return Object.values(TOOLS).map(({ definition }) => {
+    if (definition.name !== "searchPlaces") {
+      return definition;
+    }
+    const tags = {
+      type: "array",
+      items: { type: "string", enum: taxonomy.map((tag) => tag.slug) },
+      description: describeTagsForSchema(taxonomy),
+    };
+    const { properties } = definition.parameters;
+    return { ...definition, parameters: { ...definition.parameters, properties: { ...properties, tags } } };
+  });
+}
+
+// Bad arguments and unknown ids go back to the model as errors it can recover from
+async function runTool(name: string, rawArguments: string, run: ToolRun): Promise<unknown> {
+  const tool = TOOLS[name];
+  if (!tool) {
+    return { error: `Unknown tool "${name}"` };
+  }
+  try {
+    return await tool.run(JSON.parse(rawArguments || "{}"), run);
+  } catch (error: any) {
+    console.error(`Chat tool ${name} failed:`, error);
+    return { error: error.message ?? "Tool failed" };
+  }
+}
+
+// ============================================================================
+// Agent loop
+// ============================================================================
+
+export const AGENT_INSTRUCTIONS = `Use the tools to look venues up - never recommend a venue you haven't seen in a tool result.
+After each venue name you mention, cite it as [[<id>]] using the id from the tool result, e.g. "Arabian Tea House [[k57abc]]".
+To refine a search, start from the current filters and change only what the user asked for.
+If a request is too vague to search well, ask one question with askClarification instead of guessing.
+If nothing fits, say so and suggest which filter to loosen.`;
+
+/**
+ * Run the chat model with tools until it answers. With `stream`, each round streams
+ * (text before a tool call is discarded via onToolRound) and aborting stops the loop.
+ */
+export async function runChatAgent(
+  ctx: ActionCtx,
+  messages: ChatMessage[],
+  agent: AgentContext,
+  stream?: AgentStream
+): Promise<AgentResult> {
+  const conversation = [...messages];
+  const seen: KnownVenues = new Map(agent.known);
+  const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  let search: AgentResult["search"] = null;
+  let clarification: AgentResult["clarification"] = null;
+  const taxonomy = await fetchTagTaxonomy(ctx);
+  const tools = toolDefinitions(taxonomy);
+
+  for (let round = 0; ; round++) {
+    const request: CompletionRequest = {
+      messages: conversation,
+      temperature: 0.7,
+      maxTokens: 400,
+      tools: round < MAX_TOOL_ROUNDS ? tools : undefined,
+    };
+    const completion = stream
+      ? await completeStream(ctx, "chat", request, stream.onDelta, { userKey: agent.userKey, signal: stream.signal })
+      : await complete(ctx, "chat", request, { userKey: agent.userKey });
+
+    usage.promptTokens += completion.usage.promptTokens;
+    usage.completionTokens += completion.usage.completionTokens;
+    usage.totalTokens += completion.usage.totalTokens;
+
+    const cancelled = stream?.signal.aborted ?? false;
+    if (cancelled || !completion.toolCalls?.length) {
+      return { ...(await groundReply(ctx, completion.content, seen)), search, clarification, usage, cancelled };
+    }
+
+    await stream?.onToolRound();
+    conversation.push({ role: "assistant", content: completion.content, toolCalls: completion.toolCalls });
+    for (const call of completion.toolCalls) {
+      const result = await runTool(call.name, call.arguments, {
+        ctx,
+        agent,
+        seen,
+        onSearch: (filters, query) => {
+          search = { filters, query };
+        },
+        taxonomy,
+        // Logged for prompt tuning (clarifications.ts); a second question replaces the first
+        onClarify: async (question, confidence) => {
+          const id = await ctx.runMutation(internal.clarifications.logClarification, {
+            userKey: agent.userKey ?? undefined,
+            surface: "chat",
+            query: messages.filter((message) => message.role === "user").pop()?.content ?? "",
+            confidence,
+            questions: [question],
+          });
+          clarification = { id, question };
+        },
+      });
+      conversation.push({ role: "tool", toolCallId: call.id, content: JSON.stringify(result) });
+    }
+  }
+}
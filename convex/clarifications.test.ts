@@ -0,0 +1,87 @@
+import { describe, expect, test } from "vitest";
+import { toClarificationQuestions } from "./clarifications";
+import { DEFAULT_TAG_TAXONOMY } from "./tagTaxonomy";
+
+const question = (field: string, values: string[]) => ({
+  question: `Which ${field}?`,
+  field,
+  options: values.map((value) => ({ label: `Pick ${value}`, value })),
+});
+
+const toQuestions = (raw: unknown) => toClarificationQuestions(raw, DEFAULT_TAG_TAXONOMY);
+
+describe("toClarificationQuestions", () => {
+  test("turns options into filter changes", () => {
+    expect(toQuestions([question("partySize", ["2", "6"])])).toEqual([
+      {
+        question: "Which partySize?",
+        field: "partySize",
+        options: [
+          { label: "Pick 2", delta: { op: "set", field: "partySize", value: 2 } },
+          { label: "Pick 6", delta: { op: "set", field: "partySize", value: 6 } },
+        ],
+      },
+    ]);
+  });
+
+  test("list fields add; tags resolve through the taxonomy", () => {
+    const [tags] = toQuestions([question("tags", ["Kids", "terrace", "no such tag"])]);
+
+    expect(tags.options.map((option) => option.delta)).toEqual([
+      { op: "add", field: "tags", value: "kid-friendly" },
+      { op: "add", field: "tags", value: "outdoor" },
+    ]);
+  });
+
+  test("enum values are matched case-insensitively and stored canonically", () => {
+    const [price] = toQuestions([question("priceLevel", ["mid", "LUX", "cheap"])]);
+
+    expect(price.options.map((option) => option.delta.value)).toEqual(["Mid", "Lux"]);
+  });
+
+  test("numbers are range-checked", () => {
+    expect(toQuestions([question("partySize", ["0", "51", "3"])])).toEqual([]);
+    const [rating] = toQuestions([question("minRating", ["4", "4.5", "6"])]);
+    expect(rating.options.map((option) => option.delta.value)).toEqual([4, 4.5]);
+    const [budget] = toQuestions([question("budgetPerPerson", ["AED 100", "250 AED"])]);
+    expect(budget.options.map((option) => option.delta.value)).toEqual([100, 250]);
+  });
+
+  test("questions about unknown fields, or left with fewer than two options, are dropped", () => {
+    expect(toQuestions([question("mood", ["happy", "sad"]), question("category", ["cafe", "bar"])])).toEqual([]);
+  });
+
+  test("options without a label are dropped and labels are trimmed", () => {
+    const [category] = toQuestions([
+      {
+        question: "  Cafe or restaurant?  ",
+        field: "category",
+        options: [
+          { label: " Cafe ", value: "cafe" },
+          { label: "  ", value: "restaurant" },
+          { label: "Restaurant", value: "restaurant" },
+        ],
+      },
+    ]);
+
+    expect(category.question).toBe("Cafe or restaurant?");
+    expect(category.options.map((option) => option.label)).toEqual(["Cafe", "Restaurant"]);
+  });
+
+  test("keeps at most two questions of four options", () => {
+    const questions = toQuestions([
+      question("area", ["Marina", "JBR", "Downtown", "DIFC", "Deira"]),
+      question("category", ["cafe", "restaurant"]),
+      question("noise", ["Quiet", "Lively"]),
+    ]);
+
+    expect(questions.map((q) => q.field)).toEqual(["area", "category"]);
+    expect(questions[0].options).toHaveLength(4);
+  });
+
+  test("anything that isn't a list of questions gives none", () => {
+    expect(toQuestions(null)).toEqual([]);
+    expect(toQuestions({ question: "Where?" })).toEqual([]);
+    expect(toQuestions([null, "text", { question: "Where?", field: "area" }])).toEqual([]);
+  });
+});
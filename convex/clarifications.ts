@@ -0,0 +1,249 @@
+/**
+ * Clarifying Questions
+ *
+ * When the parser (or the chat model) isn't confident it understood a query, it asks up to
+ * two multiple-choice questions instead of guessing. Each option carries the filter change
+ * it stands for, so AISearchBar and ChatInterface apply an answer chip directly - no second
+ * free-text round trip to the model.
+ *
+ * Model-written options are validated here against the filter vocabulary (tags from the tag
+ * taxonomy, enums from searchIntent.ts) and every question and answer is logged to the
+ * clarifications table for prompt tuning.
+ */
+
+import { v, Infer } from "convex/values";
+import { internalMutation, mutation, query, MutationCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { clarificationQuestionValidator } from "./schema";
+import { FilterDelta } from "./filterState";
+import { DIETARY_NEEDS, OCCASIONS, SEATING_OPTIONS } from "./searchIntent";
+import { resolveTag, TagDefinition } from "./tagTaxonomy";
+import { requireRole, requireUserKey } from "./users";
+
+export type ClarificationQuestion = Infer<typeof clarificationQuestionValidator>;
+
+// Questions as returned to the client; the id is the log entry answers are recorded against
+export interface Clarification {
+  id: Id<"clarifications">;
+  questions: ClarificationQuestion[];
+}
+
+// Below this confidence, a search comes back with questions
+export const CLARIFY_CONFIDENCE_THRESHOLD = 0.6;
+
+const MAX_QUESTIONS = 2;
+const MAX_OPTIONS = 4;
+
+// Filters a question can ask about, and what an answer's value has to be
+const FIELD_VALUES: Record<string, readonly string[] | "text" | "count" | "amount" | "rating" | "tag"> = {
+  category: ["cafe", "restaurant"],
+  area: "text",
+  cuisine: "text",
+  tags: "tag",
+  priceLevel: ["Low", "Mid", "High", "Lux"],
+  noise: ["Quiet", "Moderate", "Lively"],
+  openAt: "text",
+  partySize: "count",
+  occasion: OCCASIONS,
+  dietary: DIETARY_NEEDS,
+  budgetPerPerson: "amount",
+  minRating: "rating",
+  seating: SEATING_OPTIONS,
+};
+
+export const CLARIFY_FIELDS = Object.keys(FIELD_VALUES);
+
+const LIST_FIELDS = ["tags", "cuisine", "dietary"];
+
+// JSON schema of one question as the model writes it (option values are strings)
+export const clarifyingQuestionSchema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    question: { type: "string", description: "Short question, e.g. \"How many of you are going?\"" },
+    field: { type: "string", enum: CLARIFY_FIELDS, description: "Filter the answer sets" },
+    options: {
+      type: "array",
+      maxItems: MAX_OPTIONS,
+      items: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          label: { type: "string", description: "Chip text, e.g. \"Just 2\"" },
+          value: { type: "string", description: "Filter value, e.g. \"2\", \"Marina\", \"outdoor\"" },
+        },
+        required: ["label", "value"],
+      },
+    },
+  },
+  required: ["question", "field", "options"],
+};
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+// An answer's filter change, or null if the value doesn't fit the field
+function toDelta(field: string, raw: string, taxonomy: TagDefinition[]): FilterDelta | null {
+  const allowed = FIELD_VALUES[field];
+  const text = raw.trim();
+  if (!allowed || !text) {
+    return null;
+  }
+  const op = LIST_FIELDS.includes(field) ? "add" : "set";
+
+  if (Array.isArray(allowed)) {
+    const value = allowed.find((option) => option.toLowerCase() === text.toLowerCase());
+    return value ? { op, field, value } : null;
+  }
+  switch (allowed) {
+    case "tag": {
+      const slug = resolveTag(taxonomy, text);
+      return slug ? { op, field, value: slug } : null;
+    }
+    case "count": {
+      const count = parseInt(text, 10);
+      return count > 0 && count <= 50 ? { op, field, value: count } : null;
+    }
+    case "amount": {
+      const amount = parseFloat(text.replace(/[^\d.]/g, ""));
+      return amount > 0 ? { op, field, value: amount } : null;
+    }
+    case "rating": {
+      const rating = parseFloat(text);
+      return rating > 0 && rating <= 5 ? { op, field, value: rating } : null;
+    }
+    default:
+      return { op, field, value: text };
+  }
+}
+
+/**
+ * Typed questions from what the model wrote; options that don't fit their field are dropped,
+ * and so are questions left with fewer than two options
+ */
+export function toClarificationQuestions(raw: unknown, taxonomy: TagDefinition[]): ClarificationQuestion[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  const questions: ClarificationQuestion[] = [];
+  for (const item of raw) {
+    if (typeof item?.question !== "string" || typeof item?.field !== "string" || !Array.isArray(item.options)) {
+      continue;
+    }
+    const options = item.options
+      .filter((option: any) => typeof option?.label === "string" && option.label.trim())
+      .map((option: any) => ({ label: option.label.trim(), delta: toDelta(item.field, String(option.value ?? ""), taxonomy) }))
+      .filter((option: { delta: FilterDelta | null }) => option.delta !== null)
+      .slice(0, MAX_OPTIONS);
+    if (options.length >= 2) {
+      questions.push({ question: item.question.trim(), field: item.field, options });
+    }
+  }
+  return questions.slice(0, MAX_QUESTIONS);
+}
+
+// ============================================================================
+// Log
+// ============================================================================
+
+export const logClarification = internalMutation({
+  args: {
+    userKey: v.optional(v.string()),
+    surface: v.string(),
+    query: v.string(),
+    confidence: v.number(),
+    promptVersion: v.optional(v.string()),
+    questions: v.array(clarificationQuestionValidator),
+  },
+  handler: async (ctx, args): Promise<Id<"clarifications">> => {
+    return await ctx.db.insert("clarifications", { ...args, answers: [], createdAt: Date.now() });
+  },
+});
+
+/**
+ * Log a picked option (shared by recordAnswer and the chat's answerClarification, which check
+ * the caller was the one asked). Only options that were offered count, once per question.
+ */
+export async function logAnswer(
+  ctx: MutationCtx,
+  clarificationId: Id<"clarifications">,
+  questionIndex: number,
+  optionIndex: number
+): Promise<void> {
+  const clarification = await ctx.db.get(clarificationId);
+  if (!clarification) {
+    throw new Error("Question not found");
+  }
+  const option = clarification.questions[questionIndex]?.options[optionIndex];
+  if (!option) {
+    throw new Error("Unknown option");
+  }
+  if (clarification.answers.some((answer) => answer.questionIndex === questionIndex)) {
+    throw new Error("Question already answered");
+  }
+  await ctx.db.patch(clarificationId, {
+    answers: [...clarification.answers, { questionIndex, label: option.label, answeredAt: Date.now() }],
+  });
+}
+
+// An answer chip picked in the search bar, by the person the questions were asked
+export const recordAnswer = mutation({
+  args: {
+    guestId: v.optional(v.string()),
+    clarificationId: v.id("clarifications"),
+    questionIndex: v.number(),
+    optionIndex: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userKey = await requireUserKey(ctx, args.guestId);
+    const clarification = await ctx.db.get(args.clarificationId);
+    if (!clarification || clarification.userKey !== userKey) {
+      throw new Error("Question not found");
+    }
+    await logAnswer(ctx, args.clarificationId, args.questionIndex, args.optionIndex);
+  },
+});
+
+/**
+ * How often each kind of question gets asked and answered, and the answers people pick (admin)
+ */
+export const getClarificationStats = query({
+  args: { days: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, "admin");
+
+    const since = Date.now() - (args.days ?? 7) * 24 * 60 * 60 * 1000;
+    const logged = await ctx.db
+      .query("clarifications")
+      .withIndex("by_created_at", (q) => q.gte("createdAt", since))
+      .collect();
+
+    const byField = new Map<string, { asked: number; answered: number; answers: Record<string, number> }>();
+    for (const clarification of logged) {
+      clarification.questions.forEach((question, index) => {
+        const stats = byField.get(question.field) ?? { asked: 0, answered: 0, answers: {} };
+        stats.asked++;
+        const answer = clarification.answers.find((candidate) => candidate.questionIndex === index);
+        if (answer) {
+          stats.answered++;
+          stats.answers[answer.label] = (stats.answers[answer.label] ?? 0) + 1;
+        }
+        byField.set(question.field, stats);
+      });
+    }
+
+    return {
+      total: logged.length,
+      bySurface: {
+        search: logged.filter((clarification) => clarification.surface === "search").length,
+        chat: logged.filter((clarification) => clarification.surface === "chat").length,
+      },
+      byField: Array.from(byField.entries()).map(([field, stats]) => ({
+        field,
+        ...stats,
+        answerRate: stats.asked > 0 ? stats.answered / stats.asked : 0,
+      })),
+    };
+  },
+});
@@ -1,26 +1,124 @@
 import { v } from "convex/values";
-import { query, mutation } from "./_generated/server";
+import { query, mutation, internalMutation, internalQuery, MutationCtx, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { clarificationQuestionValidator, conversationFiltersValidator } from "./schema";
+import { getUserKey, requireUserKey } from "./users";
+import { scheduleMemoryUpdate } from "./memory";
+import { applyDeltas, ConversationFilters, EMPTY_FILTERS, recordFilterChange, undoLastFilterChange } from "./filterState";
+import { logAnswer } from "./clarifications";
 
-// Get or create conversation for user
-export const getConversation = query({
-  args: { userId: v.string() },
+// Conversations are threads: a user can keep several planning sessions, each with its own
+// messages and last-used filters. Calls without a conversationId use the most recent
+// unarchived thread, creating one on the first message.
+
+type NewMessage = Omit<Doc<"conversations">["messages"][number], "timestamp">;
+
+// A question a reply asked (chatAgent.ts askClarification), before it's answered
+const clarificationValidator = v.object({
+  id: v.id("clarifications"),
+  question: clarificationQuestionValidator,
+});
+
+// Keep only the last messages of a thread to manage storage; older turns are
+// summarized into the thread's memory before they're dropped (memory.ts)
+const MAX_THREAD_MESSAGES = 20;
+
+const TITLE_MAX_LENGTH = 48;
+
+// Thread title from its first message: whitespace collapsed, cut at a word boundary
+function titleFromMessage(content: string): string {
+  let title = content.replace(/\s+/g, " ").trim();
+  if (title.length > TITLE_MAX_LENGTH) {
+    const cut = title.lastIndexOf(" ", TITLE_MAX_LENGTH);
+    title = `${title.slice(0, cut > 0 ? cut : TITLE_MAX_LENGTH)}…`;
+  }
+  return title.charAt(0).toUpperCase() + title.slice(1);
+}
+
+// The user's thread by id; throws if it's missing or someone else's
+async function getOwnedConversation(
+  ctx: QueryCtx,
+  userId: string,
+  conversationId: Id<"conversations">
+): Promise<Doc<"conversations">> {
+  const conversation = await ctx.db.get(conversationId);
+  if (!conversation || conversation.userId !== userId) {
+    throw new Error("Conversation not found");
+  }
+  return conversation;
+}
+
+async function getLatestConversation(ctx: QueryCtx, userId: string): Promise<Doc<"conversations"> | null> {
+  return await ctx.db
+    .query("conversations")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .order("desc")
+    .filter((q) => q.neq(q.field("archived"), true))
+    .first();
+}
+
+// ============================================================================
+// Threads
+// ============================================================================
+
+// User's threads, most recently active first
+export const listConversations = query({
+  args: {
+    guestId: v.optional(v.string()), // Ignored once signed in
+    includeArchived: v.optional(v.boolean()),
+  },
   handler: async (ctx, args) => {
-    const conversation = await ctx.db
+    const userId = await getUserKey(ctx, args.guestId);
+    if (!userId) {
+      return [];
+    }
+
+    const conversations = await ctx.db
       .query("conversations")
-      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .withIndex("by_user", (q) => q.eq("userId", userId))
       .order("desc")
-      .first();
+      .collect();
+
+    return conversations
+      .filter((conversation) => args.includeArchived || !conversation.archived)
+      .map((conversation) => ({
+        _id: conversation._id,
+        title: conversation.title ?? (conversation.messages[0] ? titleFromMessage(conversation.messages[0].content) : "New chat"),
+        archived: conversation.archived ?? false,
+        lastMessage: conversation.lastMessage,
+        messageCount: conversation.messages.length,
+        currentFilters: conversation.currentFilters ?? null,
+      }));
+  },
+});
+
+// Get a thread (default: the latest unarchived one, or an empty placeholder)
+export const getConversation = query({
+  args: {
+    guestId: v.optional(v.string()), // Ignored once signed in
+    conversationId: v.optional(v.id("conversations")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getUserKey(ctx, args.guestId);
+    let conversation: Doc<"conversations"> | null = null;
+    if (userId && args.conversationId) {
+      // A deleted or foreign thread reads as empty rather than erroring the subscription
+      const thread = await ctx.db.get(args.conversationId);
+      conversation = thread && thread.userId === userId ? thread : null;
+    } else if (userId) {
+      conversation = await getLatestConversation(ctx, userId);
+    }
 
     if (!conversation) {
       return {
-        userId: args.userId,
+        _id: null,
+        userId,
+        title: null,
         messages: [],
         lastMessage: Date.now(),
-        currentFilters: {
-          tags: [],
-          cuisine: [],
-          openNow: false,
-        },
+        currentFilters: EMPTY_FILTERS,
+        filterHistory: [],
+        memory: null,
       };
     }
 
@@ -28,82 +126,336 @@ export const getConversation = query({
   },
 });
 
-// Add message to conversation
+// Start an empty thread
+export const createConversation = mutation({
+  args: {
+    guestId: v.optional(v.string()),
+    title: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireUserKey(ctx, args.guestId);
+    const now = Date.now();
+    return await ctx.db.insert("conversations", {
+      userId,
+      messages: [],
+      lastMessage: now,
+      createdAt: now,
+      currentFilters: EMPTY_FILTERS,
+      title: args.title?.trim() || undefined,
+    });
+  },
+});
+
+export const renameConversation = mutation({
+  args: {
+    guestId: v.optional(v.string()),
+    conversationId: v.id("conversations"),
+    title: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireUserKey(ctx, args.guestId);
+    await getOwnedConversation(ctx, userId, args.conversationId);
+
+    const title = args.title.replace(/\s+/g, " ").trim();
+    if (!title) {
+      throw new Error("Title can't be empty");
+    }
+    await ctx.db.patch(args.conversationId, { title: title.slice(0, 100) });
+  },
+});
+
+// Archived threads drop out of the default list and are never picked as "latest"
+export const archiveConversation = mutation({
+  args: {
+    guestId: v.optional(v.string()),
+    conversationId: v.id("conversations"),
+    archived: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireUserKey(ctx, args.guestId);
+    await getOwnedConversation(ctx, userId, args.conversationId);
+    await ctx.db.patch(args.conversationId, { archived: args.archived });
+  },
+});
+
+export const deleteConversation = mutation({
+  args: {
+    guestId: v.optional(v.string()),
+    conversationId: v.id("conversations"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireUserKey(ctx, args.guestId);
+    await getOwnedConversation(ctx, userId, args.conversationId);
+    await ctx.db.delete(args.conversationId);
+  },
+});
+
+// ============================================================================
+// Messages
+// ============================================================================
+
+// Add message to a thread; returns the thread's id (new if one had to be created)
 export const addMessage = mutation({
   args: {
-    userId: v.string(),
+    guestId: v.optional(v.string()),
+    conversationId: v.optional(v.id("conversations")),
     role: v.string(),
     content: v.string(),
-    filters: v.optional(
-      v.object({
-        category: v.optional(v.string()),
-        tags: v.array(v.string()),
-        priceLevel: v.optional(v.string()),
-        area: v.optional(v.string()),
-        nearMetro: v.optional(v.boolean()),
-        minRating: v.optional(v.number()),
-        cuisine: v.array(v.string()),
-        noise: v.optional(v.string()),
-        openNow: v.boolean(),
-      })
-    ),
+    placeIds: v.optional(v.array(v.id("places"))),
+    grounded: v.optional(v.boolean()),
+    filters: v.optional(conversationFiltersValidator),
+    clarification: v.optional(clarificationValidator),
   },
   handler: async (ctx, args) => {
-    const existing = await ctx.db
-      .query("conversations")
-      .withIndex("by_user", (q) => q.eq("userId", args.userId))
-      .order("desc")
-      .first();
+    const userId = await requireUserKey(ctx, args.guestId);
+    const { role, content, placeIds, grounded, filters, clarification } = args;
+    return await appendMessage(ctx, userId, args.conversationId, { role, content, placeIds, grounded, clarification }, filters);
+  },
+});
 
-    const newMessage = {
-      role: args.role,
-      content: args.content,
-      timestamp: Date.now(),
-    };
+async function appendMessage(
+  ctx: MutationCtx,
+  userId: string,
+  conversationId: Id<"conversations"> | undefined,
+  message: NewMessage,
+  filters?: ConversationFilters
+): Promise<Id<"conversations">> {
+  const existing = conversationId
+    ? await getOwnedConversation(ctx, userId, conversationId)
+    : await getLatestConversation(ctx, userId);
 
-    if (existing) {
-      const updatedMessages = [...existing.messages, newMessage];
+  const now = Date.now();
+  const newMessage = {
+    ...message,
+    placeIds: message.placeIds?.length ? message.placeIds : undefined,
+    timestamp: now,
+  };
+  const title = message.role === "user" ? titleFromMessage(message.content) : undefined;
+  // The filters a reply searched with become a turn in the thread's filter history
+  const filterChange = filters ? recordFilterChange(existing ?? {}, filters, now) : null;
 
-      // Keep only last 20 messages to manage storage
-      const trimmedMessages =
-        updatedMessages.length > 20
-          ? updatedMessages.slice(-20)
-          : updatedMessages;
+  if (existing) {
+    await ctx.db.patch(existing._id, {
+      messages: [...existing.messages, newMessage].slice(-MAX_THREAD_MESSAGES),
+      lastMessage: now,
+      ...filterChange,
+      ...(!existing.title && title && { title }),
+    });
+    await scheduleMemoryUpdate(ctx, existing._id);
 
-      await ctx.db.patch(existing._id, {
-        messages: trimmedMessages,
-        lastMessage: Date.now(),
-        ...(args.filters && { currentFilters: args.filters }),
-      });
-
-      return existing._id;
-    } else {
-      return await ctx.db.insert("conversations", {
-        userId: args.userId,
-        messages: [newMessage],
-        lastMessage: Date.now(),
-        currentFilters: args.filters || {
-          tags: [],
-          cuisine: [],
-          openNow: false,
-        },
-      });
+    return existing._id;
+  } else {
+    return await ctx.db.insert("conversations", {
+      userId,
+      messages: [newMessage],
+      lastMessage: now,
+      createdAt: now,
+      currentFilters: EMPTY_FILTERS,
+      ...filterChange,
+      title,
+    });
+  }
+}
+
+// ============================================================================
+// Filters
+// ============================================================================
+
+// Revert the thread's last filter refinement; returns the filters to search with now
+export const undoFilterChange = mutation({
+  args: {
+    guestId: v.optional(v.string()),
+    conversationId: v.id("conversations"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await requireUserKey(ctx, args.guestId);
+    const conversation = await getOwnedConversation(ctx, userId, args.conversationId);
+
+    const undone = undoLastFilterChange(conversation);
+    if (!undone) {
+      throw new Error("Nothing to undo");
     }
+    await ctx.db.patch(args.conversationId, undone);
+    return undone.currentFilters;
   },
 });
 
-// Clear conversation
-export const clearConversation = mutation({
-  args: { userId: v.string() },
+// Answer a reply's question with one of its chips: the option's filter change is recorded like
+// any refinement and the answer goes into the thread as the user's message. Returns the
+// filters to search with now - no model call needed.
+export const answerClarification = mutation({
+  args: {
+    guestId: v.optional(v.string()),
+    conversationId: v.id("conversations"),
+    messageTimestamp: v.number(), // The assistant message that asked
+    optionIndex: v.number(),
+  },
   handler: async (ctx, args) => {
-    const existing = await ctx.db
-      .query("conversations")
-      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+    const userId = await requireUserKey(ctx, args.guestId);
+    const conversation = await getOwnedConversation(ctx, userId, args.conversationId);
+
+    const asking = conversation.messages.find((message) => message.timestamp === args.messageTimestamp);
+    const clarification = asking?.clarification;
+    if (!clarification) {
+      throw new Error("Question not found");
+    }
+    if (clarification.answer !== undefined) {
+      throw new Error("Question already answered");
+    }
+    const option = clarification.question.options[args.optionIndex];
+    if (!option) {
+      throw new Error("Unknown option");
+    }
+
+    await ctx.db.patch(args.conversationId, {
+      messages: conversation.messages.map((message) =>
+        message === asking ? { ...message, clarification: { ...clarification, answer: option.label } } : message
+      ),
+    });
+    const filters = applyDeltas(conversation.currentFilters ?? EMPTY_FILTERS, [option.delta]);
+    await appendMessage(ctx, userId, args.conversationId, { role: "user", content: option.label }, filters);
+    await logAnswer(ctx, clarification.id, 0, args.optionIndex);
+
+    return filters;
+  },
+});
+
+// Filters a thread is searching with, for the chat prompt (default: the latest thread)
+export const getCurrentFilters = internalQuery({
+  args: {
+    userId: v.string(),
+    conversationId: v.optional(v.id("conversations")),
+  },
+  handler: async (ctx, args) => {
+    const conversation = args.conversationId
+      ? await ctx.db.get(args.conversationId)
+      : await getLatestConversation(ctx, args.userId);
+    if (!conversation || conversation.userId !== args.userId) {
+      return EMPTY_FILTERS;
+    }
+    return conversation.currentFilters ?? EMPTY_FILTERS;
+  },
+});
+
+// ============================================================================
+// Streaming replies
+// ============================================================================
+// chatWithAI writes the reply into a chatStreams doc as tokens arrive; the client
+// renders it live and can cancel. The finished text is appended as a normal message.
+
+// Get the reply currently streaming for user (in a given thread), if any
+export const getActiveChatStream = query({
+  args: {
+    guestId: v.optional(v.string()),
+    conversationId: v.optional(v.id("conversations")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getUserKey(ctx, args.guestId);
+    if (!userId) {
+      return null;
+    }
+    const stream = await ctx.db
+      .query("chatStreams")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
       .order("desc")
       .first();
 
-    if (existing) {
-      await ctx.db.delete(existing._id);
+    if (stream && args.conversationId && stream.conversationId && stream.conversationId !== args.conversationId) {
+      return null;
+    }
+    return stream;
+  },
+});
+
+// Stop the user's streaming reply; chatWithAI sees this on its next write and aborts
+export const cancelChatStream = mutation({
+  args: { guestId: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const userId = await requireUserKey(ctx, args.guestId);
+    const streams = await ctx.db
+      .query("chatStreams")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    for (const stream of streams) {
+      await ctx.db.patch(stream._id, { status: "cancelled", updatedAt: Date.now() });
+    }
+  },
+});
+
+export const startChatStream = internalMutation({
+  args: {
+    userId: v.string(),
+    conversationId: v.optional(v.id("conversations")),
+  },
+  handler: async (ctx, args) => {
+    if (args.conversationId) {
+      await getOwnedConversation(ctx, args.userId, args.conversationId);
+    }
+
+    const now = Date.now();
+    return await ctx.db.insert("chatStreams", {
+      userId: args.userId,
+      conversationId: args.conversationId,
+      content: "",
+      status: "streaming",
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+// Save the text so far; returns whether the user has cancelled
+export const writeChatStream = internalMutation({
+  args: {
+    streamId: v.id("chatStreams"),
+    content: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const stream = await ctx.db.get(args.streamId);
+    if (!stream || stream.status === "cancelled") {
+      return { cancelled: true };
+    }
+    await ctx.db.patch(args.streamId, { content: args.content, updatedAt: Date.now() });
+    return { cancelled: false };
+  },
+});
+
+// Move the final text into the conversation and drop the stream, in one transaction
+export const finishChatStream = internalMutation({
+  args: {
+    streamId: v.id("chatStreams"),
+    content: v.string(),
+    placeIds: v.optional(v.array(v.id("places"))),
+    grounded: v.optional(v.boolean()),
+    filters: v.optional(conversationFiltersValidator), // Filters of a search the reply ran
+    clarification: v.optional(clarificationValidator), // Question the reply asked
+  },
+  handler: async (ctx, args) => {
+    const stream = await ctx.db.get(args.streamId);
+    if (!stream) {
+      return;
+    }
+    await ctx.db.delete(args.streamId);
+
+    // The thread may have been deleted while the reply streamed
+    if (stream.conversationId && !(await ctx.db.get(stream.conversationId))) {
+      return;
+    }
+    if (args.content.trim()) {
+      await appendMessage(
+        ctx,
+        stream.userId,
+        stream.conversationId,
+        {
+          role: "assistant",
+          content: args.content,
+          placeIds: args.placeIds,
+          grounded: args.grounded,
+          clarification: args.clarification,
+        },
+        args.filters
+      );
     }
   },
 });
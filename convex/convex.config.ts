@@ -1,7 +1,9 @@
 import { defineApp } from "convex/server";
 import actionCache from "@convex-dev/action-cache/convex.config";
+import ratelimiter from "@convex-dev/ratelimiter/convex.config";
 
 const app = defineApp();
 app.use(actionCache);
+app.use(ratelimiter);
 
 export default app;
@@ -0,0 +1,9 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Keep the cached weather snapshot fresh for ranking and chat context
+crons.interval("refresh weather", { minutes: 30 }, internal.weather.refreshWeather);
+
+export default crons;
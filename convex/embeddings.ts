@@ -1,25 +1,9 @@
 import { action, internalMutation, internalAction, internalQuery } from "./_generated/server";
 import { v } from "convex/values";
-import { api, internal } from "./_generated/api";
-import OpenAI from "openai";
+import { internal } from "./_generated/api";
 import { Id } from "./_generated/dataModel";
-
-// Initialize OpenAI client configured for OpenRouter
-const getOpenAIClient = () => {
-  const apiKey = process.env.OPENROUTER_API_KEY;
-  if (!apiKey) {
-    throw new Error("OPENROUTER_API_KEY environment variable is not set");
-  }
-
-  return new OpenAI({
-    baseURL: "https://openrouter.ai/api/v1",
-    apiKey: apiKey,
-    defaultHeaders: {
-      "HTTP-Referer": process.env.APP_URL || "http://localhost:3000",
-      "X-Title": "Where2 Dubai",
-    },
-  });
-};
+import { embed } from "./llm";
+import { requireRole } from "./users";
 
 /**
  * Generate embedding text from venue data
@@ -59,20 +43,14 @@ export const generatePlaceEmbedding = internalAction({
     // Build the text to embed
     const embeddingText = buildEmbeddingText(place);
 
-    // Generate embedding using OpenAI
-    const client = getOpenAIClient();
-    const response = await client.embeddings.create({
-      model: "openai/text-embedding-3-small", // Use embedding model, not chat model
-      input: embeddingText,
-    });
-
-    const embedding = response.data[0].embedding;
+    // Generate embedding through the LLM gateway
+    const { embedding, model } = await embed(ctx, embeddingText);
 
     // Store the embedding
     await ctx.runMutation(internal.embeddings.updatePlaceEmbedding, {
       placeId: args.placeId,
       embedding,
-      model: "openai/text-embedding-3-small",
+      model,
     });
 
     return {
@@ -135,11 +113,12 @@ export const triggerBatchEmbeddings = action({
     limit: v.optional(v.number()),
   },
   handler: async (ctx, args): Promise<{ total: number; successful: number; failed: number; results: any[] }> => {
+    await requireRole(ctx, "curator");
+
     const limit = args.limit || 100;
 
-    // Get all places
-    const allPlaces: any = await ctx.runQuery(api.places.searchPlaces, {});
-    const places: any[] = allPlaces.places.filter((place: any) => !place.embedding).slice(0, limit);
+    // Get places still missing an embedding
+    const places: any[] = await ctx.runQuery(internal.embeddings.getPlacesWithoutEmbeddings, { limit });
 
     console.log(`Found ${places.length} places without embeddings`);
 
@@ -172,22 +151,19 @@ export const triggerBatchEmbeddings = action({
 
 /**
  * Generate query embedding for search
+ * Internal: it calls the paid embedding API, and public callers go through semanticSearch's rate limit
  */
-export const generateQueryEmbedding = action({
+export const generateQueryEmbedding = internalAction({
   args: {
     query: v.string(),
+    userKey: v.optional(v.string()), // Caller the spend is attributed to
   },
   handler: async (ctx, args) => {
-    const client = getOpenAIClient();
-
-    const response = await client.embeddings.create({
-      model: "openai/text-embedding-3-small",
-      input: args.query,
-    });
+    const { embedding, model } = await embed(ctx, args.query, { userKey: args.userKey });
 
     return {
-      embedding: response.data[0].embedding,
-      model: "openai/text-embedding-3-small",
+      embedding,
+      model,
     };
   },
 });
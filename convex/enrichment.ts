@@ -8,6 +8,9 @@
 import { action } from "./_generated/server";
 import { v } from "convex/values";
 import { api } from "./_generated/api";
+import { complete } from "./llm";
+import { requireRole } from "./users";
+import { describeTagsForPrompt, fetchTagTaxonomy, impliedTags, resolveTag } from "./tagTaxonomy";
 
 /**
  * Generate enrichment suggestions for a venue using AI
@@ -19,6 +22,8 @@ export const suggestEnrichment = action({
     includeReviews: v.optional(v.boolean()), // Fetch reviews from Google (costs more)
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, "curator");
+
     // Get place data
     const place: any = await ctx.runQuery(api.places.getPlace, { placeId: args.placeId });
     if (!place) {
@@ -46,13 +51,10 @@ export const suggestEnrichment = action({
       rating: googleData?.rating || place.rating,
       area: place.area,
     };
+    const taxonomy = await fetchTagTaxonomy(ctx);
+    const attributeTags = impliedTags(place, taxonomy);
 
-    // Call OpenRouter GPT-4o-mini for suggestions (faster and cheaper for this task)
-    const apiKey = process.env.OPENROUTER_API_KEY;
-    if (!apiKey) {
-      throw new Error("OPENROUTER_API_KEY not configured");
-    }
-
+    // Ask the enrichment model (see llm.ts) for suggestions
     try {
       const prompt = `You are a Dubai city guide expert helping enrich venue data with custom tags.
 
@@ -61,16 +63,13 @@ Venue Information:
 - Category: ${context.category}
 - Google Types: ${context.types.join(", ")}
 - Current Tags: ${context.currentTags.length > 0 ? context.currentTags.join(", ") : "None"}
+- Implied by Google attributes: ${attributeTags.length > 0 ? attributeTags.join(", ") : "None"}
 - Price Level: ${context.priceLevel}
 - Rating: ${context.rating}/5
 - Area: ${context.area}
 
 Available Custom Tags:
-- family-friendly, kid-friendly, pet-friendly
-- outdoor, indoor, waterfront, rooftop
-- quiet, romantic, lively, casual, upscale
-- good-for-groups, good-for-dates, good-for-meetings
-- late-night, breakfast-spot, brunch-spot
+${describeTagsForPrompt(taxonomy)}
 
 Your Task:
 1. Suggest 3-5 appropriate custom tags from the list above
@@ -92,39 +91,28 @@ Respond in JSON format:
   "reasoning": "Brief explanation of suggestions"
 }`;
 
-      const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${apiKey}`,
-          "HTTP-Referer": process.env.APP_URL || "http://localhost:3000",
-          "X-Title": "Where2 Dubai Enrichment",
-        },
-        body: JSON.stringify({
-          model: "openai/gpt-4o-mini", // Cheaper model for enrichment suggestions
-          messages: [
-            {
-              role: "system",
-              content: "You are an expert Dubai venue curator. Provide accurate, helpful enrichment suggestions in valid JSON format.",
-            },
-            {
-              role: "user",
-              content: prompt,
-            },
-          ],
-          response_format: { type: "json_object" },
-          temperature: 0.3, // Lower temperature for more consistent suggestions
-        }),
+      const completion = await complete(ctx, "enrichment", {
+        messages: [
+          {
+            role: "system",
+            content: "You are an expert Dubai venue curator. Provide accurate, helpful enrichment suggestions in valid JSON format.",
+          },
+          {
+            role: "user",
+            content: prompt,
+          },
+        ],
+        responseFormat: { type: "json_object" },
+        temperature: 0.3, // Lower temperature for more consistent suggestions
       });
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("OpenRouter API error:", response.status, errorText);
-        throw new Error(`OpenRouter API error: ${response.status}`);
-      }
+      const suggestions = JSON.parse(completion.content);
 
-      const data = await response.json();
-      const suggestions = JSON.parse(data.choices[0].message.content);
+      // Keep only tags the taxonomy knows, as slugs ("Kids" -> "kid-friendly")
+      const suggestedTags: string[] = Array.isArray(suggestions.suggestedTags) ? suggestions.suggestedTags : [];
+      suggestions.suggestedTags = Array.from(
+        new Set(suggestedTags.map((name) => resolveTag(taxonomy, String(name))).filter((slug): slug is string => slug !== null))
+      );
 
       return {
         success: true,
@@ -157,6 +145,8 @@ export const batchSuggestEnrichment = action({
     limit: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, "curator");
+
     const limit = args.limit || 10;
 
     // Get unenriched places
@@ -203,6 +193,8 @@ export const autoApplyHighConfidenceSuggestions = action({
     confidenceThreshold: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, "curator");
+
     const threshold = args.confidenceThreshold || 90;
     const updates: any = {};
 
@@ -262,6 +254,8 @@ export const batchEnrichAndApply = action({
     confidenceThreshold: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, "curator");
+
     const limit = args.limit || 10;
     const threshold = args.confidenceThreshold || 75;
 
@@ -347,6 +341,8 @@ export const suggestArea = action({
     longitude: v.number(),
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, "curator");
+
     // Dubai neighborhood boundaries (simplified)
     const areas = [
       { name: "Downtown Dubai", lat: 25.1972, lon: 55.2744, radius: 2 },
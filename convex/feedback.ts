@@ -8,6 +8,7 @@
 import { v } from "convex/values";
 import { query, mutation } from "./_generated/server";
 import { Id } from "./_generated/dataModel";
+import { getUserKey, requireRole, requireUserKey } from "./users";
 
 /**
  * Submit feedback for a venue
@@ -15,14 +16,15 @@ import { Id } from "./_generated/dataModel";
 export const submitFeedback = mutation({
   args: {
     placeId: v.id("places"),
-    userId: v.string(),
+    guestId: v.optional(v.string()), // Ignored once signed in
     feedbackType: v.string(), // "incorrect_tags", "wrong_info", "venue_closed", "missing_data", "other"
     description: v.string(),
   },
   handler: async (ctx, args) => {
+    const userId = await requireUserKey(ctx, args.guestId);
     const feedbackId = await ctx.db.insert("placeFeedback", {
       placeId: args.placeId,
-      userId: args.userId,
+      userId,
       feedbackType: args.feedbackType,
       description: args.description,
       status: "pending",
@@ -45,6 +47,8 @@ export const getFeedbackForPlace = query({
     placeId: v.id("places"),
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, "curator");
+
     const feedback = await ctx.db
       .query("placeFeedback")
       .withIndex("by_place", (q) => q.eq("placeId", args.placeId))
@@ -62,6 +66,8 @@ export const getPendingFeedback = query({
     limit: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, "curator");
+
     const limit = args.limit || 50;
 
     const feedback = await ctx.db
@@ -92,6 +98,8 @@ export const getPendingFeedback = query({
 export const getFeedbackStats = query({
   args: {},
   handler: async (ctx) => {
+    await requireRole(ctx, "curator");
+
     const allFeedback = await ctx.db.query("placeFeedback").collect();
 
     const stats = {
@@ -121,19 +129,20 @@ export const getFeedbackStats = query({
 });
 
 /**
- * Update feedback status (admin action)
+ * Update feedback status (curator action)
  */
 export const updateFeedbackStatus = mutation({
   args: {
     feedbackId: v.id("placeFeedback"),
     status: v.string(), // "pending", "reviewed", "resolved", "dismissed"
-    reviewedBy: v.optional(v.string()),
     reviewNotes: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    const actor = await requireRole(ctx, "curator");
+
     const { feedbackId, ...updates } = args;
 
-    await ctx.db.patch(feedbackId, updates as any);
+    await ctx.db.patch(feedbackId, { ...updates, reviewedBy: actor.label });
 
     return {
       success: true,
@@ -148,10 +157,11 @@ export const updateFeedbackStatus = mutation({
 export const resolveFeedbackForPlace = mutation({
   args: {
     placeId: v.id("places"),
-    reviewedBy: v.string(),
     reviewNotes: v.string(),
   },
   handler: async (ctx, args) => {
+    const actor = await requireRole(ctx, "curator");
+
     // Get all pending feedback for this place
     const feedback = await ctx.db
       .query("placeFeedback")
@@ -164,7 +174,7 @@ export const resolveFeedbackForPlace = mutation({
     for (const fb of pendingFeedback) {
       await ctx.db.patch(fb._id, {
         status: "resolved",
-        reviewedBy: args.reviewedBy,
+        reviewedBy: actor.label,
         reviewNotes: args.reviewNotes,
       });
     }
@@ -185,6 +195,8 @@ export const getTopFeedbackVenues = query({
     limit: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, "curator");
+
     const limit = args.limit || 10;
 
     const allFeedback = await ctx.db.query("placeFeedback").collect();
@@ -226,15 +238,16 @@ export const getTopFeedbackVenues = query({
 export const hasUserSubmittedFeedback = query({
   args: {
     placeId: v.id("places"),
-    userId: v.string(),
+    guestId: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    const userId = await getUserKey(ctx, args.guestId);
     const feedback = await ctx.db
       .query("placeFeedback")
       .withIndex("by_place", (q) => q.eq("placeId", args.placeId))
       .collect();
 
-    const userFeedback = feedback.filter((fb) => fb.userId === args.userId);
+    const userFeedback = feedback.filter((fb) => userId !== null && fb.userId === userId);
 
     return {
       hasSubmitted: userFeedback.length > 0,
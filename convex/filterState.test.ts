@@ -0,0 +1,121 @@
+import { describe, expect, test } from "vitest";
+import {
+  applyDeltas,
+  ConversationFilters,
+  diffFilters,
+  EMPTY_FILTERS,
+  FilterDelta,
+  recordFilterChange,
+  undoLastFilterChange,
+} from "./filterState";
+
+const filters = (overrides: Partial<ConversationFilters>): ConversationFilters => ({ ...EMPTY_FILTERS, ...overrides });
+
+describe("diffFilters", () => {
+  test("no change, no deltas", () => {
+    const current = filters({ tags: ["outdoor"], area: "Marina" });
+    expect(diffFilters(current, { ...current, tags: ["outdoor"] })).toEqual([]);
+  });
+
+  test("list items are added and removed one by one", () => {
+    expect(diffFilters(filters({ tags: ["outdoor", "quiet"] }), filters({ tags: ["quiet", "waterfront"] }))).toEqual([
+      { op: "remove", field: "tags", value: "outdoor" },
+      { op: "add", field: "tags", value: "waterfront" },
+    ]);
+  });
+
+  test("values are set with what they replace, and cleared", () => {
+    expect(
+      diffFilters(filters({ area: "Marina", priceLevel: "Mid" }), filters({ area: "JBR", partySize: 4 }))
+    ).toEqual([
+      { op: "clear", field: "priceLevel", previous: "Mid" },
+      { op: "set", field: "area", value: "JBR", previous: "Marina" },
+      { op: "set", field: "partySize", value: 4, previous: undefined },
+    ]);
+  });
+
+  test("openNow: false is no filter", () => {
+    expect(diffFilters(filters({ openNow: false }), filters({ openNow: true }))).toEqual([
+      { op: "set", field: "openNow", value: true, previous: undefined },
+    ]);
+    expect(diffFilters(filters({ openNow: true }), filters({ openNow: false }))).toEqual([
+      { op: "clear", field: "openNow", previous: true },
+    ]);
+  });
+
+  test("missing lists count as empty", () => {
+    expect(diffFilters(filters({}), filters({ dietary: ["halal"] }))).toEqual([
+      { op: "add", field: "dietary", value: "halal" },
+    ]);
+  });
+});
+
+describe("applyDeltas", () => {
+  test("applying a diff turns before into after", () => {
+    const before = filters({ tags: ["outdoor"], area: "Marina", openNow: true, minRating: 4 });
+    const after = filters({ tags: ["quiet"], cuisine: ["Indian"], priceLevel: "Low", openAt: "tonight at 9" });
+
+    expect(applyDeltas(before, diffFilters(before, after))).toEqual({ ...after, area: undefined, minRating: undefined });
+  });
+
+  test("adding an item twice keeps one", () => {
+    const delta: FilterDelta = { op: "add", field: "tags", value: "outdoor" };
+    expect(applyDeltas(filters({ tags: ["outdoor"] }), [delta]).tags).toEqual(["outdoor"]);
+  });
+
+  test("clearing openNow sets it back to false", () => {
+    expect(applyDeltas(filters({ openNow: true }), [{ op: "clear", field: "openNow" }]).openNow).toBe(false);
+  });
+
+  test("unknown fields and values of the wrong type are skipped", () => {
+    const current = filters({ area: "Marina" });
+    const next = applyDeltas(current, [
+      { op: "set", field: "mood", value: "happy" },
+      { op: "set", field: "partySize", value: "four" },
+      { op: "set", field: "nearMetro", value: 1 },
+      { op: "set", field: "area", value: 3 },
+    ]);
+
+    expect(next).toEqual(current);
+  });
+
+  test("does not modify the filters it was given", () => {
+    const current = filters({ tags: ["outdoor"] });
+    applyDeltas(current, [{ op: "add", field: "tags", value: "quiet" }, { op: "set", field: "area", value: "JBR" }]);
+
+    expect(current).toEqual(filters({ tags: ["outdoor"] }));
+  });
+});
+
+describe("undoLastFilterChange", () => {
+  test("nothing to undo", () => {
+    expect(undoLastFilterChange({ currentFilters: filters({}), filterHistory: [] })).toBeNull();
+    expect(undoLastFilterChange({})).toBeNull();
+  });
+
+  test("reverts the latest change and marks it undone", () => {
+    const first = filters({ tags: ["outdoor"], area: "Marina" });
+    const second = filters({ tags: ["outdoor", "quiet"], priceLevel: "Mid" });
+
+    const afterFirst = recordFilterChange({}, first, 1)!;
+    const afterSecond = recordFilterChange(afterFirst, second, 2)!;
+    const undone = undoLastFilterChange(afterSecond)!;
+
+    expect(undone.currentFilters).toEqual({ ...first, priceLevel: undefined });
+    expect(undone.filterHistory.map((turn) => turn.undone ?? false)).toEqual([false, true]);
+  });
+
+  test("undoing again steps further back", () => {
+    const first = filters({ area: "Marina" });
+    const second = filters({ area: "JBR" });
+
+    let conversation = recordFilterChange({}, first, 1)!;
+    conversation = recordFilterChange(conversation, second, 2)!;
+    conversation = undoLastFilterChange(conversation)!;
+    expect(conversation.currentFilters.area).toBe("Marina");
+
+    conversation = undoLastFilterChange(conversation)!;
+    expect(conversation.currentFilters.area).toBeUndefined();
+    expect(undoLastFilterChange(conversation)).toBeNull();
+  });
+});
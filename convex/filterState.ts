@@ -0,0 +1,200 @@
+/**
+ * Conversation Filter State
+ *
+ * A chat thread's filters evolve turn by turn. Instead of overwriting currentFilters with
+ * each search, every change is recorded as explicit deltas (add a tag, remove the area,
+ * relax the price) in the thread's filterHistory. That gives:
+ * - a per-turn timeline of how the search evolved, shown in the chat
+ * - undo of the last refinement, by applying its deltas inverted
+ *
+ * The chat agent searches with a complete filter set; diffFilters turns it into deltas
+ * against the thread's current filters, so a filter it leaves out is removed.
+ */
+
+import { Infer } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+import { conversationFiltersValidator, filterDeltaValidator } from "./schema";
+
+export type ConversationFilters = Infer<typeof conversationFiltersValidator>;
+export type FilterDelta = Infer<typeof filterDeltaValidator>;
+type FilterHistory = NonNullable<Doc<"conversations">["filterHistory"]>;
+
+export const EMPTY_FILTERS: ConversationFilters = {
+  tags: [],
+  cuisine: [],
+  openNow: false,
+};
+
+// Turns kept in a thread's filter history (undo reaches back this far)
+const MAX_FILTER_HISTORY = 30;
+
+const LIST_FIELDS = ["tags", "cuisine", "dietary"] as const;
+const VALUE_FIELDS = [
+  "category", "priceLevel", "area", "nearMetro", "minRating", "noise", "openNow", "openAt",
+  "openUntil", "partySize", "occasion", "budgetPerPerson", "seating",
+] as const;
+
+type ListField = (typeof LIST_FIELDS)[number];
+type FilterValue = NonNullable<FilterDelta["value"]>;
+
+function isListField(field: string): field is ListField {
+  return (LIST_FIELDS as readonly string[]).includes(field);
+}
+
+// openNow: false is the same as no filter
+function valueOf(filters: ConversationFilters, field: ValueField): FilterValue | undefined {
+  const value = filters[field];
+  return value === false && field === "openNow" ? undefined : value ?? undefined;
+}
+
+/**
+ * The deltas that turn `before` into `after`
+ */
+export function diffFilters(before: ConversationFilters, after: ConversationFilters): FilterDelta[] {
+  const deltas: FilterDelta[] = [];
+
+  for (const field of LIST_FIELDS) {
+    const from = before[field] ?? [];
+    const to = after[field] ?? [];
+    for (const item of from.filter((item) => !to.includes(item))) {
+      deltas.push({ op: "remove", field, value: item });
+    }
+    for (const item of to.filter((item) => !from.includes(item))) {
+      deltas.push({ op: "add", field, value: item });
+    }
+  }
+
+  for (const field of VALUE_FIELDS) {
+    const from = valueOf(before, field);
+    const to = valueOf(after, field);
+    if (from === to) {
+      continue;
+    }
+    deltas.push(to === undefined ? { op: "clear", field, previous: from } : { op: "set", field, value: to, previous: from });
+  }
+
+  return deltas;
+}
+
+type ValueField = (typeof VALUE_FIELDS)[number];
+
+function isValueField(field: string): field is ValueField {
+  return (VALUE_FIELDS as readonly string[]).includes(field);
+}
+
+// One field replaced; the signature ties the value's type to the field
+function withField<K extends keyof ConversationFilters>(
+  filters: ConversationFilters,
+  field: K,
+  value: ConversationFilters[K]
+): ConversationFilters {
+  return { ...filters, [field]: value };
+}
+
+// A set delta applied, if its value fits the field's type (deltas come from storage and clarification chips)
+function setValue(filters: ConversationFilters, field: ValueField, value: FilterValue | undefined): ConversationFilters {
+  switch (field) {
+    case "nearMetro":
+    case "openNow":
+      return typeof value === "boolean" ? withField(filters, field, value) : filters;
+    case "minRating":
+    case "partySize":
+    case "budgetPerPerson":
+      return typeof value === "number" ? withField(filters, field, value) : filters;
+    case "openAt":
+    case "openUntil":
+      return typeof value === "number" || typeof value === "string" ? withField(filters, field, value) : filters;
+    default:
+      return typeof value === "string" ? withField(filters, field, value) : filters;
+  }
+}
+
+/**
+ * Filters with the deltas applied, in order
+ * Deltas for fields the filters don't have, or with values of the wrong type, are skipped
+ */
+export function applyDeltas(filters: ConversationFilters, deltas: FilterDelta[]): ConversationFilters {
+  let next = filters;
+
+  for (const delta of deltas) {
+    if (isListField(delta.field)) {
+      const items = next[delta.field] ?? [];
+      const item = String(delta.value);
+      next = withField(
+        next,
+        delta.field,
+        delta.op === "add"
+          ? items.includes(item) ? items : [...items, item]
+          : items.filter((existing) => existing !== item)
+      );
+    } else if (!isValueField(delta.field)) {
+      continue;
+    } else if (delta.op === "set") {
+      next = setValue(next, delta.field, delta.value);
+    } else if (delta.op === "clear") {
+      next = delta.field === "openNow" ? withField(next, "openNow", false) : withField(next, delta.field, undefined);
+    }
+  }
+
+  return next;
+}
+
+function invertDelta(delta: FilterDelta): FilterDelta {
+  switch (delta.op) {
+    case "add":
+      return { op: "remove", field: delta.field, value: delta.value };
+    case "remove":
+      return { op: "add", field: delta.field, value: delta.value };
+    case "set":
+      return delta.previous === undefined
+        ? { op: "clear", field: delta.field, previous: delta.value }
+        : { op: "set", field: delta.field, value: delta.previous, previous: delta.value };
+    case "clear":
+      return { op: "set", field: delta.field, value: delta.previous };
+  }
+}
+
+// ============================================================================
+// Thread history
+// ============================================================================
+
+/**
+ * Move a thread to new filters, recording the change as a turn in its history.
+ * Returns the fields to patch (nothing if the filters didn't change).
+ */
+export function recordFilterChange(
+  conversation: Pick<Doc<"conversations">, "currentFilters" | "filterHistory">,
+  filters: ConversationFilters,
+  messageTimestamp: number
+): { currentFilters: ConversationFilters; filterHistory: FilterHistory } | null {
+  const deltas = diffFilters(conversation.currentFilters ?? EMPTY_FILTERS, filters);
+  if (deltas.length === 0) {
+    return null;
+  }
+  return {
+    currentFilters: filters,
+    filterHistory: [...(conversation.filterHistory ?? []), { deltas, messageTimestamp }].slice(-MAX_FILTER_HISTORY),
+  };
+}
+
+/**
+ * Revert the latest turn that hasn't been undone; null when there's nothing to undo
+ */
+export function undoLastFilterChange(
+  conversation: Pick<Doc<"conversations">, "currentFilters" | "filterHistory">
+): { currentFilters: ConversationFilters; filterHistory: FilterHistory } | null {
+  const history = conversation.filterHistory ?? [];
+  let index = history.length - 1;
+  while (index >= 0 && history[index].undone) {
+    index--;
+  }
+  if (index < 0) {
+    return null;
+  }
+
+  const inverse = history[index].deltas.map(invertDelta).reverse();
+  return {
+    currentFilters: applyDeltas(conversation.currentFilters ?? EMPTY_FILTERS, inverse),
+    filterHistory: history.map((entry, i) => (i === index ? { ...entry, undone: true } : entry)),
+  };
+}
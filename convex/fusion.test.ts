@@ -0,0 +1,92 @@
+import { describe, expect, test } from "vitest";
+import { fuseRankings, RankedSource } from "./fusion";
+
+interface Item {
+  id: string;
+  score: number;
+  note?: string;
+}
+
+const source = (name: string, items: Item[], weight?: number): RankedSource<Item> => ({
+  name,
+  items,
+  score: (item) => item.score,
+  weight,
+});
+
+const ids = (items: Item[]) => items.map((item) => item.id);
+
+describe("fuseRankings", () => {
+  test("rrf adds weight / (60 + rank) from every source an item is in", () => {
+    const fused = fuseRankings(
+      [
+        source("a", [{ id: "x", score: 9 }, { id: "y", score: 1 }]),
+        source("b", [{ id: "y", score: 5 }]),
+      ],
+      (item) => item.id,
+      "rrf"
+    );
+
+    expect(ids(fused)).toEqual(["y", "x"]);
+    expect(fused[0].finalScore).toBeCloseTo(1 / 62 + 1 / 61);
+    expect(fused[1].finalScore).toBeCloseTo(1 / 61);
+  });
+
+  test("rrf ignores score scales", () => {
+    const small = fuseRankings([source("a", [{ id: "x", score: 0.02 }, { id: "y", score: 0.01 }])], (item) => item.id);
+    const large = fuseRankings([source("a", [{ id: "x", score: 900 }, { id: "y", score: 1 }])], (item) => item.id);
+
+    expect(small.map((item) => item.finalScore)).toEqual(large.map((item) => item.finalScore));
+  });
+
+  test("normalized scales each source to 0..1 by its own min and max", () => {
+    const fused = fuseRankings(
+      [
+        source("a", [{ id: "x", score: 10 }, { id: "y", score: 6 }, { id: "z", score: 0 }]),
+        source("b", [{ id: "z", score: 3 }, { id: "y", score: 2 }], 0.5),
+      ],
+      (item) => item.id,
+      "normalized"
+    );
+
+    expect(ids(fused)).toEqual(["x", "y", "z"]);
+    expect(fused.map((item) => item.finalScore)).toEqual([1, 0.6, 0.5]);
+  });
+
+  test("a source whose items all scored the same gives each full weight", () => {
+    const fused = fuseRankings([source("a", [{ id: "x", score: 2 }, { id: "y", score: 2 }])], (item) => item.id, "normalized");
+
+    expect(fused.map((item) => item.finalScore)).toEqual([1, 1]);
+  });
+
+  test("records the rank in every source, null where absent", () => {
+    const fused = fuseRankings(
+      [source("a", [{ id: "x", score: 1 }]), source("b", [{ id: "y", score: 1 }, { id: "x", score: 0 }])],
+      (item) => item.id
+    );
+
+    expect(fused.find((item) => item.id === "x")!.sourceRanks).toEqual({ a: 1, b: 2 });
+    expect(fused.find((item) => item.id === "y")!.sourceRanks).toEqual({ a: null, b: 1 });
+  });
+
+  test("the first source's fields win; later ones fill in what's missing", () => {
+    const fused = fuseRankings(
+      [source("a", [{ id: "x", score: 1 }]), source("b", [{ id: "x", score: 7, note: "from b" }])],
+      (item) => item.id
+    );
+
+    expect(fused[0]).toMatchObject({ id: "x", score: 1, note: "from b" });
+  });
+
+  test("a venue listed twice by one source keeps its best rank", () => {
+    const fused = fuseRankings([source("a", [{ id: "x", score: 2 }, { id: "x", score: 1 }])], (item) => item.id);
+
+    expect(fused).toHaveLength(1);
+    expect(fused[0].sourceRanks).toEqual({ a: 1 });
+  });
+
+  test("no sources, no items", () => {
+    expect(fuseRankings([], (item: Item) => item.id)).toEqual([]);
+    expect(fuseRankings([source("a", [])], (item) => item.id, "normalized")).toEqual([]);
+  });
+});
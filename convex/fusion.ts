@@ -0,0 +1,80 @@
+/**
+ * Result Fusion
+ *
+ * Merges ranked lists from several retrievers (filter search, semantic search, ...) into one
+ * ranking. Two modes, selectable per request:
+ * - "rrf": reciprocal rank fusion - each source adds weight / (k + rank). Only ranks matter,
+ *   so sources with unrelated score scales (filter points vs cosine similarity) combine cleanly.
+ * - "normalized": each source's scores are min-max normalized to 0..1, then summed by weight.
+ *
+ * A venue missing from a source simply gets nothing from it. Every fused item carries
+ * sourceRanks so the UI/debug tools can see which retrievers surfaced it and where.
+ */
+
+import { v, Infer } from "convex/values";
+
+export const fusionModeValidator = v.union(v.literal("rrf"), v.literal("normalized"));
+export type FusionMode = Infer<typeof fusionModeValidator>;
+
+export const DEFAULT_FUSION_MODE: FusionMode = "rrf";
+
+// Standard RRF damping constant - keeps the #1 spot from drowning out everything else
+const RRF_K = 60;
+
+export interface RankedSource<T> {
+  name: string; // e.g. "semantic", "filter"
+  items: T[]; // best first
+  score: (item: T) => number; // raw score, used by "normalized"
+  weight?: number; // defaults to 1
+}
+
+export type FusedItem<T> = T & {
+  finalScore: number;
+  sourceRanks: Record<string, number | null>; // 1-based rank per source, null if absent
+};
+
+/**
+ * Fuse ranked sources into one list, best first
+ * Items are matched by key; when a venue appears in several sources, the first source's
+ * fields win and later sources only fill in fields it lacks (e.g. filter "reasons")
+ */
+export function fuseRankings<T extends object>(
+  sources: RankedSource<T>[],
+  key: (item: T) => string,
+  mode: FusionMode = DEFAULT_FUSION_MODE
+): FusedItem<T>[] {
+  const merged = new Map<string, { item: T; finalScore: number; sourceRanks: Record<string, number | null> }>();
+  const emptyRanks = () => Object.fromEntries(sources.map((source) => [source.name, null]));
+
+  for (const source of sources) {
+    const weight = source.weight ?? 1;
+    const scores = source.items.map(source.score);
+    const min = Math.min(...scores);
+    const max = Math.max(...scores);
+
+    source.items.forEach((item, index) => {
+      const rank = index + 1;
+      const contribution =
+        mode === "rrf"
+          ? weight / (RRF_K + rank)
+          : weight * (max > min ? (scores[index] - min) / (max - min) : 1);
+
+      const id = key(item);
+      const entry = merged.get(id);
+      if (entry) {
+        entry.item = { ...item, ...entry.item };
+        entry.finalScore += contribution;
+        // Keep the best rank if a source lists the same venue twice
+        entry.sourceRanks[source.name] ??= rank;
+      } else {
+        const sourceRanks: Record<string, number | null> = emptyRanks();
+        sourceRanks[source.name] = rank;
+        merged.set(id, { item, finalScore: contribution, sourceRanks });
+      }
+    });
+  }
+
+  return Array.from(merged.values())
+    .map(({ item, finalScore, sourceRanks }) => ({ ...item, finalScore, sourceRanks }))
+    .sort((a, b) => b.finalScore - a.finalScore);
+}
@@ -10,10 +10,53 @@
 import { action, internalAction } from "./_generated/server";
 import { v } from "convex/values";
 import { api, internal } from "./_generated/api";
+import { requireRole } from "./users";
+import { NEARBY_SEARCH_FIXTURE, PLACE_DETAILS_FIXTURES, textSearchFixture } from "./googlePlacesFixtures";
 
 // Google Places API (New) base URL
 const GOOGLE_PLACES_API_BASE = "https://places.googleapis.com/v1";
 
+// GOOGLE_PLACES_BACKEND: "live" (default) or "fixtures" - recorded responses, no network or key
+const useFixtures = () => process.env.GOOGLE_PLACES_BACKEND === "fixtures";
+
+/**
+ * Resolve the API key (fixture mode doesn't need one)
+ */
+function getGoogleApiKey(): string {
+  if (useFixtures()) return "fixtures";
+
+  const apiKey = process.env.GOOGLE_PLACES_API_KEY;
+  if (!apiKey) {
+    throw new Error("GOOGLE_PLACES_API_KEY environment variable not set");
+  }
+  return apiKey;
+}
+
+/**
+ * fetch() against the Places API, or the matching fixture in fixture mode
+ */
+async function googleFetch(path: string, init: RequestInit): Promise<Response> {
+  if (!useFixtures()) {
+    return fetch(`${GOOGLE_PLACES_API_BASE}${path}`, init);
+  }
+
+  const json = (body: any, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+  if (path === "/places:searchNearby") {
+    return json(NEARBY_SEARCH_FIXTURE);
+  }
+  if (path === "/places:searchText") {
+    return json(textSearchFixture(JSON.parse(String(init.body)).textQuery ?? ""));
+  }
+
+  // Unknown ids 404 like the live API
+  const details = PLACE_DETAILS_FIXTURES[path.replace(/^\/places\//, "")];
+  return details
+    ? json(details)
+    : json({ error: { code: 404, message: "Place not found", status: "NOT_FOUND" } }, 404);
+}
+
 // Cuisine mapping from Google Place types to our cuisine categories
 const CUISINE_TYPE_MAP: Record<string, string> = {
   italian_restaurant: "Italian",
@@ -100,6 +143,39 @@ function mapPriceLevel(googlePriceLevel: string | null): string {
   return PRICE_LEVEL_MAP[googlePriceLevel] || "Mid";
 }
 
+/**
+ * Map Google's regularOpeningHours.periods into our normalized weekly periods
+ * Google days are 0 = Sunday like ours; a period without a close is open 24 hours
+ */
+function mapGooglePeriods(regularOpeningHours: any): Array<{ day: number; open: number; close: number }> {
+  const periods: Array<{ day: number; open: number; close: number }> = [];
+
+  for (const period of regularOpeningHours?.periods || []) {
+    if (!period.open) continue;
+
+    const day = period.open.day;
+    const open = (period.open.hour || 0) * 60 + (period.open.minute || 0);
+
+    // Always open: Google sends a single period opening Sunday 00:00 with no close
+    if (!period.close) {
+      for (let d = 0; d < 7; d++) {
+        periods.push({ day: d, open: 0, close: 24 * 60 });
+      }
+      break;
+    }
+
+    // Closing on a later day means the period runs past midnight
+    const daysLater = (period.close.day - day + 7) % 7;
+    const close = daysLater * 24 * 60 + (period.close.hour || 0) * 60 + (period.close.minute || 0);
+
+    if (close > open) {
+      periods.push({ day, open, close: Math.min(close, 48 * 60) });
+    }
+  }
+
+  return periods;
+}
+
 /**
  * Discover venues in Dubai using Nearby Search API
  * Returns place_ids that can be stored permanently (ToS compliant)
@@ -112,15 +188,14 @@ export const discoverVenues = action({
     maxResults: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
-    const apiKey = process.env.GOOGLE_PLACES_API_KEY;
-    if (!apiKey) {
-      throw new Error("GOOGLE_PLACES_API_KEY environment variable not set");
-    }
+    await requireRole(ctx, "curator");
+
+    const apiKey = getGoogleApiKey();
 
     const maxResults = args.maxResults || 20;
 
     try {
-      const response = await fetch(`${GOOGLE_PLACES_API_BASE}/places:searchNearby`, {
+      const response = await googleFetch("/places:searchNearby", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -193,16 +268,15 @@ export const fetchPlaceDetails = action({
     googlePlaceId: v.string(),
   },
   handler: async (ctx, args) => {
-    const apiKey = process.env.GOOGLE_PLACES_API_KEY;
-    if (!apiKey) {
-      throw new Error("GOOGLE_PLACES_API_KEY environment variable not set");
-    }
+    await requireRole(ctx, "curator");
+
+    const apiKey = getGoogleApiKey();
 
     try {
       // Use Place Details API to fetch fresh data
       // Enterprise + Atmosphere tier fields for full data
-      const response = await fetch(
-        `${GOOGLE_PLACES_API_BASE}/places/${args.googlePlaceId}`,
+      const response = await googleFetch(
+        `/places/${args.googlePlaceId}`,
         {
           headers: {
             "X-Goog-Api-Key": apiKey,
@@ -358,10 +432,9 @@ export const getPhotoUrl = action({
     maxHeight: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
-    const apiKey = process.env.GOOGLE_PLACES_API_KEY;
-    if (!apiKey) {
-      throw new Error("GOOGLE_PLACES_API_KEY environment variable not set");
-    }
+    await requireRole(ctx, "curator");
+
+    const apiKey = getGoogleApiKey();
 
     const maxWidth = args.maxWidth || 800;
     const maxHeight = args.maxHeight || 600;
@@ -384,6 +457,8 @@ export const checkIsOpenNow = action({
     googlePlaceId: v.string(),
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, "curator");
+
     // Fetch place details (this will be cached)
     const result: any = await ctx.runAction(api.googlePlaces.fetchPlaceDetails, {
       googlePlaceId: args.googlePlaceId,
@@ -425,6 +500,8 @@ export const createVenuePlaceholders = action({
     ),
   },
   handler: async (ctx, args): Promise<{ success: boolean; created: number }> => {
+    await requireRole(ctx, "curator");
+
     const created = [];
 
     for (const venue of args.venues) {
@@ -463,6 +540,8 @@ export const refreshPlaceId = action({
     placeId: v.id("places"),
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, "curator");
+
     // Get current venue data
     const place: any = await ctx.runQuery(api.places.getPlace, { placeId: args.placeId });
     if (!place) {
@@ -470,14 +549,11 @@ export const refreshPlaceId = action({
     }
 
     // Search for venue by name and location
-    const apiKey = process.env.GOOGLE_PLACES_API_KEY;
-    if (!apiKey) {
-      throw new Error("GOOGLE_PLACES_API_KEY environment variable not set");
-    }
+    const apiKey = getGoogleApiKey();
 
     try {
       // Use Text Search to find venue by name
-      const response = await fetch(`${GOOGLE_PLACES_API_BASE}/places:searchText`, {
+      const response = await googleFetch("/places:searchText", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -549,10 +625,9 @@ export const fetchPhotoUrls = action({
     maxHeight: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
-    const apiKey = process.env.GOOGLE_PLACES_API_KEY;
-    if (!apiKey) {
-      throw new Error("GOOGLE_PLACES_API_KEY environment variable not set");
-    }
+    await requireRole(ctx, "curator");
+
+    const apiKey = getGoogleApiKey();
 
     const maxWidth = args.maxWidth || 800;
     const maxHeight = args.maxHeight || 600;
@@ -583,6 +658,8 @@ export const syncVenueGoogleData = action({
     maxPhotos: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, "curator");
+
     const fetchPhotos = args.fetchPhotos ?? true;
     const maxPhotos = args.maxPhotos ?? 3;
 
@@ -663,11 +740,21 @@ export const syncVenueGoogleData = action({
       lastGoogleSync: Date.now(),
     });
 
+    // Map Google's weekly hours into the normalized hours table
+    const hoursPeriods = mapGooglePeriods(details.regularOpeningHours);
+    if (hoursPeriods.length > 0) {
+      await ctx.runMutation(internal.openingHours.syncGoogleHours, {
+        placeId: args.placeId,
+        periods: hoursPeriods,
+      });
+    }
+
     return {
       success: true,
       placeId: args.placeId,
       name: place.name,
       cuisines: details.cuisines,
+      hoursPeriods: hoursPeriods.length,
       photosAdded: photoUrls.length,
       hasSummary: !!details.generativeSummary,
     };
@@ -686,6 +773,8 @@ export const syncFullGoogleData = action({
     skipAlreadySynced: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, "curator");
+
     const limit = args.limit || 20;
     const fetchPhotos = args.fetchPhotos ?? true;
     const maxPhotos = args.maxPhotosPerVenue ?? 3;
@@ -0,0 +1,112 @@
+/**
+ * Google Places Fixtures
+ *
+ * Recorded-shape responses for the Places API (New), served instead of live calls when
+ * GOOGLE_PLACES_BACKEND=fixtures. Together with LLM_BACKEND=fake and WEATHER_PROVIDER=stub
+ * this runs discovery, sync and search end to end without network access or API keys.
+ *
+ * Payloads mirror the field masks requested in googlePlaces.ts; trim or extend them
+ * alongside any field-mask change.
+ */
+
+// Place details keyed by Google place id; unknown ids get a 404 like the live API
+export const PLACE_DETAILS_FIXTURES: Record<string, any> = {
+  "ChIJfixture-surf-cafe": {
+    name: "places/ChIJfixture-surf-cafe",
+    id: "ChIJfixture-surf-cafe",
+    displayName: { text: "The Surf Cafe", languageCode: "en" },
+    formattedAddress: "Al Sufouh Rd, Umm Suqeim 3, Dubai",
+    location: { latitude: 25.1412, longitude: 55.1853 },
+    types: ["cafe", "breakfast_restaurant", "coffee_shop", "restaurant", "food"],
+    primaryType: "cafe",
+    rating: 4.5,
+    userRatingCount: 2140,
+    priceLevel: "PRICE_LEVEL_MODERATE",
+    regularOpeningHours: {
+      periods: [0, 1, 2, 3, 4, 5, 6].map((day) => ({
+        open: { day, hour: 7, minute: 0 },
+        close: { day, hour: 23, minute: 0 },
+      })),
+      weekdayDescriptions: [
+        "Monday: 7:00 AM – 11:00 PM",
+        "Tuesday: 7:00 AM – 11:00 PM",
+        "Wednesday: 7:00 AM – 11:00 PM",
+        "Thursday: 7:00 AM – 11:00 PM",
+        "Friday: 7:00 AM – 11:00 PM",
+        "Saturday: 7:00 AM – 11:00 PM",
+        "Sunday: 7:00 AM – 11:00 PM",
+      ],
+    },
+    internationalPhoneNumber: "+971 4 000 0001",
+    websiteUri: "https://example.com/surf-cafe",
+    photos: [
+      { name: "places/ChIJfixture-surf-cafe/photos/fixture-1", widthPx: 1600, heightPx: 1200 },
+      { name: "places/ChIJfixture-surf-cafe/photos/fixture-2", widthPx: 1600, heightPx: 1200 },
+    ],
+    outdoorSeating: true,
+    goodForGroups: true,
+    goodForChildren: true,
+    reservable: false,
+    dineIn: true,
+    takeout: true,
+    delivery: true,
+    servesBreakfast: true,
+    servesBrunch: true,
+    servesLunch: true,
+    servesDinner: true,
+    servesCoffee: true,
+    servesVegetarianFood: true,
+    generativeSummary: { overview: { text: "Laid-back beach cafe known for all-day breakfast and smoothie bowls." } },
+  },
+  "ChIJfixture-late-grill": {
+    name: "places/ChIJfixture-late-grill",
+    id: "ChIJfixture-late-grill",
+    displayName: { text: "Late Night Grill", languageCode: "en" },
+    formattedAddress: "Al Rigga St, Deira, Dubai",
+    location: { latitude: 25.2637, longitude: 55.3245 },
+    types: ["barbecue_restaurant", "middle_eastern_restaurant", "restaurant", "food"],
+    primaryType: "barbecue_restaurant",
+    rating: 4.2,
+    userRatingCount: 860,
+    priceLevel: "PRICE_LEVEL_INEXPENSIVE",
+    // Overnight hours: every day 6 PM until 3 AM the next day
+    regularOpeningHours: {
+      periods: [0, 1, 2, 3, 4, 5, 6].map((day) => ({
+        open: { day, hour: 18, minute: 0 },
+        close: { day: (day + 1) % 7, hour: 3, minute: 0 },
+      })),
+    },
+    internationalPhoneNumber: "+971 4 000 0002",
+    photos: [{ name: "places/ChIJfixture-late-grill/photos/fixture-1", widthPx: 1200, heightPx: 900 }],
+    outdoorSeating: false,
+    goodForGroups: true,
+    goodForChildren: true,
+    dineIn: true,
+    takeout: true,
+    delivery: true,
+    servesDinner: true,
+  },
+};
+
+// Nearby Search: ids, names, locations and types only (matches the discovery field mask)
+export const NEARBY_SEARCH_FIXTURE = {
+  places: Object.values(PLACE_DETAILS_FIXTURES).map((place) => ({
+    id: place.id,
+    displayName: place.displayName,
+    location: place.location,
+    types: place.types,
+  })),
+};
+
+/**
+ * Text Search: first fixture whose name shares a word with the query, like a top hit
+ */
+export function textSearchFixture(textQuery: string) {
+  const words = textQuery.toLowerCase().split(/\s+/).filter(Boolean);
+  const match = Object.values(PLACE_DETAILS_FIXTURES).find((place) =>
+    words.some((word) => place.displayName.text.toLowerCase().includes(word))
+  );
+  return {
+    places: match ? [{ id: match.id, displayName: match.displayName, location: match.location }] : [],
+  };
+}
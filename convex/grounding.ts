@@ -0,0 +1,249 @@
+/**
+ * Chat Grounding
+ *
+ * Keeps chat replies to venues that are in our database:
+ * - the user's current results go to the model as structured context (loadResultsContext),
+ *   not just a count, so it can talk about them without guessing
+ * - every reply is checked before it's saved (groundReply): a cited venue ([[id]]) must exist
+ *   and be named in its sentence, otherwise the sentence is removed; other venue-like names
+ *   are looked up by name and flagged when we don't have them
+ *
+ * Replies carry grounded: false whenever something was removed or flagged.
+ * A streaming reply is shown raw while it streams; the grounded text replaces it when done.
+ */
+
+import { v } from "convex/values";
+import { ActionCtx, internalQuery } from "./_generated/server";
+import { api, internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { OpenStatus } from "./openingHours";
+import { placesInArea } from "./places";
+
+// Current results handed to the model
+const MAX_CONTEXT_RESULTS = 10;
+
+// [[<venue id>]] right after a venue's name
+const CITATION_PATTERN = /\[\[([^\]\s]+)\]\]/g;
+
+// Runs of capitalized words ("Arabian Tea House", "Zuma & Co") - how venue names usually appear
+const NAME_CANDIDATE_PATTERN = /[A-Z][\w'\u2019]*(?:\s+(?:&|and|of|the|de|la|al|[A-Z][\w'\u2019]*))*\s+[A-Z][\w'\u2019]*/g;
+
+// Capitalized words that start sentences or name things other than venues
+const NON_NAME_WORDS = new Set([
+  "a", "an", "the", "i", "you", "we", "if", "try", "visit", "check", "head", "for", "or", "and", "both",
+  "here", "there", "it", "its", "this", "that", "these", "those", "my", "your", "also", "then", "plus",
+  "monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday", "ramadan", "eid",
+  "dubai", "uae", "metro", "aed",
+  "arabic", "emirati", "lebanese", "middle", "eastern", "indian", "italian", "japanese", "asian", "french",
+  "mediterranean", "seafood", "restaurant", "cafe", "brunch", "breakfast", "lunch", "dinner",
+]);
+
+// Well-known places that aren't venues we list (areas in the database are checked separately)
+const LANDMARKS = ["Burj Khalifa", "Burj Al Arab", "Dubai Mall", "Mall of the Emirates", "Dubai Creek", "Dubai Frame", "Museum of the Future", "La Mer"];
+
+export type KnownVenues = Map<string, string>; // Venue id -> name
+
+export interface GroundedReply {
+  content: string; // Citation markers removed
+  placeIds: Id<"places">[]; // Grounded venues, in order of first mention
+  grounded: boolean;
+  flaggedNames: string[]; // Venue-like names we couldn't find
+}
+
+// What describeVenue reads: a stored venue, plus open status and distance when a search added them
+type VenueFacts = Pick<
+  Doc<"places">,
+  "_id" | "name" | "category" | "area" | "rating" | "priceLevel" | "tags" | "cuisine" | "nearMetro" | "metroStation"
+> & { openStatus?: OpenStatus; isOpen?: boolean | null; distance?: number };
+
+/**
+ * Compact venue shape for the model, recording it as known
+ */
+export function describeVenue(place: VenueFacts, known: KnownVenues) {
+  known.set(place._id, place.name);
+  return {
+    id: place._id,
+    name: place.name,
+    category: place.category,
+    area: place.area,
+    rating: place.rating,
+    priceLevel: place.priceLevel,
+    tags: place.tags,
+    cuisine: place.cuisine,
+    open: place.openStatus?.label ?? (place.isOpen === null ? "hours unknown" : place.isOpen ? "open" : "closed"),
+    distanceKm: place.distance ? Number(place.distance.toFixed(1)) : undefined,
+    metroStation: place.nearMetro ? place.metroStation : undefined,
+  };
+}
+
+/**
+ * The user's current results (best first) as JSON for the system prompt
+ */
+export async function loadResultsContext(
+  ctx: ActionCtx,
+  placeIds: Id<"places">[],
+  known: KnownVenues
+): Promise<string | null> {
+  const venues = [];
+  for (const placeId of placeIds.slice(0, MAX_CONTEXT_RESULTS)) {
+    const place = await ctx.runQuery(api.places.getPlace, { placeId });
+    if (place) {
+      venues.push(describeVenue(place, known));
+    }
+  }
+  return venues.length > 0 ? JSON.stringify(venues) : null;
+}
+
+/**
+ * Validate a reply's venues against the database (see module comment)
+ */
+export async function groundReply(ctx: ActionCtx, content: string, known: KnownVenues): Promise<GroundedReply> {
+  const sentences = content.match(/[^.!?\n]+[.!?]*\s*/g) ?? [];
+  const citedIds = Array.from(content.matchAll(CITATION_PATTERN), (match) => match[1]);
+  const candidates = nameCandidates(content, known);
+
+  const lookup = await ctx.runQuery(internal.grounding.lookupVenues, {
+    ids: citedIds.filter((id) => !known.has(id)),
+    names: candidates,
+  });
+  const venueNames = new Map(Array.from(known.entries()).concat(Object.entries(lookup.ids)));
+
+  const placeIds: Id<"places">[] = [];
+  const addPlace = (id: string) => {
+    if (!placeIds.includes(id as Id<"places">)) {
+      placeIds.push(id as Id<"places">);
+    }
+  };
+
+  // A sentence citing a venue we don't have, or under the wrong name, is dropped whole
+  let removed = 0;
+  const kept = sentences.filter((sentence) => {
+    const ids = Array.from(sentence.matchAll(CITATION_PATTERN), (match) => match[1]);
+    const valid = ids.every((id) => {
+      const name = venueNames.get(id);
+      return name !== undefined && mentionsName(sentence, name);
+    });
+    if (!valid) {
+      removed++;
+      return false;
+    }
+    ids.forEach(addPlace);
+    return true;
+  });
+
+  // Other names: real venues become cards too; unknown ones are flagged but left in place
+  const flaggedNames: string[] = [];
+  for (const name of candidates) {
+    const match = lookup.names[name];
+    if (match === null) {
+      flaggedNames.push(name);
+    } else if (match !== "area" && kept.some((sentence) => sentence.includes(name))) {
+      addPlace(match.id);
+    }
+  }
+
+  const text = stripCitations(kept.join(""));
+  return {
+    content: text || "I couldn't confirm those venues in our listings. Want me to search for something similar?",
+    placeIds,
+    grounded: removed === 0 && flaggedNames.length === 0,
+    flaggedNames,
+  };
+}
+
+/**
+ * Remove citation markers without resolving them (e.g. from a reply cut off by an error)
+ */
+export function stripCitations(content: string): string {
+  // Close the gaps removed markers leave before punctuation
+  return content
+    .replace(CITATION_PATTERN, "")
+    .replace(/ +([.,!?;:])/g, "$1")
+    .replace(/ {2,}/g, " ")
+    .trim();
+}
+
+// ============================================================================
+// Name matching
+// ============================================================================
+
+function nameTokens(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9\u00C0-\u024F\u0600-\u06FF]+/)
+    .filter((token) => token && token !== "the");
+}
+
+// Every word of the venue's name appears in the text ("The Surf Cafe" in "...at Surf Cafe [[id]]")
+function mentionsName(text: string, name: string): boolean {
+  const words = new Set(nameTokens(text));
+  return nameTokens(name).every((token) => words.has(token));
+}
+
+// Either name is contained in the other, word for word
+function sameVenueName(a: string, b: string): boolean {
+  return mentionsName(a, b) || mentionsName(b, a);
+}
+
+function nameCandidates(content: string, known: KnownVenues): string[] {
+  // Cited names are candidates too; they resolve to the venue they cite
+  const text = content.replace(CITATION_PATTERN, " ");
+  const candidates = new Set<string>();
+
+  for (const [span] of Array.from(text.matchAll(NAME_CANDIDATE_PATTERN))) {
+    // Drop leading sentence words ("Try Zuma Lounge" -> "Zuma Lounge")
+    const words = span.split(/\s+/);
+    while (words.length > 0 && NON_NAME_WORDS.has(words[0].toLowerCase())) {
+      words.shift();
+    }
+    const name = words.join(" ");
+    if (
+      words.length === 0 ||
+      words.every((word) => NON_NAME_WORDS.has(word.toLowerCase())) ||
+      LANDMARKS.some((landmark) => sameVenueName(landmark, name)) ||
+      Array.from(known.values()).some((venue) => sameVenueName(venue, name))
+    ) {
+      continue;
+    }
+    candidates.add(name);
+  }
+  return Array.from(candidates);
+}
+
+/**
+ * Resolve cited ids and look names up: a venue, an area (not a venue), or null when unknown
+ */
+export const lookupVenues = internalQuery({
+  args: {
+    ids: v.array(v.string()),
+    names: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const ids: Record<string, string> = {};
+    for (const id of args.ids) {
+      const placeId = ctx.db.normalizeId("places", id);
+      const place = placeId ? await ctx.db.get(placeId) : null;
+      if (place) {
+        ids[id] = place.name;
+      }
+    }
+
+    const names: Record<string, { id: Id<"places">; name: string } | "area" | null> = {};
+    for (const name of args.names) {
+      const area = await placesInArea(ctx, name).first();
+      if (area) {
+        names[name] = "area";
+        continue;
+      }
+
+      const hits = await ctx.db
+        .query("places")
+        .withSearchIndex("search_text", (q) => q.search("searchText", name))
+        .take(5);
+      const match = hits.find((place) => sameVenueName(place.name, name));
+      names[name] = match ? { id: match._id, name: match.name } : null;
+    }
+
+    return { ids, names };
+  },
+});
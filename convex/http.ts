@@ -0,0 +1,9 @@
+import { httpRouter } from "convex/server";
+import { auth } from "./auth";
+
+const http = httpRouter();
+
+// Convex Auth endpoints (token exchange, JWKS)
+auth.addHttpRoutes(http);
+
+export default http;
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, expect, test, vi } from "vitest";
+import { FunctionReference } from "convex/server";
+import { api, internal } from "./_generated/api";
+import { ActionCtx } from "./_generated/server";
+import { dubaiTime, setupSeededTest } from "./test.setup";
+
+// convex-test 0.0.41 tracks the running component on one shared stack, so component calls
+// from stages running side by side resolve against the wrong component. Rate limits and
+// caching are left out here: the stages call straight through.
+vi.mock("./rateLimits", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./rateLimits")>()),
+  checkAIRateLimit: async (_ctx: unknown, _action: string, guestId?: string) => ({ userKey: guestId ?? null, limited: null }),
+}));
+vi.mock("@convex-dev/action-cache", () => ({
+  ActionCache: class {
+    constructor(
+      _component: unknown,
+      private options: { action: FunctionReference<"action", "internal"> }
+    ) {}
+    fetch(ctx: ActionCtx, args: Record<string, unknown>) {
+      return ctx.runAction(this.options.action, args);
+    }
+  },
+}));
+
+const guestId = "user-1700000000000-abc123";
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(dubaiTime("2025-03-17T20:00"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// Seeded venues with (fake backend) embeddings, so all three retrievers answer
+async function setupEmbeddedTest() {
+  const t = await setupSeededTest();
+  const places = await t.run((ctx) => ctx.db.query("places").collect());
+  for (const place of places) {
+    await t.action(internal.embeddings.generatePlaceEmbedding, { placeId: place._id });
+  }
+  return t;
+}
+
+function isSortedByFinalScore(places: Array<{ finalScore: number }>): boolean {
+  return places.every((place, i) => i === 0 || places[i - 1].finalScore >= place.finalScore);
+}
+
+test("a venue named in the query ranks first", async () => {
+  const t = await setupEmbeddedTest();
+  const result = await t.action(api.hybridSearch.hybridSearch, { query: "ravi restaurant", guestId });
+
+  expect(result.degraded).toBe(false);
+  expect(result.bestMatch.name).toBe("Ravi Restaurant");
+  expect(result.places[0].sourceRanks).toMatchObject({ filter: 1, lexical: 1 });
+});
+
+test("venues every retriever found outrank single-source ones", async () => {
+  const t = await setupEmbeddedTest();
+  const result = await t.action(api.hybridSearch.hybridSearch, { query: "beach", guestId });
+
+  expect(result.fusion).toBe("rrf");
+  expect(isSortedByFinalScore(result.places)).toBe(true);
+  expect(result.places.slice(0, 3).map((place: { name: string }) => place.name)).toEqual([
+    "Riva Beach Club",
+    "The Beach House",
+    "The Surf Cafe",
+  ]);
+  expect(result.places[0].sourceRanks).toEqual({ semantic: 1, filter: 1, lexical: 2 });
+  expect(result.places.slice(3).every((place: any) => place.sourceRanks.filter === null)).toBe(true);
+});
+
+test("normalized fusion weighs how far ahead a venue scored, not just its rank", async () => {
+  const t = await setupEmbeddedTest();
+  const result = await t.action(api.hybridSearch.hybridSearch, { query: "beach", guestId, fusion: "normalized" });
+
+  expect(result.fusion).toBe("normalized");
+  expect(isSortedByFinalScore(result.places)).toBe(true);
+
+  // The Surf Cafe trails every source by a wide margin, so Tom & Serg - third on semantic alone - passes it
+  const names = result.places.map((place: { name: string }) => place.name);
+  expect(names.slice(0, 2)).toEqual(["Riva Beach Club", "The Beach House"]);
+  expect(names.indexOf("Tom & Serg")).toBeLessThan(names.indexOf("The Surf Cafe"));
+});
+
+test("semantic search filters by area, including venues the area key backfill hasn't reached", async () => {
+  const t = await setupEmbeddedTest();
+  await t.run(async (ctx) => {
+    const beachHouse = await ctx.db.query("places").filter((q) => q.eq(q.field("name"), "The Beach House")).first();
+    await ctx.db.patch(beachHouse!._id, { areaKey: undefined });
+  });
+
+  const jbr = await t.action(api.semanticSearch.semanticSearch, { query: "beach", filters: { area: "jbr" } });
+  expect(jbr.places.map((place: { name: string }) => place.name)).toEqual(["The Beach House"]);
+
+  // Filters the vector index can't combine are checked on the results
+  const marinaCafes = await t.action(api.semanticSearch.semanticSearch, {
+    query: "beach",
+    filters: { area: "Marina", category: "cafe", nearMetro: true },
+  });
+  expect(marinaCafes.places.map((place: { name: string }) => place.name)).toEqual(["The Surf Cafe"]);
+});
+
+test("query embeddings count against the caller's budget", async () => {
+  const t = await setupEmbeddedTest();
+  await t.action(api.semanticSearch.semanticSearch, { query: "quiet cafe", guestId });
+
+  // Place embeddings are nobody's spend; the query's is the caller's
+  const usage = await t.run((ctx) => ctx.db.query("llmUsage").order("desc").first());
+  expect(usage).toMatchObject({ task: "embedding", userKey: guestId });
+});
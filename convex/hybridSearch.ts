@@ -1,75 +1,186 @@
 import { action } from "./_generated/server";
 import { v } from "convex/values";
 import { api } from "./_generated/api";
+import { DEFAULT_FUSION_MODE, fuseRankings, fusionModeValidator } from "./fusion";
+import { taskTimeBudgetMs } from "./llm";
+
+// How much each retriever counts in the fused ranking
+const SOURCE_WEIGHTS = {
+  semantic: 0.6,
+  filter: 0.4,
+  lexical: 0.5,
+};
+
+// Time spent around the model call in the parse and semantic stages (rate limits, caches, queries)
+const STAGE_OVERHEAD_MS = 1000;
+
+// Per-stage time budgets; a stage that misses its budget is dropped instead of failing the search
+// Stages that call the LLM gateway get its whole timeout-and-retry budget, so a stage is only
+// dropped once the gateway has given up too - never while a billed call is still running
+const STAGE_TIMEOUTS_MS = {
+  parse: taskTimeBudgetMs("parse") + STAGE_OVERHEAD_MS,
+  semantic: taskTimeBudgetMs("embedding") + STAGE_OVERHEAD_MS,
+  lexical: 2000,
+  filter: 5000,
+};
+
+type SearchStage = keyof typeof STAGE_TIMEOUTS_MS;
+
+/**
+ * Reject if the promise doesn't settle within the stage's budget
+ * (the underlying call keeps running; its result is just ignored)
+ */
+function withTimeout<T>(stage: SearchStage, promise: Promise<T>): Promise<T> {
+  const ms = STAGE_TIMEOUTS_MS[stage];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${stage} timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
 
 /**
- * Hybrid search combining filter-based and semantic search
- * Runs both in parallel for fastest results
+ * Hybrid search combining filter-based, semantic and keyword search
+ * Runs them in parallel for fastest results, then fuses the rankings (see fusion.ts)
+ *
+ * Degrades instead of failing: if the LLM parser or the embedding provider is down or slow,
+ * the search falls back to whatever stages succeeded (at worst a plain filter search) and
+ * reports degraded: true with the failed stages so the UI can show a notice.
  */
 export const hybridSearch = action({
   args: {
     query: v.string(),
-    userId: v.optional(v.string()),
+    guestId: v.optional(v.string()),
     userLat: v.optional(v.number()),
     userLon: v.optional(v.number()),
+    openAt: v.optional(v.union(v.number(), v.string())), // Timestamp or phrase like "tonight at 11"
+    fusion: v.optional(fusionModeValidator), // "rrf" (default) or "normalized"
   },
   handler: async (ctx, args): Promise<{
     places: any[];
     bestMatch: any;
     totalCount: number;
     searchType: string;
+    fusion: string;
     parseResult: any;
+    openAt: number | string | null;
+    degraded: boolean;
+    failedStages: SearchStage[];
     latencyMs: number;
   }> => {
     const startTime = Date.now();
+    const failedStages: SearchStage[] = [];
 
-    // Run LLM parsing and semantic search in parallel
-    const [parseResult, semanticResult]: [any, any] = await Promise.all([
-      ctx.runAction(api.ai.parseSearchQuery, { query: args.query }),
-      ctx.runAction(api.semanticSearch.semanticSearch, {
-        query: args.query,
-        userLat: args.userLat,
-        userLon: args.userLon,
-        limit: 20,
-      }),
+    const recordFailure = (stage: SearchStage, error: unknown) => {
+      failedStages.push(stage);
+      console.error(`hybridSearch ${stage} stage failed:`, error);
+    };
+
+    // Run LLM parsing, semantic and keyword search in parallel; each may fail independently
+    const [parseOutcome, semanticOutcome, lexicalOutcome] = await Promise.allSettled([
+      withTimeout("parse", ctx.runAction(api.ai.parseSearchQuery, { query: args.query, guestId: args.guestId })),
+      withTimeout(
+        "semantic",
+        ctx.runAction(api.semanticSearch.semanticSearch, {
+          query: args.query,
+          filters: args.openAt !== undefined ? { openAt: args.openAt } : undefined,
+          userLat: args.userLat,
+          userLon: args.userLon,
+          limit: 20,
+          guestId: args.guestId,
+        })
+      ),
+      withTimeout("lexical", ctx.runQuery(api.places.keywordSearch, { query: args.query, limit: 20 })),
     ]);
 
-    // Extract filters from LLM parsing
-    const filters = parseResult.success ? parseResult.result.filters : {};
-
-    // Run filter-based search with extracted filters
-    const filterResult: any = await ctx.runQuery(api.places.searchPlaces, {
-      ...filters,
-      category: filters.category === "any" ? undefined : filters.category,
-      userLat: args.userLat,
-      userLon: args.userLon,
-      userId: args.userId,
-    });
-
-    // Merge results: prioritize semantic matches, add filter-only matches
-    const semanticIds = new Set(semanticResult.places.map((p: any) => p._id));
-    const mergedPlaces: any[] = [...semanticResult.places];
-
-    // Add filter results not already in semantic results
-    for (const place of filterResult.places) {
-      if (!semanticIds.has(place._id)) {
-        mergedPlaces.push({
-          ...place,
-          semanticScore: 0,
-          combinedScore: place.score / 100, // Normalize filter score
-        });
+    // parseSearchQuery reports its own failures as success: false with a basic fallback result
+    let parseResult: any = null;
+    if (parseOutcome.status === "rejected") {
+      recordFailure("parse", parseOutcome.reason);
+    } else {
+      parseResult = parseOutcome.value.result;
+      if (!parseOutcome.value.success) {
+        recordFailure("parse", parseOutcome.value.error);
       }
     }
 
-    // Re-rank merged results
-    // Semantic results get 60% weight, filter results get 40%
-    const rankedPlaces: any[] = mergedPlaces
-      .map((place: any) => ({
-        ...place,
-        finalScore: place.combinedScore * 0.6 + (place.score || 0) / 100 * 0.4,
-      }))
-      .sort((a: any, b: any) => b.finalScore - a.finalScore)
-      .slice(0, 10);
+    let semanticPlaces: any[] = [];
+    if (semanticOutcome.status === "rejected") {
+      recordFailure("semantic", semanticOutcome.reason);
+    } else if (semanticOutcome.value.error === "rate_limited") {
+      recordFailure("semantic", semanticOutcome.value.rateLimit.message);
+    } else {
+      semanticPlaces = semanticOutcome.value.places;
+    }
+
+    let lexicalPlaces: any[] = [];
+    if (lexicalOutcome.status === "rejected") {
+      recordFailure("lexical", lexicalOutcome.reason);
+    } else {
+      lexicalPlaces = lexicalOutcome.value;
+    }
+
+    // Extract filters from LLM parsing (the parser uses null for "not specified")
+    const { openAt: parsedOpenAt, ...filters }: any = Object.fromEntries(
+      Object.entries(parseResult?.filters ?? {}).filter(([_, value]) => value !== null)
+    );
+
+    // An explicit openAt wins over a time phrase the parser pulled out of the query
+    const openAt = args.openAt ?? parsedOpenAt ?? undefined;
+
+    // Run filter-based search with extracted filters (no filters at all if parsing failed)
+    let filterPlaces: any[] = [];
+    try {
+      const filterResult: any = await withTimeout(
+        "filter",
+        ctx.runQuery(api.places.searchPlaces, {
+          ...filters,
+          query: args.query,
+          category: filters.category === "any" ? undefined : filters.category,
+          userLat: args.userLat,
+          userLon: args.userLon,
+          openAt,
+          guestId: args.guestId,
+          paginationOpts: { numItems: 20, cursor: null },
+        })
+      );
+      filterPlaces = filterResult.page;
+    } catch (error) {
+      recordFailure("filter", error);
+    }
+
+    // Nothing answered - surface a real error rather than an empty "no results"
+    if (["semantic", "lexical", "filter"].every((stage) => failedStages.includes(stage as SearchStage))) {
+      throw new Error(`Search unavailable: ${failedStages.join(", ")} failed`);
+    }
+
+    // Fuse the rankings; each place keeps its rank in every source it came from
+    const fusion = args.fusion ?? DEFAULT_FUSION_MODE;
+    const rankedPlaces: any[] = fuseRankings<any>(
+      [
+        {
+          name: "semantic",
+          items: semanticPlaces,
+          score: (place) => place.combinedScore,
+          weight: SOURCE_WEIGHTS.semantic,
+        },
+        {
+          name: "filter",
+          items: filterPlaces,
+          score: (place) => place.score,
+          weight: SOURCE_WEIGHTS.filter,
+        },
+        {
+          name: "lexical",
+          items: lexicalPlaces,
+          // Name matches outrank mentions; within each group, earlier is more relevant
+          score: (place) => (place.matchedOn === "name" ? 2 : 1) - place.lexicalRank / 100,
+          weight: SOURCE_WEIGHTS.lexical,
+        },
+      ],
+      (place) => place._id,
+      fusion
+    ).slice(0, 10);
 
     const endTime = Date.now();
 
@@ -78,7 +189,11 @@ export const hybridSearch = action({
       bestMatch: rankedPlaces[0] || null,
       totalCount: rankedPlaces.length,
       searchType: "hybrid",
-      parseResult: parseResult.result,
+      fusion,
+      parseResult,
+      openAt: openAt ?? null,
+      degraded: failedStages.length > 0,
+      failedStages,
       latencyMs: endTime - startTime,
     };
   },
@@ -0,0 +1,739 @@
+/**
+ * LLM Gateway
+ *
+ * Single entry point for chat completions and embeddings:
+ * - LLMBackend: pluggable provider ("openrouter" via the OpenAI SDK, or "fake" - deterministic
+ *   canned completions and hash-based embeddings, so the search stack runs offline)
+ * - Per-task model, timeout and retry settings (LLM_TASKS), model overridable with LLM_MODEL_<TASK>
+ * - Retries with exponential backoff on timeouts, rate limits and 5xx errors
+ * - Streaming completions (completeStream) for progressively rendered chat replies
+ * - Tool calling: pass request.tools, get result.toolCalls back (see chatAgent.ts)
+ * - Token and cost accounting: every call is recorded in llmUsage
+ *
+ * Select the backend with the LLM_BACKEND environment variable (default "openrouter").
+ */
+
+import OpenAI from "openai";
+import { v } from "convex/values";
+import { ActionCtx, internalMutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { requireRole } from "./users";
+
+export type LLMTask = "parse" | "response" | "chat" | "enrichment" | "memory" | "embedding";
+export type CompletionTask = Exclude<LLMTask, "embedding">;
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string;
+  toolCalls?: ToolCall[]; // Assistant turns that called tools
+  toolCallId?: string; // Tool turns: the call this result answers
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>; // JSON schema
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string; // JSON, as produced by the model - may be malformed
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  tools?: ToolDefinition[];
+  responseFormat?:
+    | { type: "json_object" }
+    | { type: "json_schema"; json_schema: { name: string; strict: boolean; schema: Record<string, any> } };
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  toolCalls?: ToolCall[];
+  model: string;
+  usage: TokenUsage;
+  costUsd: number;
+}
+
+export interface EmbeddingResult {
+  embedding: number[];
+  model: string;
+  usage: TokenUsage;
+  costUsd: number;
+}
+
+export interface LLMBackend {
+  name: string;
+  complete(
+    task: CompletionTask,
+    model: string,
+    request: CompletionRequest,
+    timeoutMs: number
+  ): Promise<{ content: string; usage: TokenUsage; toolCalls?: ToolCall[] }>;
+  embed(model: string, input: string, timeoutMs: number): Promise<{ embedding: number[]; usage: TokenUsage }>;
+  // Optional: backends without it stream the whole completion as one fragment.
+  // Aborting `signal` ends the stream early and resolves with the text received so far.
+  stream?(
+    task: CompletionTask,
+    model: string,
+    request: CompletionRequest,
+    timeoutMs: number,
+    onDelta: (text: string) => Promise<void>,
+    signal: AbortSignal
+  ): Promise<{ content: string; usage: TokenUsage; toolCalls?: ToolCall[] }>;
+}
+
+interface TaskConfig {
+  model: string;
+  timeoutMs: number;
+  maxRetries: number;
+}
+
+// Defaults per task; the model can be overridden with LLM_MODEL_<TASK> (e.g. LLM_MODEL_CHAT)
+const LLM_TASKS: Record<LLMTask, TaskConfig> = {
+  parse: { model: "openai/gpt-4o-mini", timeoutMs: 10000, maxRetries: 1 }, // Fast + supports structured outputs
+  response: { model: "openai/gpt-4o-mini", timeoutMs: 8000, maxRetries: 1 },
+  chat: { model: "openai/gpt-4o-mini", timeoutMs: 15000, maxRetries: 1 },
+  enrichment: { model: "openai/gpt-4o-mini", timeoutMs: 30000, maxRetries: 2 }, // Background job, can wait
+  memory: { model: "openai/gpt-4o-mini", timeoutMs: 20000, maxRetries: 2 }, // Background conversation summaries
+  embedding: { model: "openai/text-embedding-3-small", timeoutMs: 5000, maxRetries: 2 },
+};
+
+// USD per million tokens [input, output]; unknown models are recorded at zero cost
+const MODEL_PRICING: Record<string, [number, number]> = {
+  "openai/gpt-4o-mini": [0.15, 0.6],
+  "openai/gpt-4o": [2.5, 10],
+  "openai/text-embedding-3-small": [0.02, 0],
+};
+
+// Dimensions of the places vector index (text-embedding-3-small)
+export const EMBEDDING_DIMENSIONS = 1536;
+
+const RETRY_BASE_DELAY_MS = 250;
+
+// Pause between fragments of a fake streamed completion, so streaming UIs can be exercised offline
+const FAKE_STREAM_DELAY_MS = 40;
+
+/**
+ * Resolve a task's settings, applying any LLM_MODEL_<TASK> override
+ */
+export function getTaskConfig(task: LLMTask): TaskConfig {
+  const override = process.env[`LLM_MODEL_${task.toUpperCase()}`];
+  return override ? { ...LLM_TASKS[task], model: override } : LLM_TASKS[task];
+}
+
+/**
+ * Longest a task's call can take through the gateway: every attempt timing out, plus the backoff between them
+ */
+export function taskTimeBudgetMs(task: LLMTask): number {
+  const { timeoutMs, maxRetries } = getTaskConfig(task);
+  let backoffMs = 0;
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    backoffMs += RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+  }
+  return timeoutMs * (maxRetries + 1) + backoffMs;
+}
+
+export function estimateCost(model: string, usage: TokenUsage): number {
+  const [input, output] = MODEL_PRICING[model] ?? [0, 0];
+  return (usage.promptTokens * input + usage.completionTokens * output) / 1_000_000;
+}
+
+// ============================================================================
+// Backends
+// ============================================================================
+
+// Gateway messages and tools in the OpenAI wire format
+function toOpenAIMessages(messages: ChatMessage[]): OpenAI.Chat.ChatCompletionMessageParam[] {
+  return messages.map((message): OpenAI.Chat.ChatCompletionMessageParam => {
+    if (message.role === "tool") {
+      return { role: "tool", tool_call_id: message.toolCallId ?? "", content: message.content };
+    }
+    if (message.role === "assistant" && message.toolCalls?.length) {
+      return {
+        role: "assistant",
+        content: message.content || null,
+        tool_calls: message.toolCalls.map((call) => ({
+          id: call.id,
+          type: "function",
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      };
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+function toOpenAITools(tools: ToolDefinition[] | undefined): OpenAI.Chat.ChatCompletionTool[] | undefined {
+  return tools?.map((tool) => ({
+    type: "function",
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+  }));
+}
+
+const getOpenRouterClient = () => {
+  const apiKey = process.env.OPENROUTER_API_KEY;
+  if (!apiKey) {
+    throw new Error("OPENROUTER_API_KEY environment variable is not set");
+  }
+
+  return new OpenAI({
+    baseURL: "https://openrouter.ai/api/v1",
+    apiKey: apiKey,
+    maxRetries: 0, // Retries are handled by the gateway so they're counted once
+    defaultHeaders: {
+      "HTTP-Referer": process.env.APP_URL || "http://localhost:3000",
+      "X-Title": "Where2 Dubai",
+    },
+  });
+};
+
+export const openRouterBackend: LLMBackend = {
+  name: "openrouter",
+  async complete(_task, model, request, timeoutMs) {
+    const completion = await getOpenRouterClient().chat.completions.create(
+      {
+        model,
+        messages: toOpenAIMessages(request.messages),
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        response_format: request.responseFormat,
+        tools: toOpenAITools(request.tools),
+      },
+      { timeout: timeoutMs }
+    );
+
+    const message = completion.choices[0].message;
+    return {
+      content: message.content || "",
+      toolCalls: message.tool_calls?.map((call) => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: call.function.arguments,
+      })),
+      usage: {
+        promptTokens: completion.usage?.prompt_tokens ?? 0,
+        completionTokens: completion.usage?.completion_tokens ?? 0,
+        totalTokens: completion.usage?.total_tokens ?? 0,
+      },
+    };
+  },
+  async stream(_task, model, request, timeoutMs, onDelta, signal) {
+    let content = "";
+    let usage: TokenUsage | null = null;
+    // Tool calls arrive in fragments keyed by index: id and name first, then argument pieces
+    const toolCalls: ToolCall[] = [];
+
+    try {
+      const stream = await getOpenRouterClient().chat.completions.create(
+        {
+          model,
+          messages: toOpenAIMessages(request.messages),
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          tools: toOpenAITools(request.tools),
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        { timeout: timeoutMs, signal }
+      );
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          await onDelta(delta);
+        }
+        for (const fragment of chunk.choices[0]?.delta?.tool_calls ?? []) {
+          const call = (toolCalls[fragment.index] ??= { id: "", name: "", arguments: "" });
+          call.id = fragment.id ?? call.id;
+          call.name = fragment.function?.name ?? call.name;
+          call.arguments += fragment.function?.arguments ?? "";
+        }
+        if (chunk.usage) {
+          usage = {
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+            totalTokens: chunk.usage.total_tokens,
+          };
+        }
+      }
+    } catch (error) {
+      if (!signal.aborted) throw error;
+    }
+
+    // A cancelled stream never gets the final usage chunk; its tool calls may be cut off
+    return {
+      content,
+      toolCalls: signal.aborted || toolCalls.length === 0 ? undefined : toolCalls,
+      usage: usage ?? approximateUsage(request.messages.map((m) => m.content).join(" "), content),
+    };
+  },
+  async embed(model, input, timeoutMs) {
+    const response = await getOpenRouterClient().embeddings.create({ model, input }, { timeout: timeoutMs });
+    return {
+      embedding: response.data[0].embedding,
+      usage: {
+        promptTokens: response.usage?.prompt_tokens ?? 0,
+        completionTokens: 0,
+        totalTokens: response.usage?.total_tokens ?? 0,
+      },
+    };
+  },
+};
+
+/**
+ * Deterministic offline backend: canned completions per task, hash-based embeddings.
+ * Same input always gives the same output, so search results are reproducible in tests.
+ */
+export const fakeBackend: LLMBackend = {
+  name: "fake",
+  async complete(task, _model, request) {
+    const prompt = request.messages.map((m) => m.content).join(" ");
+    if (request.tools?.length) {
+      const turn = fakeAgentTurn(request);
+      return { ...turn, usage: approximateUsage(prompt, turn.content) };
+    }
+    const lastUserMessage = [...request.messages].reverse().find((m) => m.role === "user")?.content ?? "";
+    const content = FAKE_COMPLETIONS[task](lastUserMessage);
+    return { content, usage: approximateUsage(prompt, content) };
+  },
+  async embed(_model, input) {
+    return { embedding: hashEmbedding(input), usage: approximateUsage(input, "") };
+  },
+  async stream(task, model, request, timeoutMs, onDelta, signal) {
+    const { content: full, toolCalls } = await this.complete(task, model, request, timeoutMs);
+    let content = "";
+    for (const fragment of full.match(/\S+\s*/g) ?? []) {
+      if (signal.aborted) break;
+      content += fragment;
+      await onDelta(fragment);
+      await new Promise((resolve) => setTimeout(resolve, FAKE_STREAM_DELAY_MS));
+    }
+    return {
+      content,
+      toolCalls: signal.aborted ? undefined : toolCalls,
+      usage: approximateUsage(request.messages.map((m) => m.content).join(" "), content),
+    };
+  },
+};
+
+const BACKENDS: Record<string, LLMBackend> = {
+  [openRouterBackend.name]: openRouterBackend,
+  [fakeBackend.name]: fakeBackend,
+};
+
+/**
+ * Resolve the configured backend
+ */
+export function getLLMBackend(): LLMBackend {
+  const name = process.env.LLM_BACKEND || openRouterBackend.name;
+  const backend = BACKENDS[name];
+  if (!backend) {
+    throw new Error(`Unknown LLM_BACKEND "${name}" (expected ${Object.keys(BACKENDS).join(", ")})`);
+  }
+  return backend;
+}
+
+// ============================================================================
+// Gateway
+// ============================================================================
+
+/**
+ * Run a chat completion for a task (retries, timeout and usage accounting included)
+ * Throws once retries are exhausted; callers keep their own user-facing fallbacks
+ * Pass options.backend to bypass LLM_BACKEND (e.g. eval runs replaying recorded responses)
+ * and options.userKey to attribute the spend to a caller (see rateLimits.ts)
+ */
+export async function complete(
+  ctx: ActionCtx,
+  task: CompletionTask,
+  request: CompletionRequest,
+  options: { backend?: LLMBackend; userKey?: string | null } = {}
+): Promise<CompletionResult> {
+  const backend = options.backend ?? getLLMBackend();
+  const config = getTaskConfig(task);
+
+  const { content, toolCalls, usage } = await withRetries(ctx, backend, task, config, options.userKey ?? undefined, () =>
+    backend.complete(task, config.model, request, config.timeoutMs)
+  );
+  return { content, toolCalls, usage, model: config.model, costUsd: estimateCost(config.model, usage) };
+}
+
+/**
+ * Stream a chat completion, passing each text fragment to onDelta as it arrives.
+ * Not retried, since fragments may already be on screen. Aborting options.signal stops
+ * the stream and resolves with the partial text (cancelled: true).
+ */
+export async function completeStream(
+  ctx: ActionCtx,
+  task: CompletionTask,
+  request: CompletionRequest,
+  onDelta: (text: string) => Promise<void>,
+  options: { userKey?: string | null; signal?: AbortSignal } = {}
+): Promise<CompletionResult & { cancelled: boolean }> {
+  const backend = getLLMBackend();
+  const config = { ...getTaskConfig(task), maxRetries: 0 };
+  const signal = options.signal ?? new AbortController().signal;
+
+  const { content, toolCalls, usage } = await withRetries(ctx, backend, task, config, options.userKey ?? undefined, async () => {
+    if (backend.stream) {
+      return await backend.stream(task, config.model, request, config.timeoutMs, onDelta, signal);
+    }
+    const result = await backend.complete(task, config.model, request, config.timeoutMs);
+    await onDelta(result.content);
+    return result;
+  });
+  return {
+    content,
+    toolCalls,
+    usage,
+    model: config.model,
+    costUsd: estimateCost(config.model, usage),
+    cancelled: signal.aborted,
+  };
+}
+
+/**
+ * Embed a single text with the embedding task's model
+ * Pass options.userKey to attribute the spend to a caller (see rateLimits.ts)
+ */
+export async function embed(
+  ctx: ActionCtx,
+  input: string,
+  options: { userKey?: string | null } = {}
+): Promise<EmbeddingResult> {
+  const backend = getLLMBackend();
+  const config = getTaskConfig("embedding");
+
+  const { embedding, usage } = await withRetries(ctx, backend, "embedding", config, options.userKey ?? undefined, () =>
+    backend.embed(config.model, input, config.timeoutMs)
+  );
+  return { embedding, usage, model: config.model, costUsd: estimateCost(config.model, usage) };
+}
+
+async function withRetries<T extends { usage: TokenUsage }>(
+  ctx: ActionCtx,
+  backend: LLMBackend,
+  task: LLMTask,
+  config: TaskConfig,
+  userKey: string | undefined,
+  call: () => Promise<T>
+): Promise<T> {
+  const startTime = Date.now();
+  let attempt = 0;
+
+  while (true) {
+    try {
+      const result = await call();
+      await recordCall(ctx, backend, task, config.model, startTime, attempt + 1, userKey, result.usage);
+      return result;
+    } catch (error: any) {
+      if (attempt >= config.maxRetries || !isRetryable(error)) {
+        await recordCall(ctx, backend, task, config.model, startTime, attempt + 1, userKey, null, error.message);
+        throw error;
+      }
+      attempt++;
+      await new Promise((resolve) => setTimeout(resolve, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1)));
+    }
+  }
+}
+
+// Timeouts, network errors, rate limits and server errors are worth another try
+function isRetryable(error: any): boolean {
+  if (error instanceof OpenAI.APIConnectionError) return true; // includes timeouts
+  const status: number | undefined = error?.status;
+  return status === undefined ? false : status === 429 || status >= 500;
+}
+
+async function recordCall(
+  ctx: ActionCtx,
+  backend: LLMBackend,
+  task: LLMTask,
+  model: string,
+  startTime: number,
+  attempts: number,
+  userKey: string | undefined,
+  usage: TokenUsage | null,
+  error?: string
+) {
+  // Accounting must never break the call it describes
+  try {
+    await ctx.runMutation(internal.llm.recordUsage, {
+      task,
+      backend: backend.name,
+      model,
+      promptTokens: usage?.promptTokens ?? 0,
+      completionTokens: usage?.completionTokens ?? 0,
+      costUsd: usage ? estimateCost(model, usage) : 0,
+      latencyMs: Date.now() - startTime,
+      attempts,
+      success: usage !== null,
+      error,
+      userKey,
+    });
+  } catch (recordError) {
+    console.error("Failed to record LLM usage:", recordError);
+  }
+}
+
+// ============================================================================
+// Fake backend helpers
+// ============================================================================
+
+// Rough token count (~4 characters per token) for the fake backend's accounting
+function approximateUsage(prompt: string, completion: string): TokenUsage {
+  const promptTokens = Math.ceil(prompt.length / 4);
+  const completionTokens = Math.ceil(completion.length / 4);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+// FNV-1a, 32-bit
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Bag-of-words embedding: each word adds ±1 to a hashed dimension, then L2-normalized.
+ * Texts sharing words get high cosine similarity, which is enough to exercise vector search.
+ */
+export function hashEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  const words = text.toLowerCase().split(/[^a-z0-9\u0600-\u06FF]+/).filter(Boolean);
+
+  for (const word of words) {
+    const hash = hashString(word);
+    vector[hash % EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -1 : 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map((value) => value / norm);
+}
+
+const FAKE_AREAS = ["Marina", "Business Bay", "Downtown", "JBR", "City Walk", "Al Barsha", "Palm Jumeirah", "DIFC", "Jumeirah", "Deira"];
+const FAKE_CUISINES = ["Italian", "Indian", "Japanese", "Arabic", "Lebanese", "Emirati", "Seafood", "Mediterranean"];
+const FAKE_TAG_KEYWORDS: Array<[RegExp, string]> = [
+  [/famil/, "family-friendly"],
+  [/kid|child/, "kid-friendly"],
+  [/outdoor|terrace|outside/, "outdoor"],
+  [/indoor|inside/, "indoor"],
+  [/water|sea|beach|creek/, "waterfront"],
+];
+const FAKE_OCCASION_KEYWORDS: Array<[RegExp, string]> = [
+  [/\bdate\b|romantic/, "date"],
+  [/business|meeting|client/, "business"],
+  [/birthday/, "birthday"],
+  [/anniversary|celebrat|graduation/, "celebration"],
+];
+const FAKE_DIETARY_KEYWORDS: Array<[RegExp, string]> = [
+  [/halal/, "halal"],
+  [/vegetarian/, "vegetarian"],
+  [/vegan/, "vegan"],
+  [/gluten/, "gluten-free"],
+];
+const FAKE_NUMBER_WORDS = ["one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten"];
+
+// "for 6", "party of 6", "6 people", "for four"
+function fakePartySize(text: string): number | null {
+  const match = text.match(/\b(?:for|party of|group of) (\d+|[a-z]+)\b|\b(\d+|[a-z]+) (?:people|persons|of us|guests)\b/);
+  const word = match?.[1] ?? match?.[2];
+  if (!word) return null;
+  const size = /^\d+$/.test(word) ? Number(word) : FAKE_NUMBER_WORDS.indexOf(word) + 1;
+  return size > 0 ? size : null;
+}
+
+/**
+ * Keyword-rule stand-in for the search intent parser (matches searchIntentSchema in ai.ts)
+ */
+function fakeParse(query: string): string {
+  const text = query.toLowerCase();
+  const openAt = text.match(/\b(tonight|tomorrow|friday|saturday|sunday)\b[^,.?!]*/);
+  const timeWindow = text.match(/\bbetween (\d{1,2}(?::\d{2})?\s*(?:am|pm)?) and (\d{1,2}(?::\d{2})?\s*(?:am|pm)?)/);
+  const budget = text.match(/(?:aed|dhs?)\s?(\d+)|(\d+)\s?(?:aed|dhs?|dirhams?)\b/);
+
+  return JSON.stringify({
+    intent: query,
+    filters: {
+      category: /caf[eé]|coffee/.test(text) ? "cafe" : /restaurant|dinner|lunch/.test(text) ? "restaurant" : null,
+      tags: FAKE_TAG_KEYWORDS.filter(([pattern]) => pattern.test(text)).map(([, tag]) => tag),
+      priceLevel: /cheap|budget|affordable/.test(text) ? "Low" : /luxur|fancy|upscale/.test(text) ? "Lux" : null,
+      area: FAKE_AREAS.find((area) => text.includes(area.toLowerCase())) ?? null,
+      nearMetro: /metro/.test(text) ? true : null,
+      minRating: null,
+      cuisine: FAKE_CUISINES.filter((cuisine) => text.includes(cuisine.toLowerCase())),
+      noise: /quiet|calm/.test(text) ? "Quiet" : /lively|buzzing/.test(text) ? "Lively" : null,
+      openNow: /\bnow\b|open/.test(text) && !openAt && !timeWindow,
+      openAt: timeWindow ? timeWindow[1].trim() : openAt ? openAt[0].trim() : null,
+      openUntil: timeWindow ? timeWindow[2].trim() : null,
+      partySize: fakePartySize(text),
+      occasion: FAKE_OCCASION_KEYWORDS.find(([pattern]) => pattern.test(text))?.[1] ?? null,
+      dietary: FAKE_DIETARY_KEYWORDS.filter(([pattern]) => pattern.test(text)).map(([, need]) => need),
+      budgetPerPerson: budget ? Number(budget[1] ?? budget[2]) : null,
+      seating: /high.?chair|toddler|baby/.test(text) ? "high-chair" : /sofa|couch|comfy/.test(text) ? "sofa" : null,
+    },
+    clarifyingQuestions: [],
+    confidence: 0.8,
+  });
+}
+
+/**
+ * Stand-in for a tool-calling chat turn (tool names match chatAgent.ts): search with the
+ * parsed filters first, then answer citing the top results as [[venue id]]
+ */
+function fakeAgentTurn(request: CompletionRequest): { content: string; toolCalls?: ToolCall[] } {
+  const lastUserIndex = request.messages.map((m) => m.role).lastIndexOf("user");
+  const toolResults = request.messages.slice(lastUserIndex + 1).filter((m) => m.role === "tool");
+
+  if (toolResults.length === 0) {
+    const query = request.messages[lastUserIndex]?.content ?? "";
+    const { filters } = JSON.parse(fakeParse(query));
+    const args = Object.fromEntries(Object.entries({ query, ...filters }).filter(([, value]) => value !== null));
+    return { content: "", toolCalls: [{ id: "fake-call-1", name: "searchPlaces", arguments: JSON.stringify(args) }] };
+  }
+
+  let places: Array<{ id: string; name: string }> = [];
+  try {
+    places = JSON.parse(toolResults[toolResults.length - 1].content).places ?? [];
+  } catch {
+    // Not a search result; answer without venues
+  }
+  if (places.length === 0) {
+    return { content: "I couldn't find a match for that. Want to loosen the filters a little?" };
+  }
+  const picks = places.slice(0, 3).map((place) => `${place.name} [[${place.id}]]`);
+  return { content: `Here are a few spots that fit: ${picks.join(", ")}.` };
+}
+
+const FAKE_CONSTRAINT_KEYWORDS: Array<[RegExp, string, string]> = [
+  [/toddler|baby|stroller|pram/, "party", "Bringing a young child"],
+  [/kids?\b|children/, "party", "Bringing children"],
+  [/wheelchair|accessible|step-free/, "accessibility", "Needs wheelchair access"],
+  [/vegetarian/, "dietary", "Vegetarian"],
+  [/vegan/, "dietary", "Vegan"],
+  [/halal/, "dietary", "Halal only"],
+  [/gluten/, "dietary", "Gluten-free"],
+  [/cheap|budget|affordable/, "budget", "On a budget"],
+];
+
+/**
+ * Keyword-rule stand-in for the conversation summarizer (matches memorySchema in memory.ts)
+ */
+function fakeMemory(transcript: string): string {
+  const text = transcript.toLowerCase();
+  const userLines = transcript.split("\n").filter((line) => line.startsWith("user:"));
+  return JSON.stringify({
+    summary: `Earlier the user asked about: ${userLines.map((line) => line.slice(5).trim()).join("; ")}`.slice(0, 500),
+    constraints: FAKE_CONSTRAINT_KEYWORDS.filter(([pattern]) => pattern.test(text)).map(([, type, value]) => ({ type, value })),
+  });
+}
+
+const FAKE_COMPLETIONS: Record<CompletionTask, (lastUserMessage: string) => string> = {
+  parse: fakeParse,
+  response: () => "Here are some great options for you. Take a look at the top pick, or refine your search.",
+  chat: () => "Happy to help! Tell me what you're in the mood for and I'll find a spot.",
+  enrichment: () =>
+    JSON.stringify({
+      suggestedTags: ["casual", "good-for-groups"],
+      tagConfidence: 60,
+      noiseLevel: "Moderate",
+      noiseLevelConfidence: 60,
+      priceLevel: "Mid",
+      priceLevelConfidence: 60,
+      highlights: "A relaxed local favourite.",
+      highlightsConfidence: 50,
+      reasoning: "Canned suggestion from the fake LLM backend",
+    }),
+  memory: fakeMemory,
+};
+
+// ============================================================================
+// Usage accounting
+// ============================================================================
+
+/**
+ * Record one gateway call (internal - written by complete/embed)
+ */
+export const recordUsage = internalMutation({
+  args: {
+    task: v.string(),
+    backend: v.string(),
+    model: v.string(),
+    promptTokens: v.number(),
+    completionTokens: v.number(),
+    costUsd: v.number(),
+    latencyMs: v.number(),
+    attempts: v.number(),
+    success: v.boolean(),
+    error: v.optional(v.string()),
+    userKey: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.insert("llmUsage", { ...args, createdAt: Date.now() });
+  },
+});
+
+/**
+ * Token and cost totals per task and model (default: last 24 hours)
+ */
+export const getUsageSummary = query({
+  args: {
+    since: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, "admin");
+
+    const since = args.since ?? Date.now() - 24 * 60 * 60 * 1000;
+    const calls = await ctx.db
+      .query("llmUsage")
+      .withIndex("by_created_at", (q) => q.gte("createdAt", since))
+      .collect();
+
+    const byTask: Record<string, {
+      model: string;
+      calls: number;
+      failures: number;
+      promptTokens: number;
+      completionTokens: number;
+      costUsd: number;
+    }> = {};
+
+    for (const call of calls) {
+      const key = `${call.task}:${call.model}`;
+      const entry = (byTask[key] ??= {
+        model: call.model,
+        calls: 0,
+        failures: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        costUsd: 0,
+      });
+      entry.calls++;
+      if (!call.success) entry.failures++;
+      entry.promptTokens += call.promptTokens;
+      entry.completionTokens += call.completionTokens;
+      entry.costUsd += call.costUsd;
+    }
+
+    return {
+      since,
+      calls: calls.length,
+      costUsd: calls.reduce((sum, call) => sum + call.costUsd, 0),
+      byTask,
+    };
+  },
+});
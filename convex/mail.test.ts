@@ -0,0 +1,26 @@
+import { afterEach, expect, test, vi } from "vitest";
+import { signInCodeMessage } from "./auth";
+import { MailMessage, stubMailBackend } from "./mail";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+test("the stub backend keeps sign-in codes out of the logs", async () => {
+  const log = vi.spyOn(console, "log").mockImplementation(() => {});
+  const outbox: MailMessage[] = [];
+  const ctx = {
+    runMutation: async (_mutation: unknown, message: MailMessage) => {
+      outbox.push(message);
+    },
+  } as unknown as Parameters<typeof stubMailBackend.send>[0];
+
+  await stubMailBackend.send(ctx, signInCodeMessage("guest@example.com", "482916"));
+
+  const logged = log.mock.calls.flat().join(" ");
+  expect(logged).toContain("guest@example.com");
+  expect(logged).not.toContain("482916");
+  expect(outbox).toHaveLength(1);
+  expect(outbox[0].subject).not.toContain("482916");
+  expect(outbox[0].text).toContain("482916");
+});
@@ -0,0 +1,111 @@
+/**
+ * Outgoing Mail
+ *
+ * Sends transactional email (sign-in codes) through a pluggable backend:
+ * - "stub" (local development only): nothing leaves the deployment - messages are kept in
+ *   mailOutbox so sign-in works without a mail account
+ * - "resend": delivered through the Resend API (RESEND_API_KEY, MAIL_FROM)
+ *
+ * Select the backend with the MAIL_BACKEND environment variable. There is no default, so a
+ * deployment that forgets it fails to send rather than quietly stubbing sign-in codes.
+ * Read the latest stubbed code with:
+ *
+ *   npx convex run mail:latestMail '{"to": "you@example.com"}'
+ */
+
+import { v } from "convex/values";
+import { ActionCtx, internalMutation, internalQuery } from "./_generated/server";
+import { internal } from "./_generated/api";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailBackend {
+  name: string;
+  send(ctx: Pick<ActionCtx, "runMutation">, message: MailMessage): Promise<void>;
+}
+
+export const stubMailBackend: MailBackend = {
+  name: "stub",
+  async send(ctx, message) {
+    // Messages carry sign-in codes, so only the recipient is logged; the message goes to the outbox
+    console.log(`[mail stub] to=${message.to} (read it with mail:latestMail)`);
+    await ctx.runMutation(internal.mail.saveOutboxMail, message);
+  },
+};
+
+export const resendMailBackend: MailBackend = {
+  name: "resend",
+  async send(_ctx, message) {
+    const apiKey = process.env.RESEND_API_KEY;
+    if (!apiKey) {
+      throw new Error("RESEND_API_KEY environment variable not set");
+    }
+
+    const response = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from: process.env.MAIL_FROM || "Mouoj <no-reply@mouoj.app>",
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Resend error: ${response.status} - ${await response.text()}`);
+    }
+  },
+};
+
+const BACKENDS: Record<string, MailBackend> = {
+  [stubMailBackend.name]: stubMailBackend,
+  [resendMailBackend.name]: resendMailBackend,
+};
+
+/**
+ * Resolve the configured backend
+ */
+export function getMailBackend(): MailBackend {
+  const name = process.env.MAIL_BACKEND;
+  if (!name) {
+    throw new Error(`MAIL_BACKEND environment variable not set (expected ${Object.keys(BACKENDS).join(", ")})`);
+  }
+  const backend = BACKENDS[name];
+  if (!backend) {
+    throw new Error(`Unknown MAIL_BACKEND "${name}" (expected ${Object.keys(BACKENDS).join(", ")})`);
+  }
+  return backend;
+}
+
+export const saveOutboxMail = internalMutation({
+  args: {
+    to: v.string(),
+    subject: v.string(),
+    text: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.insert("mailOutbox", { ...args, to: args.to.toLowerCase(), createdAt: Date.now() });
+  },
+});
+
+/**
+ * Most recent stubbed message for an address (local development)
+ */
+export const latestMail = internalQuery({
+  args: { to: v.string() },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("mailOutbox")
+      .withIndex("by_to", (q) => q.eq("to", args.to.toLowerCase()))
+      .order("desc")
+      .first();
+  },
+});
@@ -0,0 +1,248 @@
+/**
+ * Conversation Memory
+ *
+ * Threads only keep their last messages, and the chat model only sees the last few of those,
+ * so constraints stated early ("we have a toddler and a wheelchair") would be forgotten.
+ * Once enough turns have fallen out of that recent window, a background job folds them
+ * into the thread's memory: a short running summary plus a structured constraint set.
+ *
+ * chatWithAI puts the memory in its system prompt and parseSearchQuery turns the
+ * constraints into filters, so long sessions stay coherent.
+ */
+
+import { v } from "convex/values";
+import { internalAction, internalMutation, internalQuery, MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { complete } from "./llm";
+
+export type ConversationMemory = NonNullable<Doc<"conversations">["memory"]>;
+
+// Messages the client sends with each chat turn (ChatInterface); older ones need the summary
+const RECENT_MESSAGE_WINDOW = 6;
+
+// Unsummarized messages outside the recent window before a summary update runs
+const SUMMARIZE_BATCH = 6;
+
+// A scheduled update that hasn't finished by now is assumed lost and may be rescheduled
+const PENDING_TIMEOUT_MS = 2 * 60 * 1000;
+
+// parseSearchQuery without a thread uses the latest one only if it was active this recently
+const SEARCH_MEMORY_MAX_AGE_MS = 6 * 60 * 60 * 1000;
+
+const SUMMARY_MAX_LENGTH = 800;
+const MAX_CONSTRAINTS = 12;
+
+const CONSTRAINT_TYPES = ["party", "accessibility", "dietary", "budget", "area", "timing", "other"];
+
+const memorySchema = {
+  type: "object",
+  properties: {
+    summary: {
+      type: "string",
+      description: "What the user is planning and has decided so far, in 2-4 sentences",
+    },
+    constraints: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          type: { type: "string", enum: CONSTRAINT_TYPES },
+          value: { type: "string", description: "Short, e.g. \"Needs wheelchair access\"" },
+        },
+        required: ["type", "value"],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ["summary", "constraints"],
+  additionalProperties: false,
+};
+
+const SUMMARIZE_PROMPT = `You maintain the memory of a conversation between a user and Where2, an assistant that finds cafes and restaurants in Dubai.
+You get the current memory and the turns that happened since. Return the updated memory:
+- summary: what the user is planning and what they've decided or ruled out, in 2-4 sentences
+- constraints: lasting requirements that should shape every search - who's coming (children, group size),
+  accessibility, dietary needs, budget, preferred areas, timing. Keep earlier constraints unless the user
+  dropped or changed them; leave out one-off preferences for a single search.
+Venue suggestions the assistant made are not constraints.`;
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+/**
+ * Memory as prompt text, or null when there's nothing to remember
+ */
+export function formatMemory(memory: ConversationMemory | null | undefined): string | null {
+  if (!memory || (!memory.summary && memory.constraints.length === 0)) {
+    return null;
+  }
+  const lines = memory.summary ? [`Summary: ${memory.summary}`] : [];
+  if (memory.constraints.length > 0) {
+    lines.push("Constraints:", ...memory.constraints.map((constraint) => `- ${constraint.value} (${constraint.type})`));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * A user's thread memory: the given thread, or their latest one (recently active, for searches)
+ */
+export const getConversationMemory = internalQuery({
+  args: {
+    userId: v.string(),
+    conversationId: v.optional(v.id("conversations")),
+    forSearch: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    if (args.conversationId) {
+      const conversation = await ctx.db.get(args.conversationId);
+      return conversation?.userId === args.userId ? conversation.memory ?? null : null;
+    }
+
+    const latest = await ctx.db
+      .query("conversations")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .filter((q) => q.neq(q.field("archived"), true))
+      .first();
+    if (!latest || (args.forSearch && latest.lastMessage < Date.now() - SEARCH_MEMORY_MAX_AGE_MS)) {
+      return null;
+    }
+    return latest.memory ?? null;
+  },
+});
+
+// ============================================================================
+// Summarizing
+// ============================================================================
+
+// Messages that have left the recent window but aren't in the summary yet
+function unsummarizedMessages(conversation: Doc<"conversations">) {
+  const through = conversation.memory?.summarizedThrough ?? 0;
+  return conversation.messages
+    .slice(0, -RECENT_MESSAGE_WINDOW)
+    .filter((message) => message.timestamp > through);
+}
+
+/**
+ * Schedule a summary update if enough turns are waiting and none is in flight.
+ * Called after each message is appended (conversations.ts).
+ */
+export async function scheduleMemoryUpdate(ctx: MutationCtx, conversationId: Id<"conversations">) {
+  const conversation = await ctx.db.get(conversationId);
+  if (!conversation || unsummarizedMessages(conversation).length < SUMMARIZE_BATCH) {
+    return;
+  }
+  const now = Date.now();
+  if (conversation.memoryPendingSince && now - conversation.memoryPendingSince < PENDING_TIMEOUT_MS) {
+    return;
+  }
+  await ctx.db.patch(conversationId, { memoryPendingSince: now });
+  await ctx.scheduler.runAfter(0, internal.memory.summarizeConversation, { conversationId });
+}
+
+interface SummarizeInput {
+  userId: string;
+  memory: ConversationMemory | null;
+  messages: Array<{ role: string; content: string; timestamp: number }>;
+}
+
+export const getSummarizeInput = internalQuery({
+  args: { conversationId: v.id("conversations") },
+  handler: async (ctx, args): Promise<SummarizeInput | null> => {
+    const conversation = await ctx.db.get(args.conversationId);
+    if (!conversation) {
+      return null;
+    }
+    return {
+      userId: conversation.userId,
+      memory: conversation.memory ?? null,
+      messages: unsummarizedMessages(conversation).map(({ role, content, timestamp }) => ({ role, content, timestamp })),
+    };
+  },
+});
+
+export const summarizeConversation = internalAction({
+  args: { conversationId: v.id("conversations") },
+  handler: async (ctx, args): Promise<void> => {
+    const input: SummarizeInput | null = await ctx.runQuery(internal.memory.getSummarizeInput, {
+      conversationId: args.conversationId,
+    });
+    if (!input || input.messages.length === 0) {
+      await ctx.runMutation(internal.memory.saveMemory, { conversationId: args.conversationId });
+      return;
+    }
+
+    const transcript = input.messages.map((message) => `${message.role}: ${message.content}`).join("\n");
+    try {
+      const completion = await complete(
+        ctx,
+        "memory",
+        {
+          messages: [
+            { role: "system", content: SUMMARIZE_PROMPT },
+            { role: "system", content: `Current memory:\n${formatMemory(input.memory) ?? "(empty)"}` },
+            { role: "user", content: transcript },
+          ],
+          responseFormat: {
+            type: "json_schema",
+            json_schema: { name: "conversation_memory", strict: true, schema: memorySchema },
+          },
+          temperature: 0.2,
+        },
+        { userKey: input.userId }
+      );
+      const parsed = JSON.parse(completion.content);
+
+      await ctx.runMutation(internal.memory.saveMemory, {
+        conversationId: args.conversationId,
+        memory: {
+          summary: String(parsed.summary ?? "").slice(0, SUMMARY_MAX_LENGTH),
+          constraints: (Array.isArray(parsed.constraints) ? parsed.constraints : [])
+            .filter((constraint: any) => typeof constraint?.value === "string" && constraint.value.trim())
+            .slice(0, MAX_CONSTRAINTS)
+            .map((constraint: any) => ({
+              type: CONSTRAINT_TYPES.includes(constraint.type) ? constraint.type : "other",
+              value: constraint.value.trim(),
+            })),
+          summarizedThrough: input.messages[input.messages.length - 1].timestamp,
+        },
+      });
+    } catch (error) {
+      // Memory stays as it was; the next message reschedules
+      console.error("Error summarizing conversation:", error);
+      await ctx.runMutation(internal.memory.saveMemory, { conversationId: args.conversationId });
+    }
+  },
+});
+
+// Store an updated memory (if given) and clear the pending flag
+export const saveMemory = internalMutation({
+  args: {
+    conversationId: v.id("conversations"),
+    memory: v.optional(
+      v.object({
+        summary: v.string(),
+        constraints: v.array(v.object({ type: v.string(), value: v.string() })),
+        summarizedThrough: v.number(),
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    const conversation = await ctx.db.get(args.conversationId);
+    if (!conversation) {
+      return;
+    }
+    // A slower, older update never replaces a newer one
+    const current = conversation.memory?.summarizedThrough ?? 0;
+    if (args.memory && args.memory.summarizedThrough > current) {
+      await ctx.db.patch(args.conversationId, {
+        memory: { ...args.memory, updatedAt: Date.now() },
+        memoryPendingSince: undefined,
+      });
+    } else {
+      await ctx.db.patch(args.conversationId, { memoryPendingSince: undefined });
+    }
+  },
+});
@@ -0,0 +1,182 @@
+import { describe, expect, test } from "vitest";
+import { getOpenStatusFromHours, HoursModel, resolveOpenAt } from "./openingHours";
+import { dubaiTime } from "./test.setup";
+
+// Monday 17 March 2025, 20:00 in Dubai
+const NOW = dubaiTime("2025-03-17T20:00");
+
+describe("resolveOpenAt", () => {
+  test("passes timestamps through and ignores empty input", () => {
+    expect(resolveOpenAt(1234, NOW)).toBe(1234);
+    expect(resolveOpenAt(undefined, NOW)).toBeNull();
+    expect(resolveOpenAt(null, NOW)).toBeNull();
+    expect(resolveOpenAt("  ", NOW)).toBeNull();
+  });
+
+  test("now", () => {
+    expect(resolveOpenAt("now", NOW)).toBe(NOW);
+    expect(resolveOpenAt("Right now", NOW)).toBe(NOW);
+  });
+
+  test("ISO times without an offset are Dubai time", () => {
+    expect(resolveOpenAt("2025-03-18T09:30", NOW)).toBe(dubaiTime("2025-03-18T09:30"));
+    expect(resolveOpenAt("2025-03-18 09:30:15", NOW)).toBe(dubaiTime("2025-03-18T09:30:15"));
+    expect(resolveOpenAt("2025-03-18", NOW)).toBe(dubaiTime("2025-03-18T00:00"));
+  });
+
+  test("ISO times with an offset keep it", () => {
+    expect(resolveOpenAt("2025-03-18T09:30:00Z", NOW)).toBe(Date.parse("2025-03-18T09:30:00Z"));
+    expect(resolveOpenAt("2025-03-18T09:30:00+01:00", NOW)).toBe(Date.parse("2025-03-18T08:30:00Z"));
+  });
+
+  test("relative offsets", () => {
+    expect(resolveOpenAt("in 30 min", NOW)).toBe(NOW + 30 * 60 * 1000);
+    expect(resolveOpenAt("in an hour", NOW)).toBe(NOW + 60 * 60 * 1000);
+    expect(resolveOpenAt("in half an hour", NOW)).toBe(NOW + 30 * 60 * 1000);
+  });
+
+  test("days and clock times", () => {
+    expect(resolveOpenAt("tomorrow 9am", NOW)).toBe(dubaiTime("2025-03-18T09:00"));
+    expect(resolveOpenAt("friday at 8pm", NOW)).toBe(dubaiTime("2025-03-21T20:00"));
+    // Today's weekday is today, not next week
+    expect(resolveOpenAt("monday at 9pm", NOW)).toBe(dubaiTime("2025-03-17T21:00"));
+    expect(resolveOpenAt("23:00", NOW)).toBe(dubaiTime("2025-03-17T23:00"));
+  });
+
+  test("a time that already passed means tomorrow, or now if the phrase says today", () => {
+    expect(resolveOpenAt("9am", NOW)).toBe(dubaiTime("2025-03-18T09:00"));
+    expect(resolveOpenAt("today at 9am", NOW)).toBe(NOW);
+    expect(resolveOpenAt("monday at 9am", NOW)).toBe(NOW);
+    expect(resolveOpenAt("today", NOW)).toBe(NOW);
+  });
+
+  test("tonight asked after 20:00 means now", () => {
+    const later = dubaiTime("2025-03-17T21:30");
+    expect(resolveOpenAt("tonight", later)).toBe(later);
+    expect(resolveOpenAt("dinner today", later)).toBe(later);
+    // A time still ahead tonight is kept
+    expect(resolveOpenAt("tonight at 11", later)).toBe(dubaiTime("2025-03-17T23:00"));
+  });
+
+  test("evening phrases read small numbers as PM, or after midnight", () => {
+    expect(resolveOpenAt("tonight at 11", NOW)).toBe(dubaiTime("2025-03-17T23:00"));
+    expect(resolveOpenAt("tonight at 1", NOW)).toBe(dubaiTime("2025-03-18T01:00"));
+  });
+
+  test("named times of day", () => {
+    expect(resolveOpenAt("late night", NOW)).toBe(dubaiTime("2025-03-17T23:30"));
+    expect(resolveOpenAt("tomorrow dinner", NOW)).toBe(dubaiTime("2025-03-18T20:00"));
+  });
+
+  test("phrases it can't understand", () => {
+    expect(resolveOpenAt("whenever", NOW)).toBeNull();
+    expect(resolveOpenAt("2025-13-45T99:99", NOW)).toBeNull();
+  });
+
+  test("the Dubai day rolls over at Dubai midnight, not UTC midnight", () => {
+    // 01:00 Tuesday in Dubai is still Monday in UTC
+    const afterMidnight = dubaiTime("2025-03-18T01:00");
+    expect(resolveOpenAt("tomorrow at 10am", afterMidnight)).toBe(dubaiTime("2025-03-19T10:00"));
+  });
+});
+
+describe("getOpenStatusFromHours", () => {
+  const everyDay = (open: number, close: number) =>
+    Array.from({ length: 7 }, (_, day) => ({ day, open, close }));
+
+  // 09:00-22:00 every day
+  const daytime: HoursModel = { periods: everyDay(9 * 60, 22 * 60), exceptions: [] };
+
+  test("unknown hours", () => {
+    expect(getOpenStatusFromHours(undefined, NOW)).toEqual({
+      isOpen: null,
+      state: "unknown",
+      minutesUntilChange: null,
+      label: null,
+      specialDay: null,
+    });
+  });
+
+  test("open, closing soon, closed and opening soon", () => {
+    expect(getOpenStatusFromHours(daytime, NOW)).toMatchObject({ isOpen: true, state: "open", minutesUntilChange: 120 });
+    expect(getOpenStatusFromHours(daytime, dubaiTime("2025-03-17T21:40"))).toMatchObject({
+      isOpen: true,
+      state: "closing_soon",
+      label: "Closes in 20 min",
+    });
+    expect(getOpenStatusFromHours(daytime, dubaiTime("2025-03-17T22:00"))).toMatchObject({
+      isOpen: false,
+      state: "closed",
+    });
+    expect(getOpenStatusFromHours(daytime, dubaiTime("2025-03-18T08:15"))).toMatchObject({
+      isOpen: false,
+      state: "opening_soon",
+      label: "Opens in 45 min",
+    });
+  });
+
+  test("a closed venue counts down to its next opening, even after midnight", () => {
+    expect(getOpenStatusFromHours(daytime, dubaiTime("2025-03-17T23:00"))).toMatchObject({
+      state: "closed",
+      minutesUntilChange: 10 * 60,
+    });
+  });
+
+  test("overnight periods stay open past midnight", () => {
+    // Friday 18:00 to Saturday 02:00 only
+    const lateFriday: HoursModel = { periods: [{ day: 5, open: 18 * 60, close: 26 * 60 }], exceptions: [] };
+    expect(getOpenStatusFromHours(lateFriday, dubaiTime("2025-03-22T01:30"))).toMatchObject({
+      isOpen: true,
+      state: "closing_soon",
+      minutesUntilChange: 30,
+    });
+    expect(getOpenStatusFromHours(lateFriday, dubaiTime("2025-03-22T02:00")).isOpen).toBe(false);
+  });
+
+  test("around-the-clock hours never close at midnight", () => {
+    const allDay: HoursModel = { periods: everyDay(0, 24 * 60), exceptions: [] };
+    expect(getOpenStatusFromHours(allDay, dubaiTime("2025-03-17T23:59"))).toMatchObject({
+      isOpen: true,
+      state: "open",
+      minutesUntilChange: null,
+    });
+  });
+
+  test("a dated exception replaces the regular hours", () => {
+    const ramadan: HoursModel = {
+      periods: daytime.periods,
+      exceptions: [
+        {
+          label: "Ramadan",
+          startDate: "2025-03-01",
+          endDate: "2025-03-29",
+          periods: [{ open: 18 * 60 + 30, close: 27 * 60, label: "Iftar" }],
+        },
+      ],
+    };
+    expect(getOpenStatusFromHours(ramadan, dubaiTime("2025-03-17T12:00"))).toMatchObject({
+      isOpen: false,
+      specialDay: "Ramadan",
+    });
+    expect(getOpenStatusFromHours(ramadan, dubaiTime("2025-03-18T02:00"))).toMatchObject({
+      isOpen: true,
+      specialDay: "Ramadan",
+    });
+    expect(getOpenStatusFromHours(ramadan, dubaiTime("2025-03-30T12:00"))).toMatchObject({
+      isOpen: true,
+      specialDay: null,
+    });
+  });
+
+  test("an exception with no periods closes the venue for the day", () => {
+    const holiday: HoursModel = {
+      periods: daytime.periods,
+      exceptions: [{ label: "National Day", startDate: "2025-03-17", endDate: "2025-03-17", periods: [] }],
+    };
+    expect(getOpenStatusFromHours(holiday, NOW)).toMatchObject({
+      isOpen: false,
+      state: "closed",
+      specialDay: "National Day",
+    });
+  });
+});
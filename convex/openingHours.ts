@@ -0,0 +1,665 @@
+/**
+ * Opening Hours
+ *
+ * Normalized hours model shared by every "open now" / "open at" check.
+ * - placeHours: per-venue weekly periods plus dated exception ranges
+ *   (Ramadan iftar/suhoor schedules, Eid, National Day, one-off closures)
+ * - specialDays: city-wide calendar of special date ranges admins apply to venues
+ *
+ * All evaluation happens in Dubai local time (UTC+4, no daylight saving)
+ * regardless of the server clock, and handles overnight periods and split shifts.
+ * Venues without a placeHours document fall back to their legacy free-text
+ * openingHours ("12:00-15:00, 18:00-02:00"), converted on the fly.
+ */
+
+import { v, Infer } from "convex/values";
+import { query, mutation, internalMutation, QueryCtx, MutationCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { requireRole } from "./users";
+import { exceptionPeriodValidator, hoursExceptionValidator, hoursPeriodValidator } from "./schema";
+
+export type HoursPeriod = Infer<typeof hoursPeriodValidator>;
+export type HoursException = Infer<typeof hoursExceptionValidator>;
+
+export interface HoursModel {
+  periods: HoursPeriod[];
+  exceptions: HoursException[];
+}
+
+export type OpenState = "open" | "closing_soon" | "closed" | "opening_soon" | "unknown";
+
+export interface OpenStatus {
+  isOpen: boolean | null; // null when hours are unknown
+  state: OpenState;
+  minutesUntilChange: number | null; // minutes until close (if open) or next opening (if closed)
+  label: string | null; // e.g. "Closes in 20 min", "Opens in 45 min"
+  specialDay: string | null; // Exception in effect at that time, e.g. "Ramadan"
+}
+
+// Dubai doesn't observe DST, so a fixed offset is exact
+const DUBAI_UTC_OFFSET_MS = 4 * 60 * 60 * 1000;
+const MINUTES_PER_DAY = 24 * 60;
+const MS_PER_DAY = MINUTES_PER_DAY * 60 * 1000;
+
+// How close to a change we start flagging "closing soon" / "opens in X min"
+const SOON_THRESHOLD_MINUTES = 60;
+
+const DAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"] as const;
+
+/**
+ * Break a timestamp into Dubai wall-clock parts
+ */
+export function toDubaiTime(timestamp: number): { day: number; minutes: number; date: Date } {
+  // Shift into Dubai time and read the UTC fields so the server timezone never leaks in
+  const date = new Date(timestamp + DUBAI_UTC_OFFSET_MS);
+  return {
+    day: date.getUTCDay(),
+    minutes: date.getUTCHours() * 60 + date.getUTCMinutes(),
+    date,
+  };
+}
+
+/**
+ * Dubai calendar date for a timestamp, shifted by a number of days, as "YYYY-MM-DD"
+ */
+function toDubaiDate(timestamp: number, dayOffset = 0): string {
+  return toDubaiTime(timestamp + dayOffset * MS_PER_DAY).date.toISOString().slice(0, 10);
+}
+
+/**
+ * Format a timestamp as a Dubai clock time, e.g. "23:00"
+ */
+export function formatDubaiClock(timestamp: number): string {
+  const { minutes } = toDubaiTime(timestamp);
+  return formatMinutes(minutes);
+}
+
+function formatMinutes(minutes: number): string {
+  const wrapped = minutes % MINUTES_PER_DAY;
+  const hours = Math.floor(wrapped / 60);
+  return `${String(hours).padStart(2, "0")}:${String(wrapped % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Convert a Dubai wall-clock day (offset from the timestamp's day) and minute back to a timestamp
+ */
+function fromDubaiTime(reference: number, dayOffset: number, minutes: number): number {
+  const { date } = toDubaiTime(reference);
+  const dubaiMidnight = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  return dubaiMidnight + dayOffset * MS_PER_DAY + minutes * 60 * 1000 - DUBAI_UTC_OFFSET_MS;
+}
+
+function parseClock(value: string): number | null {
+  const match = value.trim().match(/^(\d{1,2})(?::(\d{2}))?$/);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2] || 0);
+  if (hours > 24 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+/**
+ * Parse a day's free-text hours into [start, end) minute ranges.
+ * Ranges that end at or before they start run past midnight, so the end is pushed into the next day.
+ */
+export function parseDayRanges(hours: string | undefined): Array<[number, number]> {
+  if (!hours) return [];
+  const normalized = hours.trim().toLowerCase();
+  if (normalized === "closed" || normalized === "") return [];
+  if (normalized === "24/7" || normalized === "24 hours") return [[0, MINUTES_PER_DAY]];
+
+  const ranges: Array<[number, number]> = [];
+  for (const range of normalized.split(",")) {
+    const [start, end] = range.split("-");
+    if (!start || !end) continue;
+
+    const startTime = parseClock(start);
+    const endTime = parseClock(end);
+    if (startTime === null || endTime === null) continue;
+
+    ranges.push([startTime, endTime <= startTime ? endTime + MINUTES_PER_DAY : endTime]);
+  }
+  return ranges;
+}
+
+/**
+ * Convert legacy free-text weekly hours into the normalized model
+ */
+export function legacyHoursToModel(weekly: Doc<"places">["openingHours"]): HoursModel | undefined {
+  if (!weekly) return undefined;
+
+  const periods: HoursPeriod[] = [];
+  DAYS.forEach((dayName, day) => {
+    for (const [open, close] of parseDayRanges(weekly[dayName])) {
+      periods.push({ day, open, close });
+    }
+  });
+  return { periods, exceptions: [] };
+}
+
+/**
+ * Render the model's regular week back to display strings, e.g. { monday: "18:00-02:00" }
+ */
+export function formatWeeklyHours(hours: HoursModel): Record<(typeof DAYS)[number], string> {
+  const weekly = {} as Record<(typeof DAYS)[number], string>;
+  DAYS.forEach((dayName, day) => {
+    const ranges = hours.periods
+      .filter((p) => p.day === day)
+      .sort((a, b) => a.open - b.open)
+      .map((p) => (p.open === 0 && p.close >= MINUTES_PER_DAY ? "24 hours" : `${formatMinutes(p.open)}-${formatMinutes(p.close)}`));
+    weekly[dayName] = ranges.length > 0 ? ranges.join(", ") : "Closed";
+  });
+  return weekly;
+}
+
+/**
+ * Find the exception covering a Dubai date, if any (later entries win on overlap)
+ */
+function findException(hours: HoursModel, date: string): HoursException | undefined {
+  return [...hours.exceptions]
+    .reverse()
+    .find((exception) => exception.startDate <= date && date <= exception.endDate);
+}
+
+/**
+ * Evaluate open status for an hours model at a given timestamp
+ */
+export function getOpenStatusFromHours(hours: HoursModel | undefined, at: number): OpenStatus {
+  if (!hours) {
+    return { isOpen: null, state: "unknown", minutesUntilChange: null, label: null, specialDay: null };
+  }
+
+  const { day, minutes } = toDubaiTime(at);
+  const specialDay = findException(hours, toDubaiDate(at))?.label ?? null;
+
+  // Lay out yesterday, today and tomorrow on one timeline (minutes from today's midnight)
+  // so overnight periods from yesterday and openings just after midnight are both visible.
+  // A dated exception replaces the regular periods for its day.
+  const intervals: Array<[number, number]> = [];
+  for (const offset of [-1, 0, 1]) {
+    const exception = findException(hours, toDubaiDate(at, offset));
+    const dayPeriods = exception
+      ? exception.periods
+      : hours.periods.filter((p) => p.day === (day + offset + 7) % 7);
+    for (const period of dayPeriods) {
+      intervals.push([offset * MINUTES_PER_DAY + period.open, offset * MINUTES_PER_DAY + period.close]);
+    }
+  }
+
+  // Merge touching ranges so "24/7" or "00:00-24:00" never reads as closing at midnight
+  intervals.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const interval of intervals) {
+    const last = merged[merged.length - 1];
+    if (last && interval[0] <= last[1]) {
+      last[1] = Math.max(last[1], interval[1]);
+    } else {
+      merged.push([...interval]);
+    }
+  }
+
+  const current = merged.find(([start, end]) => minutes >= start && minutes < end);
+  if (current) {
+    const untilClose = current[1] - minutes;
+    // A range that runs to the edge of our window is effectively open around the clock
+    if (current[1] >= 2 * MINUTES_PER_DAY) {
+      return { isOpen: true, state: "open", minutesUntilChange: null, label: null, specialDay };
+    }
+    if (untilClose <= SOON_THRESHOLD_MINUTES) {
+      return {
+        isOpen: true,
+        state: "closing_soon",
+        minutesUntilChange: untilClose,
+        label: `Closes in ${untilClose} min`,
+        specialDay,
+      };
+    }
+    return { isOpen: true, state: "open", minutesUntilChange: untilClose, label: null, specialDay };
+  }
+
+  const next = merged.find(([start]) => start > minutes);
+  const untilOpen = next ? next[0] - minutes : null;
+  if (untilOpen !== null && untilOpen <= SOON_THRESHOLD_MINUTES) {
+    return {
+      isOpen: false,
+      state: "opening_soon",
+      minutesUntilChange: untilOpen,
+      label: `Opens in ${untilOpen} min`,
+      specialDay,
+    };
+  }
+  return { isOpen: false, state: "closed", minutesUntilChange: untilOpen, label: null, specialDay };
+}
+
+/**
+ * Load the hours model for a place: the placeHours table first, legacy openingHours as fallback.
+ * Returns undefined if no hours are known (e.g., Google-sourced venues not yet synced)
+ */
+export async function loadPlaceHours(ctx: QueryCtx, place: Doc<"places">): Promise<HoursModel | undefined> {
+  const stored = await ctx.db
+    .query("placeHours")
+    .withIndex("by_place", (q) => q.eq("placeId", place._id))
+    .first();
+
+  if (stored) {
+    return { periods: stored.periods, exceptions: stored.exceptions };
+  }
+  return legacyHoursToModel(place.openingHours);
+}
+
+/**
+ * Evaluate open status for a place at a given timestamp
+ * Returns "unknown" if opening hours are not available
+ */
+export async function getOpenStatus(ctx: QueryCtx, place: Doc<"places">, at: number): Promise<OpenStatus> {
+  return getOpenStatusFromHours(await loadPlaceHours(ctx, place), at);
+}
+
+/**
+ * Create or update the placeHours document for a venue
+ */
+export async function upsertPlaceHours(
+  ctx: MutationCtx,
+  placeId: Id<"places">,
+  updates: { periods?: HoursPeriod[]; exceptions?: HoursException[]; source: string }
+): Promise<Id<"placeHours">> {
+  const existing = await ctx.db
+    .query("placeHours")
+    .withIndex("by_place", (q) => q.eq("placeId", placeId))
+    .first();
+
+  if (existing) {
+    await ctx.db.patch(existing._id, {
+      ...(updates.periods && { periods: updates.periods }),
+      ...(updates.exceptions && { exceptions: updates.exceptions }),
+      source: updates.source,
+      lastUpdated: Date.now(),
+    });
+    return existing._id;
+  }
+
+  return await ctx.db.insert("placeHours", {
+    placeId,
+    periods: updates.periods ?? [],
+    exceptions: updates.exceptions ?? [],
+    source: updates.source,
+    lastUpdated: Date.now(),
+  });
+}
+
+// Named times of day used when a phrase gives no explicit hour
+const TIME_OF_DAY_MINUTES: Record<string, number> = {
+  morning: 9 * 60,
+  breakfast: 8 * 60,
+  brunch: 11 * 60,
+  noon: 12 * 60,
+  lunch: 13 * 60,
+  afternoon: 15 * 60,
+  evening: 19 * 60,
+  dinner: 20 * 60,
+  tonight: 20 * 60,
+  "late night": 23 * 60 + 30,
+  midnight: 24 * 60,
+};
+
+/**
+ * Resolve an "open at" argument (timestamp or phrase) into a timestamp.
+ *
+ * Understands phrases like "now", "today", "tonight at 11", "tomorrow 9am", "friday at 8pm",
+ * "in 2 hours", "lunch", plain clock times and ISO dates, all interpreted in Dubai time
+ * (an ISO string with an explicit offset keeps it).
+ * Returns null for phrases it can't understand so callers can ignore them.
+ */
+export function resolveOpenAt(openAt: number | string | undefined | null, now: number): number | null {
+  if (openAt === undefined || openAt === null) return null;
+  if (typeof openAt === "number") return openAt;
+
+  const phrase = openAt.trim().toLowerCase();
+  if (!phrase) return null;
+  if (phrase === "now" || phrase === "right now") return now;
+
+  // ISO dates and other absolute formats; without a UTC offset they're Dubai wall-clock time
+  const local = phrase.match(/^(\d{4})-(\d{2})-(\d{2})(?:[t ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?$/);
+  if (local) {
+    const [, year, month, date, hours = "0", mins = "0", secs = "0"] = local;
+    const wallClock = new Date(
+      Date.UTC(Number(year), Number(month) - 1, Number(date), Number(hours), Number(mins), Number(secs))
+    );
+    // Date.UTC rolls out-of-range parts over ("2025-13-45" would become February 2026)
+    const valid =
+      wallClock.getUTCMonth() === Number(month) - 1 &&
+      wallClock.getUTCDate() === Number(date) &&
+      wallClock.getUTCHours() === Number(hours) &&
+      wallClock.getUTCMinutes() === Number(mins);
+    return valid ? wallClock.getTime() - DUBAI_UTC_OFFSET_MS : null;
+  }
+  if (/^\d{4}-\d{2}-\d{2}/.test(phrase)) {
+    const parsed = Date.parse(openAt);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+
+  // Relative offsets: "in 30 min", "in 2 hours"
+  const relative = phrase.match(/^in (\d+|an?|half an) ?(min|mins|minutes|hour|hours|hr|hrs)$/);
+  if (relative) {
+    const amount = relative[1] === "half an" ? 0.5 : /^an?$/.test(relative[1]) ? 1 : Number(relative[1]);
+    const unitMs = relative[2].startsWith("h") ? 60 * 60 * 1000 : 60 * 1000;
+    return now + amount * unitMs;
+  }
+
+  const { day: today, minutes: nowMinutes } = toDubaiTime(now);
+
+  // Day: "today", "tomorrow" or a weekday name (next occurrence, today included)
+  let dayOffset: number | null = null;
+  if (/\btoday\b/.test(phrase)) {
+    dayOffset = 0;
+  } else if (/\btomorrow\b/.test(phrase)) {
+    dayOffset = 1;
+  } else {
+    const weekday = DAYS.findIndex((d) => new RegExp(`\\b${d}\\b`).test(phrase));
+    if (weekday >= 0) dayOffset = (weekday - today + 7) % 7;
+  }
+
+  // Clock: "at 11", "11pm", "8:30 am", "23:00"
+  let minutes: number | null = null;
+  const clock = phrase.match(/\b(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\b/);
+  if (clock) {
+    let hours = Number(clock[1]);
+    const mins = Number(clock[2] || 0);
+    const meridiem = clock[3];
+    if (meridiem === "pm" && hours < 12) hours += 12;
+    if (meridiem === "am" && hours === 12) hours = 0;
+    // "tonight at 11" / "this evening at 8" mean PM even without a suffix,
+    // while "tonight at 1" means the small hours after midnight
+    if (!meridiem && hours < 12 && /\b(tonight|evening|night|dinner)\b/.test(phrase)) {
+      hours += hours < 5 ? 24 : 12;
+    }
+    if (hours <= 28 && mins <= 59) minutes = hours * 60 + mins;
+  }
+
+  if (minutes === null) {
+    const named = Object.keys(TIME_OF_DAY_MINUTES).find((name) => phrase.includes(name));
+    if (named) minutes = TIME_OF_DAY_MINUTES[named];
+  }
+
+  if (minutes === null && dayOffset === null) return null;
+
+  // A bare day means "around now" that day; a bare time that already passed today means tomorrow
+  if (minutes === null) minutes = nowMinutes;
+  if (dayOffset === null) dayOffset = minutes < nowMinutes && !/\b(today|tonight)\b/.test(phrase) ? 1 : 0;
+  // ...unless the phrase says today: "tonight" asked at 22:00 means now, not 20:00
+  if (dayOffset === 0 && minutes < nowMinutes) return now;
+
+  return fromDubaiTime(now, dayOffset, minutes);
+}
+
+// ============================================================================
+// Hours Administration
+// ============================================================================
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function validatePeriods(periods: Array<{ day?: number; open: number; close: number }>) {
+  for (const period of periods) {
+    if (period.day !== undefined && (period.day < 0 || period.day > 6 || !Number.isInteger(period.day))) {
+      throw new Error(`Invalid day ${period.day} (expected 0 = Sunday … 6 = Saturday)`);
+    }
+    if (period.open < 0 || period.open >= MINUTES_PER_DAY) {
+      throw new Error(`Invalid opening time ${period.open} (minutes from midnight)`);
+    }
+    if (period.close <= period.open || period.close > 2 * MINUTES_PER_DAY) {
+      throw new Error(`Invalid closing time ${period.close} for opening time ${period.open}`);
+    }
+  }
+}
+
+function validateDateRange(startDate: string, endDate: string) {
+  if (!DATE_PATTERN.test(startDate) || !DATE_PATTERN.test(endDate)) {
+    throw new Error("Dates must be formatted as YYYY-MM-DD");
+  }
+  if (endDate < startDate) {
+    throw new Error("endDate must not be before startDate");
+  }
+}
+
+/**
+ * Get the normalized hours for a venue (with a display-ready weekly view)
+ */
+export const getPlaceHours = query({
+  args: { placeId: v.id("places") },
+  handler: async (ctx, args) => {
+    const place = await ctx.db.get(args.placeId);
+    if (!place) return null;
+
+    const stored = await ctx.db
+      .query("placeHours")
+      .withIndex("by_place", (q) => q.eq("placeId", args.placeId))
+      .first();
+    const hours = await loadPlaceHours(ctx, place);
+    if (!hours) return null;
+
+    return {
+      ...hours,
+      weekly: formatWeeklyHours(hours),
+      source: stored?.source ?? "legacy",
+    };
+  },
+});
+
+/**
+ * Replace a venue's regular weekly periods (manual curation)
+ * Existing exceptions are kept
+ */
+export const setPlaceHours = mutation({
+  args: {
+    placeId: v.id("places"),
+    periods: v.array(hoursPeriodValidator),
+  },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, "curator");
+
+    validatePeriods(args.periods);
+    return await upsertPlaceHours(ctx, args.placeId, { periods: args.periods, source: "manual" });
+  },
+});
+
+/**
+ * Create or update a city-wide special date range (Ramadan, Eid, National Day, ...)
+ */
+export const upsertSpecialDay = mutation({
+  args: {
+    key: v.string(), // e.g. "ramadan-2027"
+    label: v.string(),
+    labelAr: v.optional(v.string()),
+    kind: v.string(), // "ramadan", "eid", "public_holiday"
+    startDate: v.string(),
+    endDate: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, "curator");
+
+    validateDateRange(args.startDate, args.endDate);
+
+    const existing = await ctx.db
+      .query("specialDays")
+      .withIndex("by_key", (q) => q.eq("key", args.key))
+      .first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, args);
+      return existing._id;
+    }
+    return await ctx.db.insert("specialDays", args);
+  },
+});
+
+/**
+ * List special date ranges that haven't ended yet
+ */
+export const listSpecialDays = query({
+  args: {},
+  handler: async (ctx) => {
+    const today = toDubaiDate(Date.now());
+    return await ctx.db
+      .query("specialDays")
+      .withIndex("by_end_date", (q) => q.gte("endDate", today))
+      .collect();
+  },
+});
+
+/**
+ * Apply special hours for a calendar entry to a venue
+ * e.g. Ramadan iftar 18:30-23:00 plus suhoor 23:30-03:00, or [] to close for Eid
+ */
+export const applySpecialDayHours = mutation({
+  args: {
+    placeId: v.id("places"),
+    specialDayKey: v.string(),
+    periods: v.array(exceptionPeriodValidator),
+  },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, "curator");
+
+    validatePeriods(args.periods);
+
+    const specialDay = await ctx.db
+      .query("specialDays")
+      .withIndex("by_key", (q) => q.eq("key", args.specialDayKey))
+      .first();
+    if (!specialDay) {
+      throw new Error(`Special day ${args.specialDayKey} not found`);
+    }
+
+    const place = await ctx.db.get(args.placeId);
+    if (!place) {
+      throw new Error("Place not found");
+    }
+
+    // Start from the current model so legacy hours are carried into the table
+    const current = (await loadPlaceHours(ctx, place)) ?? { periods: [], exceptions: [] };
+    const exceptions = current.exceptions.filter((e) => e.specialDayKey !== args.specialDayKey);
+    exceptions.push({
+      label: specialDay.label,
+      specialDayKey: specialDay.key,
+      startDate: specialDay.startDate,
+      endDate: specialDay.endDate,
+      periods: args.periods,
+    });
+
+    return await upsertPlaceHours(ctx, args.placeId, {
+      periods: current.periods,
+      exceptions,
+      source: "manual",
+    });
+  },
+});
+
+/**
+ * Add a one-off dated exception for a venue (renovation closure, private event, ...)
+ */
+export const addPlaceException = mutation({
+  args: {
+    placeId: v.id("places"),
+    exception: hoursExceptionValidator,
+  },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, "curator");
+
+    validateDateRange(args.exception.startDate, args.exception.endDate);
+    validatePeriods(args.exception.periods);
+
+    const place = await ctx.db.get(args.placeId);
+    if (!place) {
+      throw new Error("Place not found");
+    }
+
+    const current = (await loadPlaceHours(ctx, place)) ?? { periods: [], exceptions: [] };
+    return await upsertPlaceHours(ctx, args.placeId, {
+      periods: current.periods,
+      exceptions: [...current.exceptions, args.exception],
+      source: "manual",
+    });
+  },
+});
+
+/**
+ * Remove a dated exception from a venue
+ */
+export const removePlaceException = mutation({
+  args: {
+    placeId: v.id("places"),
+    label: v.string(),
+    startDate: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, "curator");
+
+    const stored = await ctx.db
+      .query("placeHours")
+      .withIndex("by_place", (q) => q.eq("placeId", args.placeId))
+      .first();
+    if (!stored) return { removed: 0 };
+
+    const exceptions = stored.exceptions.filter(
+      (e) => !(e.label === args.label && e.startDate === args.startDate)
+    );
+    await ctx.db.patch(stored._id, { exceptions, lastUpdated: Date.now() });
+
+    return { removed: stored.exceptions.length - exceptions.length };
+  },
+});
+
+/**
+ * Store regular periods mapped from Google's regularOpeningHours
+ * Keeps manually curated exceptions (Google doesn't know our Ramadan schedules)
+ */
+export const syncGoogleHours = internalMutation({
+  args: {
+    placeId: v.id("places"),
+    periods: v.array(hoursPeriodValidator),
+  },
+  handler: async (ctx, args) => {
+    validatePeriods(args.periods);
+    return await upsertPlaceHours(ctx, args.placeId, { periods: args.periods, source: "google" });
+  },
+});
+
+/**
+ * One-off migration: copy legacy free-text openingHours into the placeHours table
+ * Processes one page per run and reschedules itself until done
+ */
+export const backfillPlaceHours = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+    batchSize: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("places")
+      .paginate({ numItems: args.batchSize ?? 100, cursor: args.cursor ?? null });
+
+    let migrated = 0;
+    for (const place of result.page) {
+      const hours = legacyHoursToModel(place.openingHours);
+      if (!hours) continue;
+
+      const existing = await ctx.db
+        .query("placeHours")
+        .withIndex("by_place", (q) => q.eq("placeId", place._id))
+        .first();
+      if (existing) continue;
+
+      await upsertPlaceHours(ctx, place._id, { ...hours, source: "manual" });
+      migrated++;
+    }
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.openingHours.backfillPlaceHours, {
+        cursor: result.continueCursor,
+        batchSize: args.batchSize,
+      });
+    }
+
+    return { migrated, isDone: result.isDone };
+  },
+});
@@ -0,0 +1,65 @@
+import { describe, expect, test } from "vitest";
+import { normalizeQuery, PARSE_CACHE_TTL_MS, parseCacheKey } from "./parseCache";
+import { dubaiTime } from "./test.setup";
+
+const versions = { promptVersion: "v3", taxonomyVersion: "abc" };
+
+// Monday 17 March 2025, 21:15:30 in Dubai
+const NOW = dubaiTime("2025-03-17T21:15:30");
+
+describe("normalizeQuery", () => {
+  test("case, punctuation, emoji and whitespace don't matter", () => {
+    expect(normalizeQuery("Quiet  cafe ☕!")).toBe("quiet cafe");
+    expect(normalizeQuery("  Kid-friendly, near the Marina?? 🌊 ")).toBe("kid friendly near the marina");
+  });
+
+  test("Arabic diacritics, tatweel and punctuation are dropped", () => {
+    expect(normalizeQuery("مَقْهَى هادئ؟")).toBe("مقهى هادئ");
+    expect(normalizeQuery("كـافيه")).toBe("كافيه");
+  });
+});
+
+describe("parseCacheKey", () => {
+  test("queries without time words keep the default TTL", () => {
+    expect(parseCacheKey("Quiet cafe", NOW, versions)).toEqual({
+      ...versions,
+      query: "quiet cafe",
+      expiresAt: NOW + PARSE_CACHE_TTL_MS,
+    });
+  });
+
+  test("the same query under a new prompt or taxonomy gets a different key", () => {
+    const key = parseCacheKey("quiet cafe", NOW, versions);
+
+    expect(parseCacheKey("quiet cafe", NOW, { ...versions, promptVersion: "v4" })).not.toEqual(key);
+    expect(parseCacheKey("quiet cafe", NOW, { ...versions, taxonomyVersion: "def" })).not.toEqual(key);
+  });
+
+  test("hour words bucket by the Dubai hour and expire at its end", () => {
+    const key = parseCacheKey("cafe open now", NOW, versions);
+
+    expect(key.timeBucket).toBe("hour:2025-03-17T21");
+    expect(key.expiresAt).toBe(dubaiTime("2025-03-17T22:00"));
+    expect(parseCacheKey("cafe open now", dubaiTime("2025-03-17T21:59"), versions).timeBucket).toBe(key.timeBucket);
+  });
+
+  test("day words bucket by the Dubai day and expire at Dubai midnight", () => {
+    const key = parseCacheKey("dinner tonight", NOW, versions);
+
+    expect(key.timeBucket).toBe("day:2025-03-17");
+    expect(key.expiresAt).toBe(dubaiTime("2025-03-18T00:00"));
+    // 02:00 in Dubai is still the previous day in UTC
+    expect(parseCacheKey("dinner tonight", dubaiTime("2025-03-18T02:00"), versions).timeBucket).toBe("day:2025-03-18");
+  });
+
+  test("Arabic time words bucket too", () => {
+    // مقهى الآن (cafe now), مطعم الليلة (restaurant tonight)
+    expect(parseCacheKey("مقهى الآن", NOW, versions).timeBucket).toBe("hour:2025-03-17T21");
+    expect(parseCacheKey("مطعم الليلة", NOW, versions).timeBucket).toBe("day:2025-03-17");
+  });
+
+  test("time words only count as whole words", () => {
+    expect(parseCacheKey("snowy mountain cafe", NOW, versions).timeBucket).toBeUndefined();
+    expect(parseCacheKey("sundays brunch", NOW, versions).timeBucket).toBeUndefined();
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Parse Cache Keys and Metrics
+ *
+ * parseSearchQuery caches parser results through ActionCache (see ai.ts), keyed by the
+ * normalized query: case, whitespace, punctuation, emoji and Arabic diacritics don't matter,
+ * so "Quiet cafe ☕" and "quiet  cafe" share an entry. The prompt version and a fingerprint
+ * of the tag taxonomy are part of the key too, so a new prompt or a retired tag never gets
+ * an old parse back.
+ *
+ * Relative time words would go stale - "now" at 9am isn't "now" at 9pm - so they're resolved
+ * to a time bucket that becomes part of the key: the current Dubai hour for "now", the Dubai
+ * day for "tonight", "tomorrow" or a weekday. The entry expires when its bucket ends.
+ *
+ * Hits and misses are counted per Dubai day in parseCacheStats, spread over a few shard rows
+ * per day since every search records a lookup.
+ */
+
+import { v } from "convex/values";
+import { internalMutation, query } from "./_generated/server";
+import { toDubaiTime } from "./openingHours";
+import { requireRole } from "./users";
+
+// How long a parse without time words stays cached
+export const PARSE_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Counter rows per day; each lookup bumps a random one
+const STATS_SHARDS = 16;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Emoji (astral characters, symbols, variation selectors, joiners)
+const EMOJI = /[\uD800-\uDBFF][\uDC00-\uDFFF]|[\u2600-\u27BF\u2B00-\u2BFF\uFE0F\u200D\u20E3]/g;
+// Arabic diacritics (tashkeel) and tatweel
+const ARABIC_DIACRITICS = /[\u064B-\u065F\u0670\u0640]/g;
+const PUNCTUATION = /[!?.,;:"'()\[\]{}\-_\u060C\u061F\u061B]+/g;
+
+// Words whose meaning depends on the current hour: now, currently, asap, الآن, حالا
+const HOUR_WORDS = /(^| )(now|currently|asap|\u0627\u0644\u0622\u0646|\u062D\u0627\u0644\u0627)( |$)/;
+// ...or on the current day: today, tonight, tomorrow, weekdays, اليوم, الليلة, غدا, بكرة
+const DAY_WORDS =
+  /(^| )(today|tonight|tomorrow|tmrw|later|weekend|this (morning|afternoon|evening)|monday|tuesday|wednesday|thursday|friday|saturday|sunday|\u0627\u0644\u064A\u0648\u0645|\u0627\u0644\u0644\u064A\u0644\u0629|\u063A\u062F\u0627|\u0628\u0643\u0631\u0629)( |$)/;
+
+/**
+ * A query with case, emoji, Arabic diacritics, punctuation and extra whitespace removed
+ */
+export function normalizeQuery(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(EMOJI, " ")
+    .replace(ARABIC_DIACRITICS, "")
+    .replace(PUNCTUATION, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export interface ParseVersions {
+  promptVersion: string; // Parse prompt the result came from
+  taxonomyVersion: string; // taxonomyVersion() of the tags it could use
+}
+
+export interface ParseCacheKey extends ParseVersions {
+  query: string; // Normalized
+  timeBucket?: string; // e.g. "hour:2025-03-14T21", "day:2025-03-14"
+  expiresAt: number; // When the bucket ends (or the default TTL runs out)
+}
+
+/**
+ * Cache key for a query at a given time, parsed with the given prompt and taxonomy
+ */
+export function parseCacheKey(text: string, now: number, versions: ParseVersions): ParseCacheKey {
+  const normalized = normalizeQuery(text);
+  const { minutes, date } = toDubaiTime(now);
+
+  if (HOUR_WORDS.test(normalized)) {
+    // Dubai is a whole number of hours from UTC, so UTC hours line up with Dubai ones
+    return {
+      ...versions,
+      query: normalized,
+      timeBucket: `hour:${date.toISOString().slice(0, 13)}`,
+      expiresAt: now - (now % HOUR_MS) + HOUR_MS,
+    };
+  }
+  if (DAY_WORDS.test(normalized)) {
+    const sinceMidnight = minutes * 60 * 1000 + date.getUTCSeconds() * 1000 + date.getUTCMilliseconds();
+    return {
+      ...versions,
+      query: normalized,
+      timeBucket: `day:${date.toISOString().slice(0, 10)}`,
+      expiresAt: now - sinceMidnight + DAY_MS,
+    };
+  }
+  return { ...versions, query: normalized, expiresAt: now + PARSE_CACHE_TTL_MS };
+}
+
+// ============================================================================
+// Metrics
+// ============================================================================
+
+export const recordLookup = internalMutation({
+  args: {
+    outcome: v.union(v.literal("hit"), v.literal("miss"), v.literal("bypassed")),
+  },
+  handler: async (ctx, args) => {
+    const day = toDubaiTime(Date.now()).date.toISOString().slice(0, 10);
+    const shard = Math.floor(Math.random() * STATS_SHARDS);
+    const stats = await ctx.db
+      .query("parseCacheStats")
+      .withIndex("by_day_shard", (q) => q.eq("day", day).eq("shard", shard))
+      .first();
+
+    const counts = {
+      hits: (stats?.hits ?? 0) + (args.outcome === "hit" ? 1 : 0),
+      misses: (stats?.misses ?? 0) + (args.outcome === "miss" ? 1 : 0),
+      bypassed: (stats?.bypassed ?? 0) + (args.outcome === "bypassed" ? 1 : 0),
+    };
+    if (stats) {
+      await ctx.db.patch(stats._id, counts);
+    } else {
+      await ctx.db.insert("parseCacheStats", { day, shard, ...counts });
+    }
+  },
+});
+
+/**
+ * Daily parse cache hit rates, most recent first (admin)
+ */
+export const getParseCacheStats = query({
+  args: { days: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, "admin");
+
+    const days = args.days ?? 7;
+    const shards = await ctx.db
+      .query("parseCacheStats")
+      .withIndex("by_day_shard")
+      .order("desc")
+      .take(days * STATS_SHARDS);
+
+    // Sum each day's shards
+    const byDay = new Map<string, { hits: number; misses: number; bypassed: number }>();
+    for (const shard of shards) {
+      const totals = byDay.get(shard.day) ?? { hits: 0, misses: 0, bypassed: 0 };
+      totals.hits += shard.hits;
+      totals.misses += shard.misses;
+      totals.bypassed += shard.bypassed;
+      byDay.set(shard.day, totals);
+    }
+
+    return Array.from(byDay.entries())
+      .slice(0, days)
+      .map(([day, stats]) => ({
+        day,
+        ...stats,
+        hitRate: stats.hits + stats.misses > 0 ? stats.hits / (stats.hits + stats.misses) : 0,
+      }));
+  },
+});
@@ -0,0 +1,334 @@
+/**
+ * Golden-Query Eval for parseSearchQuery
+ *
+ * Runs the parser over PARSE_GOLDEN_QUERIES and scores per-field precision/recall for
+ * tags, area, priceLevel, noise and openNow. Modes:
+ * - "mock": fake LLM backend (keyword rules) - checks the harness itself, fully offline
+ * - "record": live model; responses are saved per prompt version for later replay
+ * - "replay": recorded responses only - deterministic, no network, no cost
+ *
+ * Typical prompt change: add a version to PARSE_PROMPT_VERSIONS (ai.ts), record both
+ * versions, then diffParseEvalRuns(base, candidate) for the per-field deltas and
+ * the queries that regressed or got fixed.
+ *
+ *   npx convex run parseEval:runParseEval '{"promptVersion": "v2", "mode": "record"}'
+ */
+
+import { v, Infer } from "convex/values";
+import { internalAction, internalMutation, internalQuery } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { DEFAULT_PARSE_PROMPT_VERSION, parseQuery } from "./ai";
+import { fakeBackend, getTaskConfig, LLMBackend } from "./llm";
+import { GoldenExpectation, PARSE_GOLDEN_QUERIES } from "./parseEvalDataset";
+import { evalCaseValidator, fieldMetricsValidator } from "./schema";
+
+export const EVAL_FIELDS = ["tags", "area", "priceLevel", "noise", "openNow"] as const;
+export type EvalField = (typeof EVAL_FIELDS)[number];
+
+export type FieldMetrics = Infer<typeof fieldMetricsValidator>;
+type EvalCase = Infer<typeof evalCaseValidator>;
+
+const evalModeValidator = v.union(v.literal("mock"), v.literal("record"), v.literal("replay"));
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+// A field as a set of labels, so tags and single-value fields score the same way
+function fieldLabels(field: EvalField, filters: Record<string, any> | null): string[] {
+  const value = filters?.[field];
+  if (field === "tags") {
+    return Array.isArray(value) ? value.map((tag: string) => tag.toLowerCase()) : [];
+  }
+  if (field === "openNow") {
+    return value === true ? ["true"] : [];
+  }
+  return typeof value === "string" ? [value.toLowerCase()] : [];
+}
+
+function expectedFilters(expected: GoldenExpectation): Record<string, any> {
+  return {
+    tags: expected.tags ?? [],
+    area: expected.area ?? null,
+    priceLevel: expected.priceLevel ?? null,
+    noise: expected.noise ?? null,
+    openNow: expected.openNow ?? false,
+  };
+}
+
+/**
+ * True/false positives and false negatives for one field of one case
+ */
+export function scoreField(field: EvalField, expected: Record<string, any>, actual: Record<string, any> | null) {
+  const expectedLabels = new Set(fieldLabels(field, expected));
+  const actualLabels = new Set(fieldLabels(field, actual));
+  const tp = Array.from(actualLabels).filter((label) => expectedLabels.has(label)).length;
+  return { tp, fp: actualLabels.size - tp, fn: expectedLabels.size - tp };
+}
+
+function toMetrics(tp: number, fp: number, fn: number): FieldMetrics {
+  // Nothing predicted / nothing expected counts as perfect rather than undefined
+  const precision = tp + fp === 0 ? 1 : tp / (tp + fp);
+  const recall = tp + fn === 0 ? 1 : tp / (tp + fn);
+  const f1 = precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+  return { tp, fp, fn, precision, recall, f1 };
+}
+
+/**
+ * Per-field precision/recall/F1 over all cases (errored cases count as empty parses)
+ */
+export function aggregateMetrics(cases: EvalCase[]): Record<EvalField, FieldMetrics> {
+  return Object.fromEntries(
+    EVAL_FIELDS.map((field) => {
+      let tp = 0, fp = 0, fn = 0;
+      for (const evalCase of cases) {
+        const counts = scoreField(field, evalCase.expected, evalCase.actual);
+        tp += counts.tp;
+        fp += counts.fp;
+        fn += counts.fn;
+      }
+      return [field, toMetrics(tp, fp, fn)];
+    })
+  ) as Record<EvalField, FieldMetrics>;
+}
+
+// Serves one recorded response for every completion
+function replayBackend(content: string): LLMBackend {
+  return {
+    name: "replay",
+    async complete() {
+      return { content, usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 } };
+    },
+    async embed() {
+      throw new Error("Replay backend only serves recorded completions");
+    },
+  };
+}
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+/**
+ * Run the golden queries through the parser and store the run
+ */
+export const runParseEval = internalAction({
+  args: {
+    promptVersion: v.optional(v.string()),
+    mode: v.optional(evalModeValidator), // default "replay"
+    label: v.optional(v.string()), // free-form note, e.g. "tightened tag rules"
+  },
+  handler: async (ctx, args): Promise<{
+    runId: Id<"parseEvalRuns">;
+    metrics: Record<EvalField, FieldMetrics>;
+    errors: number;
+  }> => {
+    const promptVersion = args.promptVersion ?? DEFAULT_PARSE_PROMPT_VERSION;
+    const mode = args.mode ?? "replay";
+    const model = mode === "mock" ? fakeBackend.name : getTaskConfig("parse").model;
+
+    const cases: EvalCase[] = [];
+    for (const golden of PARSE_GOLDEN_QUERIES) {
+      const expected = expectedFilters(golden.expected);
+
+      let backend: LLMBackend | undefined;
+      if (mode === "mock") {
+        backend = fakeBackend;
+      } else if (mode === "replay") {
+        const recording = await ctx.runQuery(internal.parseEval.getRecording, {
+          promptVersion,
+          query: golden.query,
+        });
+        if (!recording) {
+          cases.push({ query: golden.query, expected, actual: null, error: "No recording - run in record mode first" });
+          continue;
+        }
+        backend = replayBackend(recording.content);
+      }
+
+      const parsed = await parseQuery(ctx, { query: golden.query, promptVersion, backend });
+      if (!parsed.success) {
+        cases.push({ query: golden.query, expected, actual: null, error: parsed.error });
+        continue;
+      }
+
+      if (mode === "record") {
+        await ctx.runMutation(internal.parseEval.saveRecording, {
+          promptVersion,
+          query: golden.query,
+          model,
+          content: JSON.stringify(parsed.result),
+        });
+      }
+
+      cases.push({ query: golden.query, expected, actual: parsed.result.filters });
+    }
+
+    const metrics = aggregateMetrics(cases);
+    const runId: Id<"parseEvalRuns"> = await ctx.runMutation(internal.parseEval.saveRun, {
+      promptVersion,
+      mode,
+      model,
+      label: args.label,
+      metrics,
+      cases,
+    });
+
+    return { runId, metrics, errors: cases.filter((evalCase) => evalCase.error).length };
+  },
+});
+
+export const getRecording = internalQuery({
+  args: { promptVersion: v.string(), query: v.string() },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("parseEvalRecordings")
+      .withIndex("by_prompt_query", (q) => q.eq("promptVersion", args.promptVersion).eq("query", args.query))
+      .first();
+  },
+});
+
+export const saveRecording = internalMutation({
+  args: {
+    promptVersion: v.string(),
+    query: v.string(),
+    model: v.string(),
+    content: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("parseEvalRecordings")
+      .withIndex("by_prompt_query", (q) => q.eq("promptVersion", args.promptVersion).eq("query", args.query))
+      .first();
+
+    // Re-recording replaces the previous response for this prompt version
+    if (existing) {
+      await ctx.db.patch(existing._id, { model: args.model, content: args.content, recordedAt: Date.now() });
+    } else {
+      await ctx.db.insert("parseEvalRecordings", { ...args, recordedAt: Date.now() });
+    }
+  },
+});
+
+export const saveRun = internalMutation({
+  args: {
+    promptVersion: v.string(),
+    mode: v.string(),
+    model: v.string(),
+    label: v.optional(v.string()),
+    metrics: v.record(v.string(), fieldMetricsValidator),
+    cases: v.array(evalCaseValidator),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db.insert("parseEvalRuns", { ...args, createdAt: Date.now() });
+  },
+});
+
+/**
+ * Recent eval runs, newest first (without per-case detail)
+ */
+export const listParseEvalRuns = internalQuery({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const runs = await ctx.db
+      .query("parseEvalRuns")
+      .withIndex("by_created_at")
+      .order("desc")
+      .take(args.limit ?? 20);
+
+    return runs.map(({ cases, ...run }) => ({ ...run, caseCount: cases.length }));
+  },
+});
+
+// ============================================================================
+// Diff report
+// ============================================================================
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const formatDelta = (value: number) => `${value >= 0 ? "+" : ""}${(value * 100).toFixed(1)}`;
+
+/**
+ * Compare two runs: per-field metric deltas, plus the queries whose fields
+ * went from right to wrong (regressions) or wrong to right (fixes)
+ */
+export const diffParseEvalRuns = internalQuery({
+  args: {
+    baseRunId: v.id("parseEvalRuns"),
+    candidateRunId: v.id("parseEvalRuns"),
+  },
+  handler: async (ctx, args) => {
+    const [base, candidate] = await Promise.all([ctx.db.get(args.baseRunId), ctx.db.get(args.candidateRunId)]);
+    if (!base || !candidate) {
+      throw new Error("Eval run not found");
+    }
+
+    const fields = EVAL_FIELDS.map((field) => {
+      const before = base.metrics[field];
+      const after = candidate.metrics[field];
+      return {
+        field,
+        base: before,
+        candidate: after,
+        deltaPrecision: after.precision - before.precision,
+        deltaRecall: after.recall - before.recall,
+        deltaF1: after.f1 - before.f1,
+      };
+    });
+
+    const isCorrect = (field: EvalField, evalCase: EvalCase) => {
+      const { fp, fn } = scoreField(field, evalCase.expected, evalCase.actual);
+      return fp === 0 && fn === 0;
+    };
+
+    type CaseChange = { query: string; field: EvalField; expected: any; base: any; candidate: any };
+    const regressions: CaseChange[] = [];
+    const fixes: CaseChange[] = [];
+    const baseCases = new Map(base.cases.map((evalCase) => [evalCase.query, evalCase]));
+
+    for (const candidateCase of candidate.cases) {
+      const baseCase = baseCases.get(candidateCase.query);
+      if (!baseCase) continue; // Query added after the base run
+
+      for (const field of EVAL_FIELDS) {
+        const wasCorrect = isCorrect(field, baseCase);
+        const nowCorrect = isCorrect(field, candidateCase);
+        if (wasCorrect === nowCorrect) continue;
+
+        const change = {
+          query: candidateCase.query,
+          field,
+          expected: candidateCase.expected[field],
+          base: baseCase.actual?.[field] ?? null,
+          candidate: candidateCase.actual?.[field] ?? null,
+        };
+        (nowCorrect ? fixes : regressions).push(change);
+      }
+    }
+
+    const report = [
+      `## Parse eval: ${base.promptVersion} (${base.mode}) → ${candidate.promptVersion} (${candidate.mode})`,
+      "",
+      "| Field | Precision | Recall | F1 (Δ) |",
+      "| --- | --- | --- | --- |",
+      ...fields.map(
+        (f) =>
+          `| ${f.field} | ${formatPercent(f.base.precision)} → ${formatPercent(f.candidate.precision)} ` +
+          `| ${formatPercent(f.base.recall)} → ${formatPercent(f.candidate.recall)} ` +
+          `| ${formatPercent(f.candidate.f1)} (${formatDelta(f.deltaF1)}) |`
+      ),
+      "",
+      `### Regressions (${regressions.length})`,
+      ...regressions.map(
+        (r) => `- "${r.query}" ${r.field}: expected ${JSON.stringify(r.expected)}, was ${JSON.stringify(r.base)}, now ${JSON.stringify(r.candidate)}`
+      ),
+      "",
+      `### Fixes (${fixes.length})`,
+      ...fixes.map(
+        (f) => `- "${f.query}" ${f.field}: expected ${JSON.stringify(f.expected)}, was ${JSON.stringify(f.base)}, now ${JSON.stringify(f.candidate)}`
+      ),
+    ].join("\n");
+
+    return { fields, regressions, fixes, report };
+  },
+});
@@ -0,0 +1,103 @@
+/**
+ * Golden queries for the parseSearchQuery eval (see parseEval.ts)
+ *
+ * Each case lists the filters a correct parse must produce. Fields left out are
+ * expected at their "not specified" value: no tags, null area/priceLevel/noise, openNow false.
+ * Add a case whenever a real query is parsed wrong, before fixing the prompt.
+ */
+
+export interface GoldenExpectation {
+  tags?: string[];
+  area?: string | null;
+  priceLevel?: string | null;
+  noise?: string | null;
+  openNow?: boolean;
+}
+
+export interface GoldenQuery {
+  query: string;
+  expected: GoldenExpectation;
+}
+
+export const PARSE_GOLDEN_QUERIES: GoldenQuery[] = [
+  {
+    query: "quiet cafe near metro in Marina for kids",
+    expected: { tags: ["kid-friendly", "family-friendly"], area: "Marina", noise: "Quiet" },
+  },
+  {
+    query: "family brunch spot in JBR with outdoor seating",
+    expected: { tags: ["family-friendly", "outdoor"], area: "JBR" },
+  },
+  {
+    query: "cheap breakfast open now in Business Bay",
+    expected: { area: "Business Bay", priceLevel: "Low", openNow: true },
+  },
+  {
+    query: "fancy dinner with a view of the water",
+    expected: { tags: ["waterfront"], priceLevel: "Lux" },
+  },
+  {
+    query: "lively place for drinks in DIFC",
+    expected: { area: "DIFC", noise: "Lively" },
+  },
+  {
+    query: "somewhere indoors with AC, it's too hot outside",
+    expected: { tags: ["indoor"] },
+  },
+  {
+    query: "kid friendly restaurant in Downtown that's open right now",
+    expected: { tags: ["kid-friendly", "family-friendly"], area: "Downtown", openNow: true },
+  },
+  {
+    query: "quiet coffee shop to work from in Al Barsha",
+    expected: { area: "Al Barsha", noise: "Quiet" },
+  },
+  {
+    query: "affordable Indian food in Deira",
+    expected: { area: "Deira", priceLevel: "Low" },
+  },
+  {
+    query: "romantic beachfront dinner on Palm Jumeirah",
+    expected: { tags: ["waterfront"], area: "Palm Jumeirah" },
+  },
+  {
+    query: "mid-range Italian in City Walk",
+    expected: { area: "City Walk", priceLevel: "Mid" },
+  },
+  {
+    query: "terrace cafe in Jumeirah for the weekend",
+    expected: { tags: ["outdoor"], area: "Jumeirah" },
+  },
+  {
+    query: "luxury sushi restaurant",
+    expected: { priceLevel: "Lux" },
+  },
+  {
+    query: "where can I take my parents and kids for lunch by the sea",
+    expected: { tags: ["family-friendly", "kid-friendly", "waterfront"] },
+  },
+  {
+    query: "calm place for a business meeting",
+    expected: { noise: "Quiet" },
+  },
+  {
+    query: "anything open now near me",
+    expected: { openNow: true },
+  },
+  {
+    query: "buzzing rooftop bar in Downtown",
+    expected: { tags: ["outdoor"], area: "Downtown", noise: "Lively" },
+  },
+  {
+    query: "budget shawarma in Deira open now",
+    expected: { area: "Deira", priceLevel: "Low", openNow: true },
+  },
+  {
+    query: "high-end steakhouse in Business Bay",
+    expected: { area: "Business Bay", priceLevel: "High" },
+  },
+  {
+    query: "مقهى هادئ في دبي مارينا",
+    expected: { area: "Marina", noise: "Quiet" },
+  },
+];
@@ -0,0 +1,271 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { api, internal } from "./_generated/api";
+import { dubaiTime, setupSeededTest } from "./test.setup";
+
+const FIRST_PAGE = { numItems: 20, cursor: null };
+
+// A Monday evening in March: mild weather, most venues open
+const MONDAY_EVENING = dubaiTime("2025-03-17T20:00");
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(MONDAY_EVENING);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+function names(places: Array<{ name: string }>): string[] {
+  return places.map((place) => place.name).sort();
+}
+
+describe("searchPlaces filters", () => {
+  test("category", async () => {
+    const t = await setupSeededTest();
+    const result = await t.query(api.places.searchPlaces, { category: "cafe", paginationOpts: FIRST_PAGE });
+
+    expect(names(result.page)).toEqual(["Jones the Grocer", "The Beach House", "The Surf Cafe", "Tom & Serg"]);
+    expect(result.searchIndex).toBe("by_category");
+  });
+
+  test("area ignores case and surrounding whitespace", async () => {
+    const t = await setupSeededTest();
+    for (const area of ["Marina", "marina", " MARINA "]) {
+      const result = await t.query(api.places.searchPlaces, { area, paginationOpts: FIRST_PAGE });
+      expect(names(result.page)).toEqual(["The Surf Cafe"]);
+      expect(result.searchIndex).toBe("by_area_key");
+    }
+  });
+
+  test("places written before area keys are found by area until the backfill keys them", async () => {
+    const t = await setupSeededTest();
+    const legacyId = await t.run(async (ctx) => {
+      const surfCafe = await ctx.db.query("places").filter((q) => q.eq(q.field("name"), "The Surf Cafe")).first();
+      const { _id, _creationTime, areaKey, searchText, ...place } = surfCafe!;
+      return await ctx.db.insert("places", { ...place, name: "Marina Legacy Cafe" });
+    });
+
+    const before = await t.query(api.places.searchPlaces, { area: "marina", paginationOpts: FIRST_PAGE });
+    expect(names(before.page)).toEqual(["Marina Legacy Cafe", "The Surf Cafe"]);
+
+    await t.mutation(internal.places.backfillSearchText, {});
+    const legacy = await t.run((ctx) => ctx.db.get(legacyId));
+    expect(legacy?.areaKey).toBe("marina");
+    const named = await t.query(api.places.searchPlaces, { query: "Marina Legacy", paginationOpts: FIRST_PAGE });
+    expect(named.page[0].name).toBe("Marina Legacy Cafe");
+  });
+
+  test("metro, price and tags combine", async () => {
+    const t = await setupSeededTest();
+    const result = await t.query(api.places.searchPlaces, {
+      nearMetro: true,
+      priceLevel: "Mid",
+      tags: ["outdoor"],
+      paginationOpts: FIRST_PAGE,
+    });
+
+    expect(names(result.page)).toEqual(["Al Mansour Dhow", "The Beach House", "The Surf Cafe"]);
+  });
+
+  test("cuisine ignores case", async () => {
+    const t = await setupSeededTest();
+    const result = await t.query(api.places.searchPlaces, { cuisine: ["indian"], paginationOpts: FIRST_PAGE });
+
+    expect(names(result.page)).toEqual(["Ravi Restaurant", "Zafran Indian Bistro"]);
+  });
+
+  test("minimum rating and noise", async () => {
+    const t = await setupSeededTest();
+    const result = await t.query(api.places.searchPlaces, {
+      minRating: 4.5,
+      noise: "Quiet",
+      paginationOpts: FIRST_PAGE,
+    });
+
+    expect(names(result.page)).toEqual(["Armani/Ristorante", "Jones the Grocer", "Zafran Indian Bistro"]);
+  });
+
+  test("filtered pages come back full until the index runs out", async () => {
+    const t = await setupSeededTest();
+    const args = { tags: ["indoor"], paginationOpts: { numItems: 4, cursor: null as string | null } };
+
+    const first = await t.query(api.places.searchPlaces, args);
+    expect(first.page).toHaveLength(4);
+    expect(first.isDone).toBe(false);
+
+    const second = await t.query(api.places.searchPlaces, {
+      ...args,
+      paginationOpts: { numItems: 4, cursor: first.continueCursor },
+    });
+    expect(second.page).toHaveLength(2);
+
+    expect(names([...first.page, ...second.page])).toEqual([
+      "Armani/Ristorante",
+      "Jones the Grocer",
+      "Ravi Restaurant",
+      "Social House",
+      "Tom & Serg",
+      "Zafran Indian Bistro",
+    ]);
+  });
+});
+
+describe("open hours", () => {
+  test("open now uses the current Dubai time", async () => {
+    const t = await setupSeededTest();
+    const result = await t.query(api.places.searchPlaces, {
+      category: "cafe",
+      openNow: true,
+      paginationOpts: FIRST_PAGE,
+    });
+
+    // Tom & Serg closes at 17:00
+    expect(names(result.page)).toEqual(["Jones the Grocer", "The Beach House", "The Surf Cafe"]);
+    expect(result.page.every((place) => place.reasons.includes("Open now"))).toBe(true);
+  });
+
+  test("overnight hours carry into the next morning", async () => {
+    const t = await setupSeededTest();
+
+    // Ravi's Sunday hours run to 3am Monday; Social House closes at midnight on Sundays
+    const mondayNight = await t.query(api.places.searchPlaces, {
+      openAt: dubaiTime("2025-03-17T02:00"),
+      paginationOpts: FIRST_PAGE,
+    });
+    expect(names(mondayNight.page)).toEqual(["Ravi Restaurant"]);
+
+    // ...but runs to 2am after Fridays
+    const saturdayNight = await t.query(api.places.searchPlaces, {
+      openAt: dubaiTime("2025-03-22T01:00"),
+      paginationOpts: FIRST_PAGE,
+    });
+    expect(names(saturdayNight.page)).toEqual(["Ravi Restaurant", "Social House"]);
+  });
+
+  test("split shifts are closed in the afternoon break", async () => {
+    const t = await setupSeededTest();
+
+    const afternoon = await t.query(api.places.searchPlaces, {
+      cuisine: ["Indian"],
+      openAt: "2025-03-17T16:00",
+      paginationOpts: FIRST_PAGE,
+    });
+    expect(names(afternoon.page)).toEqual(["Ravi Restaurant"]);
+
+    const evening = await t.query(api.places.searchPlaces, {
+      cuisine: ["Indian"],
+      openAt: "2025-03-17T19:00",
+      paginationOpts: FIRST_PAGE,
+    });
+    expect(names(evening.page)).toEqual(["Ravi Restaurant", "Zafran Indian Bistro"]);
+  });
+
+  test("a time window needs the venue open at both ends", async () => {
+    const t = await setupSeededTest();
+    const result = await t.query(api.places.searchPlaces, {
+      category: "cafe",
+      openAt: "2025-03-17T21:00",
+      openUntil: "2025-03-17T22:30",
+      paginationOpts: FIRST_PAGE,
+    });
+
+    // The Surf Cafe closes at 22:00
+    expect(names(result.page)).toEqual(["Jones the Grocer", "The Beach House"]);
+  });
+
+  test("a time phrase resolves against the current Dubai day", async () => {
+    const t = await setupSeededTest();
+    const result = await t.query(api.places.searchPlaces, {
+      category: "cafe",
+      openAt: "tomorrow at 7:30am",
+      paginationOpts: FIRST_PAGE,
+    });
+
+    // Tuesday 7:30: The Beach House opens at 8
+    expect(result.openAt).toBe(dubaiTime("2025-03-18T07:30"));
+    expect(names(result.page)).toEqual(["Jones the Grocer", "The Surf Cafe", "Tom & Serg"]);
+  });
+});
+
+describe("ranking", () => {
+  const guestId = "user-1700000000000-abc123";
+
+  test("learned preferences boost matching venues", async () => {
+    const t = await setupSeededTest();
+    const args = { category: "cafe", guestId, paginationOpts: FIRST_PAGE };
+
+    const before = await t.query(api.places.searchPlaces, args);
+    expect(before.page[0].name).not.toBe("The Beach House");
+
+    await t.run(async (ctx) => {
+      await ctx.db.insert("userPreferences", {
+        userId: guestId,
+        preferredTags: [{ tag: "kid-friendly", count: 12 }],
+        preferredPriceLevel: "Mid",
+        preferredAreas: [],
+        memoryEnabled: true,
+        language: "en",
+        lastActive: Date.now(),
+      });
+    });
+
+    const after = await t.query(api.places.searchPlaces, args);
+    const beachHouse = after.page.find((place) => place.name === "The Beach House")!;
+    const preferences = beachHouse.scoreBreakdown.filter((entry) => entry.signal === "preferences");
+
+    // The tag bonus is capped at 20, plus 10 for the usual price level
+    expect(preferences.map((entry) => entry.contribution)).toEqual([20, 10]);
+    expect(after.page.findIndex((place) => place.name === "The Beach House")).toBeLessThan(
+      before.page.findIndex((place) => place.name === "The Beach House")
+    );
+  });
+
+  test("preferences are ignored with memory off", async () => {
+    const t = await setupSeededTest();
+    await t.run(async (ctx) => {
+      await ctx.db.insert("userPreferences", {
+        userId: guestId,
+        preferredTags: [{ tag: "kid-friendly", count: 12 }],
+        preferredAreas: [],
+        memoryEnabled: false,
+        language: "en",
+        lastActive: Date.now(),
+      });
+    });
+
+    const result = await t.query(api.places.searchPlaces, { category: "cafe", guestId, paginationOpts: FIRST_PAGE });
+    expect(result.page.flatMap((place) => place.scoreBreakdown).some((entry) => entry.signal === "preferences")).toBe(
+      false
+    );
+  });
+
+  test("a query naming a venue makes it the best match", async () => {
+    const t = await setupSeededTest();
+    const result = await t.query(api.places.searchPlaces, { query: "ravi", paginationOpts: FIRST_PAGE });
+
+    expect(result.searchIndex).toBe("search_text");
+    expect(result.bestMatch?.name).toBe("Ravi Restaurant");
+    expect(result.page[0].name).toBe("Ravi Restaurant");
+    expect(result.page.filter((place) => place.isBestMatch)).toHaveLength(1);
+  });
+
+  test("no best match without a clear lead", async () => {
+    const t = await setupSeededTest();
+    const result = await t.query(api.places.searchPlaces, { category: "cafe", paginationOpts: FIRST_PAGE });
+
+    const [first, second] = result.page;
+    expect(first.score - second.score).toBeLessThanOrEqual(15);
+    expect(result.bestMatch).toBeNull();
+    expect(result.page.some((place) => place.isBestMatch)).toBe(false);
+  });
+
+  test("results are sorted by score", async () => {
+    const t = await setupSeededTest();
+    const result = await t.query(api.places.searchPlaces, { paginationOpts: FIRST_PAGE });
+
+    expect(result.page).toHaveLength(10);
+    const scores = result.page.map((place) => place.score);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+  });
+});
@@ -1,70 +1,203 @@
 import { v } from "convex/values";
-import { query, mutation, internalMutation } from "./_generated/server";
+import { paginationOptsValidator, PaginationResult } from "convex/server";
+import { mergedStream, stream, QueryStream } from "convex-helpers/server/stream";
+import { query, mutation, internalMutation, QueryCtx } from "./_generated/server";
 import { Doc } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import schema from "./schema";
+import {
+  formatDubaiClock,
+  formatWeeklyHours,
+  getOpenStatus,
+  getOpenStatusFromHours,
+  loadPlaceHours,
+  OpenStatus,
+  resolveOpenAt,
+  upsertPlaceHours,
+  legacyHoursToModel,
+} from "./openingHours";
+import { getWeatherContext } from "./weather";
+import { addContribution, getScoringWeights, ScoreContribution, totalScore } from "./scoring";
+import { failsIntent, scoreIntent } from "./searchIntent";
+import { loadTagTaxonomy, placeHasTag, validateTags } from "./tagTaxonomy";
+import { getUserKey, requireRole } from "./users";
+
+// Calculate distance between two coordinates in km (haversine)
+export function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371; // Earth's radius in km
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLon = (lon2 - lon1) * Math.PI / 180;
+  const a =
+    Math.sin(dLat/2) * Math.sin(dLat/2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLon/2) * Math.sin(dLon/2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
+  return R * c;
+}
 
-// Helper to check if a place is open at a given time
-// Returns null if opening hours are not available (e.g., Google-sourced venues without stored hours)
-function isOpenAt(place: Doc<"places">, time: Date): boolean | null {
-  // If no opening hours stored, return null (fetch from Google in real-time)
-  if (!place.openingHours) {
-    return null;
-  }
-
-  const days = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
-  const dayName = days[time.getDay()] as keyof typeof place.openingHours;
-  const hours = place.openingHours[dayName];
+/**
+ * Key area filters match on, so "dubai marina" finds venues in "Dubai Marina"
+ * Must be set on every write that touches area
+ */
+export function toAreaKey(area: string): string {
+  return area.trim().toLowerCase();
+}
 
-  if (hours === "Closed" || hours === "closed") return false;
-  if (hours === "24/7") return true;
+/**
+ * Places in an area, newest first
+ * Rows written before area keys existed have none until backfillSearchText reaches them,
+ * so those are read too and matched on their area name
+ */
+export function placesInArea(ctx: QueryCtx, area: string): QueryStream<Doc<"places">> {
+  const areaKey = toAreaKey(area);
+  const keyed = stream(ctx.db, schema)
+    .query("places")
+    .withIndex("by_area_key", q => q.eq("areaKey", areaKey))
+    .order("desc");
+  const unkeyed = stream(ctx.db, schema)
+    .query("places")
+    .withIndex("by_area_key", q => q.eq("areaKey", undefined))
+    .order("desc")
+    .filterWith(async place => toAreaKey(place.area) === areaKey);
+  return mergedStream([keyed, unkeyed], ["_creationTime"]);
+}
 
-  // Parse hours like "8:00-22:00" or "8:00-14:00, 17:00-23:00"
-  const currentHour = time.getHours();
-  const currentMinute = time.getMinutes();
-  const currentTime = currentHour * 60 + currentMinute;
+// ============================================================================
+// Keyword search
+// ============================================================================
 
-  const ranges = hours.split(",").map(r => r.trim());
-  for (const range of ranges) {
-    const [start, end] = range.split("-");
-    if (!start || !end) continue;
+// Keyword hits considered per search, in search-index relevance order
+const LEXICAL_CANDIDATES = 25;
 
-    const [startHour, startMin] = start.split(":").map(Number);
-    const [endHour, endMin] = end.split(":").map(Number);
+interface LexicalMatch {
+  place: Doc<"places">;
+  rank: number; // 1-based relevance rank from the search index
+  field: "name" | "text"; // matched the venue name, or only highlights/summary
+}
 
-    const startTime = startHour * 60 + startMin;
-    const endTime = endHour * 60 + endMin;
+/**
+ * Text indexed by search_text (a Convex search index covers a single field)
+ * Must be rebuilt on every write that touches name, nameAr, highlights or googleSummary
+ */
+export function buildSearchText(place: {
+  name: string;
+  nameAr?: string;
+  highlights: string;
+  googleSummary?: string;
+}): string {
+  return [place.name, place.nameAr, place.highlights, place.googleSummary].filter(Boolean).join("\n");
+}
 
-    if (currentTime >= startTime && currentTime <= endTime) {
-      return true;
-    }
-  }
+// Lowercased Latin/Arabic words with Arabic diacritics (tashkeel) stripped
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[\u064B-\u065F\u0670]/g, "")
+    .split(/[^a-z0-9\u00C0-\u024F\u0600-\u06FF]+/)
+    .filter(Boolean);
+}
 
-  return false;
+// Every query word is a prefix of a word in the English or Arabic name ("arabian te" -> "Arabian Tea House")
+function matchesName(place: Doc<"places">, queryTokens: string[]): boolean {
+  const nameTokens = tokenize(`${place.name} ${place.nameAr ?? ""}`);
+  return queryTokens.length > 0 && queryTokens.every(token => nameTokens.some(word => word.startsWith(token)));
 }
 
-// Calculate distance between two coordinates (simplified)
-function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371; // Earth's radius in km
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLon = (lon2 - lon1) * Math.PI / 180;
-  const a =
-    Math.sin(dLat/2) * Math.sin(dLat/2) +
-    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-    Math.sin(dLon/2) * Math.sin(dLon/2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-  return R * c;
+/**
+ * Keyword matches for a text query, most relevant first
+ * The search index prefix-matches the last word, so partially typed input works
+ */
+async function findLexicalMatches(ctx: QueryCtx, text: string, limit: number): Promise<LexicalMatch[]> {
+  const queryTokens = tokenize(text);
+  const hits = await ctx.db
+    .query("places")
+    .withSearchIndex("search_text", q => q.search("searchText", text))
+    .take(limit);
+
+  return hits.map((place, index) => ({
+    place,
+    rank: index + 1,
+    field: matchesName(place, queryTokens) ? "name" : "text",
+  }));
 }
 
-// Get current weather context (simplified - in production would use real weather API)
-function getWeatherContext(month: number): { temp: string; outdoor: boolean } {
-  // Dubai is pleasant outdoors Oct-Mar (months 10,11,12,1,2,3)
-  const isPleasant = month >= 10 || month <= 3;
+// Most rows an index-backed page reads looking for matches (places rows carry embeddings)
+const MAX_ROWS_READ_PER_PAGE = 400;
+// Text index hits a query that names a venue pages through
+const TEXT_INDEX_CANDIDATES = 100;
+
+// Pick the most selective index for the given filters.
+// Equality indexes (area, category, metro) narrow the scan the most; everything
+// else falls back to the rating index so pages come back best-rated first.
+function buildIndexedQuery(
+  ctx: QueryCtx,
+  args: { area?: string; category?: string; nearMetro?: boolean; minRating?: number }
+): { query: QueryStream<Doc<"places">>; index: string } {
+  const table = stream(ctx.db, schema).query("places");
+
+  if (args.area) {
+    return { query: placesInArea(ctx, args.area), index: "by_area_key" };
+  }
+
+  if (args.category) {
+    return {
+      query: table.withIndex("by_category", q => q.eq("category", args.category!.toLowerCase())).order("desc"),
+      index: "by_category",
+    };
+  }
+
+  if (args.nearMetro === true) {
+    return {
+      query: table.withIndex("by_near_metro", q => q.eq("nearMetro", true)).order("desc"),
+      index: "by_near_metro",
+    };
+  }
+
   return {
-    temp: isPleasant ? "pleasant" : "hot",
-    outdoor: isPleasant,
+    query: table
+      .withIndex("by_rating", q => (args.minRating !== undefined ? q.gte("rating", args.minRating) : q))
+      .order("desc"),
+    index: "by_rating",
   };
 }
 
+/**
+ * A page of a venue-name query from the text index, in relevance order
+ * Search results can't be streamed, so the cursor is an offset into the top hits
+ */
+async function textIndexPage(
+  ctx: QueryCtx,
+  args: { area?: string; category?: string; nearMetro?: boolean; priceLevel?: string },
+  text: string,
+  paginationOpts: { numItems: number; cursor: string | null },
+  matches: (place: Doc<"places">) => Promise<boolean>
+): Promise<PaginationResult<Doc<"places">>> {
+  const hits = await ctx.db
+    .query("places")
+    .withSearchIndex("search_text", q => {
+      let search = q.search("searchText", text);
+      if (args.area) search = search.eq("areaKey", toAreaKey(args.area));
+      if (args.category) search = search.eq("category", args.category.toLowerCase());
+      if (args.nearMetro === true) search = search.eq("nearMetro", true);
+      if (args.priceLevel) search = search.eq("priceLevel", args.priceLevel);
+      return search;
+    })
+    .take(TEXT_INDEX_CANDIDATES);
+
+  const page: Doc<"places">[] = [];
+  let next = paginationOpts.cursor ? parseInt(paginationOpts.cursor, 10) : 0;
+  while (next < hits.length && page.length < paginationOpts.numItems) {
+    if (await matches(hits[next])) {
+      page.push(hits[next]);
+    }
+    next++;
+  }
+  return { page, isDone: next >= hits.length, continueCursor: String(next) };
+}
+
 // Search places with filters and context
+// Paginated: each page is read from the most selective index, filtered and scored
+// on its own, so "load more" never re-scores the whole table.
 export const searchPlaces = query({
   args: {
     query: v.optional(v.string()),
@@ -77,135 +210,197 @@ export const searchPlaces = query({
     cuisine: v.optional(v.array(v.string())),
     noise: v.optional(v.string()),
     openNow: v.optional(v.boolean()),
+    openAt: v.optional(v.union(v.number(), v.string())), // Timestamp or phrase like "tonight at 11"
+    openUntil: v.optional(v.union(v.number(), v.string())), // Must still be open then (end of the time window)
+    // Parsed intent, matched against Google attributes (see searchIntent.ts)
+    partySize: v.optional(v.number()),
+    occasion: v.optional(v.string()), // "date", "business", "birthday", "celebration"
+    dietary: v.optional(v.array(v.string())), // "halal", "vegetarian", "vegan", "gluten-free"
+    budgetPerPerson: v.optional(v.number()), // AED
+    seating: v.optional(v.string()), // "indoor", "outdoor", "sofa", "high-chair"
     userLat: v.optional(v.number()),
     userLon: v.optional(v.number()),
-    userId: v.optional(v.string()),
+    guestId: v.optional(v.string()), // Ignored once signed in
+    scoringProfile: v.optional(v.string()), // Defaults to the "default" profile
+    paginationOpts: paginationOptsValidator,
   },
   handler: async (ctx, args) => {
-    let places = await ctx.db.query("places").collect();
+    // Keyword matches are a ranking signal; only a query that names a venue
+    // ("arabian tea") switches to the text index - "quiet cafe for kids" keeps the filter index
+    const text = args.query?.trim();
+    const lexicalMatches = text ? await findLexicalMatches(ctx, text, LEXICAL_CANDIDATES) : [];
+    const lexicalById = new Map(lexicalMatches.map(match => [match.place._id, match]));
+    const namesVenue = lexicalMatches.some(match => match.field === "name");
 
     const now = new Date();
-    const currentMonth = now.getMonth() + 1;
-    const weather = getWeatherContext(currentMonth);
-
-    // Apply filters
-    if (args.category) {
-      places = places.filter(p => p.category.toLowerCase() === args.category!.toLowerCase());
-    }
-
-    if (args.tags && args.tags.length > 0) {
-      places = places.filter(p =>
-        args.tags!.some(tag => p.tags.map(t => t.toLowerCase()).includes(tag.toLowerCase()))
-      );
-    }
-
-    if (args.priceLevel) {
-      places = places.filter(p => p.priceLevel === args.priceLevel);
-    }
-
-    if (args.area) {
-      places = places.filter(p => p.area.toLowerCase() === args.area!.toLowerCase());
-    }
-
-    if (args.nearMetro === true) {
-      places = places.filter(p => p.nearMetro);
-    }
-
-    if (args.minRating !== undefined) {
-      places = places.filter(p => p.rating >= args.minRating!);
-    }
-
-    if (args.cuisine && args.cuisine.length > 0) {
-      places = places.filter(p =>
-        args.cuisine!.some(c => p.cuisine.map(pc => pc.toLowerCase()).includes(c.toLowerCase()))
-      );
-    }
-
-    if (args.noise) {
-      places = places.filter(p => p.noise === args.noise);
-    }
+    const weather = await getWeatherContext(ctx);
+    const badWeather = weather.rain || weather.dust || weather.sandstorm;
+
+    // "Open at" wins over "open now"; unparseable phrases fall back to the openNow flag
+    const openAt = resolveOpenAt(args.openAt, now.getTime());
+    const evaluateAt = openAt ?? now.getTime();
+    const requireOpen = openAt !== null || args.openNow === true;
+    // A time window's end counts from its start ("7pm to 9")
+    const openUntil = resolveOpenAt(args.openUntil, evaluateAt);
+
+    // Every filter is checked row by row while the page is read, so a page only comes back
+    // short once the index runs out (or the row budget does)
+    // A tag also matches venues whose Google attributes imply it (outdoorSeating -> outdoor)
+    const taxonomy = await loadTagTaxonomy(ctx);
+    const openStatuses = new Map<string, OpenStatus>();
+    const matchesFilters = async (place: Doc<"places">): Promise<boolean> => {
+      if (args.category && place.category !== args.category.toLowerCase()) return false;
+      if (args.nearMetro === true && !place.nearMetro) return false;
+      if (args.minRating !== undefined && place.rating < args.minRating) return false;
+      if (args.priceLevel && place.priceLevel !== args.priceLevel) return false;
+      if (args.noise && place.noise !== args.noise) return false;
+      if (args.tags && args.tags.length > 0 && !args.tags.some(tag => placeHasTag(place, tag, taxonomy))) {
+        return false;
+      }
+      if (
+        args.cuisine &&
+        args.cuisine.length > 0 &&
+        !args.cuisine.some(c => place.cuisine.map(pc => pc.toLowerCase()).includes(c.toLowerCase()))
+      ) {
+        return false;
+      }
+      if (failsIntent(place, args)) return false;
+
+      // Evaluate hours once per place through the normalized hours model
+      // Only confirmed open places pass an open filter, unknowns (null) don't
+      const openStatus = await getOpenStatus(ctx, place, evaluateAt);
+      if (requireOpen && openStatus.isOpen !== true) return false;
+      if (openUntil !== null && openUntil > evaluateAt && (await getOpenStatus(ctx, place, openUntil)).isOpen !== true) {
+        return false;
+      }
+      openStatuses.set(place._id, openStatus);
+      return true;
+    };
 
-    if (args.openNow) {
-      places = places.filter(p => {
-        const open = isOpenAt(p, now);
-        return open === true; // Only include confirmed open places, skip unknowns (null)
+    let page: PaginationResult<Doc<"places">>;
+    let index = "search_text";
+    if (namesVenue) {
+      page = await textIndexPage(ctx, args, text!, args.paginationOpts, matchesFilters);
+    } else {
+      const indexed = buildIndexedQuery(ctx, args);
+      index = indexed.index;
+      page = await indexed.query.filterWith(matchesFilters).paginate({
+        cursor: args.paginationOpts.cursor,
+        numItems: args.paginationOpts.numItems,
+        maximumRowsRead: MAX_ROWS_READ_PER_PAGE,
       });
     }
+    const places = page.page;
 
-    // Get user preferences if userId provided
+    // Get user preferences for the signed-in user or guest
     let userPrefs = null;
-    if (args.userId) {
+    const userId = await getUserKey(ctx, args.guestId);
+    if (userId) {
       userPrefs = await ctx.db
         .query("userPreferences")
-        .withIndex("by_user", q => q.eq("userId", args.userId!))
+        .withIndex("by_user", q => q.eq("userId", userId))
         .first();
     }
 
+    const scoring = await getScoringWeights(ctx, args.scoringProfile);
+    const weights = scoring.weights;
+
     // Calculate scores and add metadata
+    // Every signal lands in the breakdown; the score is its sum
     const scoredPlaces = places.map(place => {
-      let score = 0;
+      const breakdown: ScoreContribution[] = [];
       const reasons: string[] = [];
 
       // Base score from rating
-      score += place.rating * 20;
+      addContribution(breakdown, "rating", `Rated ${place.rating.toFixed(1)}`, place.rating * weights.ratingMultiplier);
+
+      // Keyword match (name hits outrank mentions in highlights/summary, which fade with relevance rank)
+      const lexical = lexicalById.get(place._id);
+      if (lexical?.field === "name") {
+        addContribution(breakdown, "text_match", `Name matches "${text}"`, weights.nameMatchBonus);
+      } else if (lexical) {
+        addContribution(
+          breakdown,
+          "text_match",
+          `Mentions "${text}"`,
+          weights.textMatchBonus * (1 - (lexical.rank - 1) / LEXICAL_CANDIDATES)
+        );
+      }
 
       // Distance bonus (if user location provided)
       let distance = 0;
       if (args.userLat !== undefined && args.userLon !== undefined) {
         distance = calculateDistance(args.userLat, args.userLon, place.latitude, place.longitude);
-        if (distance < 2) {
-          score += 30;
+        if (distance < weights.nearbyRadiusKm) {
+          addContribution(breakdown, "distance", `${distance.toFixed(1)} km away`, weights.nearbyBonus);
           reasons.push("Nearby");
-        } else if (distance < 5) {
-          score += 15;
+        } else if (distance < weights.closeRadiusKm) {
+          addContribution(breakdown, "distance", `${distance.toFixed(1)} km away`, weights.closeBonus);
         }
       }
 
-      // Open now bonus
-      const isOpen = isOpenAt(place, now);
-      if (isOpen && args.openNow) {
-        score += 25;
-        reasons.push("Open now");
+      // Open now / open at bonus
+      const openStatus = openStatuses.get(place._id)!;
+      const isOpen = openStatus.isOpen;
+      if (isOpen && requireOpen) {
+        const openLabel = openAt !== null ? `Open at ${formatDubaiClock(openAt)}` : "Open now";
+        addContribution(breakdown, "open", openLabel, weights.openBonus);
+        reasons.push(openLabel);
       }
 
-      // Weather context bonus
-      if (weather.outdoor && place.tags.includes("outdoor")) {
-        score += 20;
+      // Weather context bonus (rain, dust and sandstorms push harder towards indoor venues)
+      if (weather.outdoor && placeHasTag(place, "outdoor", taxonomy)) {
+        addContribution(breakdown, "weather", "Outdoor seating in good weather", weights.outdoorWeatherBonus);
         reasons.push("Outdoor");
-      } else if (!weather.outdoor && place.tags.includes("indoor")) {
-        score += 15;
-        reasons.push("Indoor");
+      } else if (!weather.outdoor && placeHasTag(place, "indoor", taxonomy)) {
+        addContribution(
+          breakdown,
+          "weather",
+          badWeather ? `Indoor during ${weather.condition}` : "Indoor in the heat",
+          badWeather ? weights.indoorBadWeatherBonus : weights.indoorWeatherBonus
+        );
+        reasons.push(badWeather ? `Indoor (${weather.condition})` : "Indoor");
+      } else if (badWeather && placeHasTag(place, "outdoor", taxonomy)) {
+        addContribution(breakdown, "weather", `Outdoor during ${weather.condition}`, -weights.outdoorBadWeatherPenalty);
       }
 
       // Near Metro bonus
       if (place.nearMetro) {
         if (args.nearMetro) {
-          score += 20;
+          addContribution(breakdown, "metro", `Near ${place.metroStation} Metro`, weights.metroRequestedBonus);
           reasons.push(`Near ${place.metroStation} Metro`);
         } else {
-          score += 5;
+          addContribution(breakdown, "metro", `Near ${place.metroStation} Metro`, weights.metroBonus);
         }
       }
 
+      // Party size, occasion, dietary needs, budget and seating
+      scoreIntent(place, args, weights, breakdown, reasons);
+
       // User preference bonus
       if (userPrefs && userPrefs.memoryEnabled) {
         const matchedTags = userPrefs.preferredTags.filter(pt =>
           place.tags.includes(pt.tag)
         );
         matchedTags.forEach(mt => {
-          score += Math.min(mt.count * 2, 20);
+          addContribution(
+            breakdown,
+            "preferences",
+            `You often pick ${mt.tag}`,
+            Math.min(mt.count * weights.preferredTagPerSelection, weights.preferredTagCap)
+          );
         });
 
         if (userPrefs.preferredPriceLevel === place.priceLevel) {
-          score += 10;
+          addContribution(breakdown, "preferences", `Your usual ${place.priceLevel} price`, weights.preferredPriceBonus);
         }
       }
 
       // Add matched filter tags to reasons
       if (args.tags) {
         args.tags.forEach(tag => {
-          if (place.tags.includes(tag)) {
-            const formatted = tag.charAt(0).toUpperCase() + tag.slice(1);
+          if (placeHasTag(place, tag, taxonomy)) {
+            const formatted = taxonomy.find(definition => definition.slug === tag)?.label ?? tag;
             if (!reasons.includes(formatted)) {
               reasons.push(formatted);
             }
@@ -218,9 +413,11 @@ export const searchPlaces = query({
 
       return {
         ...place,
-        score,
+        score: totalScore(breakdown),
+        scoreBreakdown: breakdown,
         distance,
         isOpen,
+        openStatus,
         reasons: reasons.join(" • "),
       };
     });
@@ -228,16 +425,28 @@ export const searchPlaces = query({
     // Sort by score
     scoredPlaces.sort((a, b) => b.score - a.score);
 
-    // Determine best match (if top result has significantly higher score)
+    // Determine best match on the first page only (if top result has significantly higher score)
     let bestMatch = null;
-    if (scoredPlaces.length > 0 && scoredPlaces[0].score > (scoredPlaces[1]?.score || 0) + 15) {
+    const isFirstPage = args.paginationOpts.cursor === null;
+    if (
+      isFirstPage &&
+      scoredPlaces.length > 0 &&
+      scoredPlaces[0].score > (scoredPlaces[1]?.score || 0) + weights.bestMatchMargin
+    ) {
       bestMatch = scoredPlaces[0];
     }
 
     return {
-      places: scoredPlaces.slice(0, 10), // Top 10 results
+      page: scoredPlaces.map(place => ({
+        ...place,
+        isBestMatch: bestMatch !== null && place._id === bestMatch._id,
+      })),
+      isDone: page.isDone,
+      continueCursor: page.continueCursor,
       bestMatch,
-      totalCount: scoredPlaces.length,
+      searchIndex: index,
+      scoringProfile: scoring.name,
+      openAt,
       weatherContext: weather,
     };
   },
@@ -245,18 +454,23 @@ export const searchPlaces = query({
 
 // Get a single place by ID
 export const getPlace = query({
-  args: { placeId: v.id("places") },
+  args: {
+    placeId: v.id("places"),
+    openAt: v.optional(v.number()), // Evaluate open status at this time instead of now
+  },
   handler: async (ctx, args) => {
     const place = await ctx.db.get(args.placeId);
 
     if (!place) return null;
 
-    const now = new Date();
-    const isOpen = isOpenAt(place, now);
+    const hours = await loadPlaceHours(ctx, place);
+    const openStatus = getOpenStatusFromHours(hours, args.openAt ?? Date.now());
 
     return {
       ...place,
-      isOpen,
+      isOpen: openStatus.isOpen,
+      openStatus,
+      weeklyHours: hours ? formatWeeklyHours(hours) : null,
     };
   },
 });
@@ -302,12 +516,23 @@ export const addPlace = mutation({
     dataSource: v.optional(v.string()), // "manual", "google", "hybrid"
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, "curator");
+
     const placeId = await ctx.db.insert("places", {
       ...args,
+      areaKey: toAreaKey(args.area),
+      searchText: buildSearchText(args),
       dataSource: args.dataSource || "manual", // Default to manual if not specified
       verified: false,
       lastUpdated: Date.now(),
     });
+
+    // Keep the normalized hours table in sync with free-text hours
+    const hours = legacyHoursToModel(args.openingHours);
+    if (hours) {
+      await upsertPlaceHours(ctx, placeId, { ...hours, source: "manual" });
+    }
+
     return placeId;
   },
 });
@@ -333,6 +558,63 @@ export const getCuisines = query({
   },
 });
 
+/**
+ * Keyword search over names (English and Arabic), highlights and Google summaries
+ * Venues whose name matches come first, then the rest in relevance order
+ */
+export const keywordSearch = query({
+  args: {
+    query: v.string(),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const text = args.query.trim();
+    if (!text) {
+      return [];
+    }
+
+    const matches = await findLexicalMatches(ctx, text, args.limit ?? LEXICAL_CANDIDATES);
+    return matches
+      .sort((a, b) => (a.field === b.field ? a.rank - b.rank : a.field === "name" ? -1 : 1))
+      .map(({ place, rank, field }) => ({ ...place, lexicalRank: rank, matchedOn: field }));
+  },
+});
+
+/**
+ * Fill searchText and areaKey for places created before the keyword index and area keys existed
+ * Processes one batch and reschedules itself until the table is done
+ */
+export const backfillSearchText = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+    batchSize: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("places")
+      .paginate({ numItems: args.batchSize ?? 100, cursor: args.cursor ?? null });
+
+    let updated = 0;
+    for (const place of result.page) {
+      const searchText = buildSearchText(place);
+      const areaKey = toAreaKey(place.area);
+      if (place.searchText === searchText && place.areaKey === areaKey) continue;
+
+      await ctx.db.patch(place._id, { searchText, areaKey });
+      updated++;
+    }
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.places.backfillSearchText, {
+        cursor: result.continueCursor,
+        batchSize: args.batchSize,
+      });
+    }
+
+    return { updated, isDone: result.isDone };
+  },
+});
+
 // ============================================================================
 // Google Places Integration Helper Functions
 // ============================================================================
@@ -367,6 +649,8 @@ export const createPlaceholder = mutation({
     dataSource: v.string(), // "manual", "google", "hybrid"
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, "curator");
+
     // Create minimal placeholder
     const placeId = await ctx.db.insert("places", {
       googlePlaceId: args.googlePlaceId,
@@ -376,6 +660,7 @@ export const createPlaceholder = mutation({
       latitude: args.latitude,
       longitude: args.longitude,
       area: "Unknown", // To be enriched manually
+      areaKey: toAreaKey("Unknown"),
       category: args.category,
       coverImage: "", // To be enriched
       gallery: [],
@@ -385,6 +670,7 @@ export const createPlaceholder = mutation({
       rating: 0, // Will be fetched live from Google
       nearMetro: false, // CUSTOM - to be enriched
       highlights: "", // CUSTOM - to be enriched
+      searchText: buildSearchText({ name: args.name, highlights: "" }),
       verified: false,
       lastUpdated: Date.now(),
       enrichmentComplete: false,
@@ -432,13 +718,33 @@ export const updatePlaceEnrichment = mutation({
     gallery: v.optional(v.array(v.string())),
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, "curator");
+
     const { placeId, ...updates } = args;
 
+    // Tags must come from the tag taxonomy; labels and synonyms are stored as slugs
+    if (updates.tags) {
+      updates.tags = validateTags(await loadTagTaxonomy(ctx), updates.tags);
+    }
+
     // Filter out undefined values
-    const validUpdates = Object.fromEntries(
+    const validUpdates: Record<string, any> = Object.fromEntries(
       Object.entries(updates).filter(([_, value]) => value !== undefined)
     );
 
+    if (updates.area !== undefined) {
+      validUpdates.areaKey = toAreaKey(updates.area);
+    }
+
+    // Highlights are part of the keyword index
+    if (updates.highlights !== undefined) {
+      const place = await ctx.db.get(placeId);
+      if (!place) {
+        throw new Error("Place not found");
+      }
+      validUpdates.searchText = buildSearchText({ ...place, highlights: updates.highlights });
+    }
+
     await ctx.db.patch(placeId, {
       ...validUpdates,
       enrichmentComplete: true,
@@ -559,6 +865,8 @@ export const updatePlaceFromGoogle = mutation({
     lastGoogleSync: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, "curator");
+
     const { placeId, ...updates } = args;
 
     // Get current place to merge cuisines
@@ -577,7 +885,10 @@ export const updatePlaceFromGoogle = mutation({
     if (updates.website !== undefined && updates.website !== null) validUpdates.website = updates.website;
     if (updates.priceLevel !== undefined) validUpdates.priceLevel = updates.priceLevel;
     if (updates.googlePhotos !== undefined) validUpdates.googlePhotos = updates.googlePhotos;
-    if (updates.googleSummary !== undefined && updates.googleSummary !== null) validUpdates.googleSummary = updates.googleSummary;
+    if (updates.googleSummary !== undefined && updates.googleSummary !== null) {
+      validUpdates.googleSummary = updates.googleSummary;
+      validUpdates.searchText = buildSearchText({ ...place, googleSummary: updates.googleSummary });
+    }
     if (updates.googleTypes !== undefined) validUpdates.googleTypes = updates.googleTypes;
     if (updates.lastGoogleSync !== undefined) validUpdates.lastGoogleSync = updates.lastGoogleSync;
 
@@ -619,6 +930,8 @@ export const updatePlaceFromGoogle = mutation({
 export const fixCoverImages = mutation({
   args: {},
   handler: async (ctx) => {
+    await requireRole(ctx, "admin");
+
     const places = await ctx.db.query("places").collect();
 
     let fixed = 0;
@@ -0,0 +1,46 @@
+import { expect, test } from "vitest";
+import { api } from "./_generated/api";
+import { setupSeededTest } from "./test.setup";
+
+const guestId = "user-1700000000000-abc123";
+
+// The filter state app/page.tsx searches with, parsed intent included
+const pageFilters = {
+  category: "cafe",
+  tags: ["kid-friendly"],
+  priceLevel: "Mid",
+  area: undefined,
+  nearMetro: undefined,
+  minRating: undefined,
+  cuisine: [],
+  noise: undefined,
+  openNow: false,
+  partySize: 4,
+  occasion: "birthday",
+  dietary: ["halal"],
+  budgetPerPerson: 120,
+  seating: "outdoor",
+};
+
+test("a selection made with the page's filters is recorded and learned from", async () => {
+  const t = await setupSeededTest();
+  await t.mutation(api.preferences.updateUserPreferences, { guestId, memoryEnabled: true });
+  const beachHouse = await t.run((ctx) =>
+    ctx.db.query("places").filter((q) => q.eq(q.field("name"), "The Beach House")).first()
+  );
+
+  await t.mutation(api.preferences.recordPlaceSelection, {
+    guestId,
+    placeId: beachHouse!._id,
+    query: "kid friendly cafe for a birthday",
+    filters: pageFilters,
+  });
+
+  const history = await t.run((ctx) => ctx.db.query("searchHistory").collect());
+  expect(history).toHaveLength(1);
+  expect(history[0].filters).toMatchObject({ partySize: 4, dietary: ["halal"], seating: "outdoor" });
+
+  const prefs = await t.run((ctx) => ctx.db.query("userPreferences").first());
+  expect(prefs?.preferredTags.map((tag) => tag.tag)).toContain("kid-friendly");
+  expect(prefs?.preferredPriceLevel).toBe("Mid");
+});
@@ -1,19 +1,24 @@
 import { v } from "convex/values";
 import { query, mutation } from "./_generated/server";
+import { conversationFiltersValidator } from "./schema";
+import { getUserKey, requireUserKey } from "./users";
 
 // Get user preferences
 export const getUserPreferences = query({
-  args: { userId: v.string() },
+  args: { guestId: v.optional(v.string()) }, // Ignored once signed in
   handler: async (ctx, args) => {
-    const prefs = await ctx.db
-      .query("userPreferences")
-      .withIndex("by_user", q => q.eq("userId", args.userId))
-      .first();
+    const userId = await getUserKey(ctx, args.guestId);
+    const prefs = userId
+      ? await ctx.db
+          .query("userPreferences")
+          .withIndex("by_user", q => q.eq("userId", userId))
+          .first()
+      : null;
 
     if (!prefs) {
       // Create default preferences
       return {
-        userId: args.userId,
+        userId,
         preferredTags: [],
         preferredAreas: [],
         memoryEnabled: true,
@@ -29,14 +34,15 @@ export const getUserPreferences = query({
 // Initialize or update user preferences
 export const updateUserPreferences = mutation({
   args: {
-    userId: v.string(),
+    guestId: v.optional(v.string()),
     memoryEnabled: v.optional(v.boolean()),
     language: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    const userId = await requireUserKey(ctx, args.guestId);
     const existing = await ctx.db
       .query("userPreferences")
-      .withIndex("by_user", q => q.eq("userId", args.userId))
+      .withIndex("by_user", q => q.eq("userId", userId))
       .first();
 
     if (existing) {
@@ -48,7 +54,7 @@ export const updateUserPreferences = mutation({
       return existing._id;
     } else {
       return await ctx.db.insert("userPreferences", {
-        userId: args.userId,
+        userId,
         preferredTags: [],
         preferredAreas: [],
         memoryEnabled: args.memoryEnabled ?? true,
@@ -61,11 +67,12 @@ export const updateUserPreferences = mutation({
 
 // Clear all user preferences
 export const clearUserPreferences = mutation({
-  args: { userId: v.string() },
+  args: { guestId: v.optional(v.string()) },
   handler: async (ctx, args) => {
+    const userId = await requireUserKey(ctx, args.guestId);
     const existing = await ctx.db
       .query("userPreferences")
-      .withIndex("by_user", q => q.eq("userId", args.userId))
+      .withIndex("by_user", q => q.eq("userId", userId))
       .first();
 
     if (existing) {
@@ -82,25 +89,17 @@ export const clearUserPreferences = mutation({
 // Record a place selection to learn preferences
 export const recordPlaceSelection = mutation({
   args: {
-    userId: v.string(),
+    guestId: v.optional(v.string()),
     placeId: v.id("places"),
     query: v.string(),
-    filters: v.object({
-      category: v.optional(v.string()),
-      tags: v.array(v.string()),
-      priceLevel: v.optional(v.string()),
-      area: v.optional(v.string()),
-      nearMetro: v.optional(v.boolean()),
-      minRating: v.optional(v.number()),
-      cuisine: v.array(v.string()),
-      noise: v.optional(v.string()),
-      openNow: v.boolean(),
-    }),
+    filters: conversationFiltersValidator,
   },
   handler: async (ctx, args) => {
+    const userId = await requireUserKey(ctx, args.guestId);
+
     // Record search history
     await ctx.db.insert("searchHistory", {
-      userId: args.userId,
+      userId,
       query: args.query,
       filters: args.filters,
       selectedPlaceId: args.placeId,
@@ -110,7 +109,7 @@ export const recordPlaceSelection = mutation({
     // Update user preferences if memory is enabled
     const prefs = await ctx.db
       .query("userPreferences")
-      .withIndex("by_user", q => q.eq("userId", args.userId))
+      .withIndex("by_user", q => q.eq("userId", userId))
       .first();
 
     if (prefs && prefs.memoryEnabled) {
@@ -149,12 +148,15 @@ export const recordPlaceSelection = mutation({
 
 // Get user's vibe summary
 export const getUserVibeSummary = query({
-  args: { userId: v.string() },
+  args: { guestId: v.optional(v.string()) },
   handler: async (ctx, args) => {
-    const prefs = await ctx.db
-      .query("userPreferences")
-      .withIndex("by_user", q => q.eq("userId", args.userId))
-      .first();
+    const userId = await getUserKey(ctx, args.guestId);
+    const prefs = userId
+      ? await ctx.db
+          .query("userPreferences")
+          .withIndex("by_user", q => q.eq("userId", userId))
+          .first()
+      : null;
 
     if (!prefs || !prefs.memoryEnabled || prefs.preferredTags.length === 0) {
       return {
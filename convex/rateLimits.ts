@@ -0,0 +1,135 @@
+/**
+ * AI Rate Limits and Budgets
+ *
+ * Guards the LLM-backed public actions (parse, chat, response, semantic search) so a
+ * client can't run up the OpenRouter bill:
+ * - a token bucket per caller (account or guest id) and action
+ * - a shared bucket for all guests, which caps anonymous traffic as a whole
+ * - a rolling 24-hour spend budget per caller, summed from llmUsage
+ *
+ * There is deliberately no per-IP bucket: functions called through the Convex client never
+ * see the client IP (only HTTP actions get request headers, and none of these run over HTTP).
+ * The gap that leaves is that guest ids cost nothing to mint, so a client rotating them can
+ * drain the shared guest pool - accounts keep their own buckets. Closing it means issuing
+ * guest ids from an IP-limited HTTP endpoint rather than the browser.
+ *
+ * Over a limit, actions skip the model and return { success: false, error: "rate_limited",
+ * rateLimit } alongside their usual fallback fields, which the UI shows as a notice.
+ */
+
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { RateLimiter, MINUTE } from "@convex-dev/ratelimiter";
+import { ActionCtx, internalQuery } from "./_generated/server";
+import { components, internal } from "./_generated/api";
+import { getUserKey } from "./users";
+
+export type AIAction = "parse" | "chat" | "response" | "semantic";
+
+export const rateLimiter = new RateLimiter(components.ratelimiter, {
+  parse: { kind: "token bucket", rate: 20, period: MINUTE, capacity: 10 },
+  chat: { kind: "token bucket", rate: 10, period: MINUTE, capacity: 5 },
+  response: { kind: "token bucket", rate: 20, period: MINUTE, capacity: 10 },
+  semantic: { kind: "token bucket", rate: 30, period: MINUTE, capacity: 15 },
+  guestPool: { kind: "token bucket", rate: 300, period: MINUTE, capacity: 100, shards: 4 },
+});
+
+const BUDGET_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// USD per rolling 24 hours; override with AI_DAILY_BUDGET_USD / AI_DAILY_BUDGET_GUEST_USD
+const DEFAULT_DAILY_BUDGET_USD = 0.5;
+const DEFAULT_GUEST_DAILY_BUDGET_USD = 0.1;
+
+// Callers with neither an account nor a valid guest id share one key
+const ANONYMOUS_KEY = "anonymous";
+
+export interface RateLimitInfo {
+  reason: "too_many_requests" | "daily_budget";
+  retryAfterMs: number;
+  message: string;
+}
+
+export interface RateLimitCheck {
+  userKey: string | null; // for attributing usage (see llm.ts)
+  limited: RateLimitInfo | null;
+}
+
+function dailyBudget(isAccount: boolean): number {
+  const configured = Number(isAccount ? process.env.AI_DAILY_BUDGET_USD : process.env.AI_DAILY_BUDGET_GUEST_USD);
+  if (Number.isFinite(configured) && configured > 0) {
+    return configured;
+  }
+  return isAccount ? DEFAULT_DAILY_BUDGET_USD : DEFAULT_GUEST_DAILY_BUDGET_USD;
+}
+
+function tooManyRequests(retryAfterMs: number): RateLimitInfo {
+  return {
+    reason: "too_many_requests",
+    retryAfterMs,
+    message: `You're going a little fast - try again in ${Math.max(1, Math.ceil(retryAfterMs / 1000))}s.`,
+  };
+}
+
+/**
+ * Spend budget, then the caller's bucket for this action, then (guests only) the shared pool.
+ * Consumes a token when allowed, so call it once per request, before any model call.
+ */
+export async function checkAIRateLimit(ctx: ActionCtx, action: AIAction, guestId?: string): Promise<RateLimitCheck> {
+  const isAccount = (await getAuthUserId(ctx)) !== null;
+  const userKey = await getUserKey(ctx, guestId);
+  const key = userKey ?? ANONYMOUS_KEY;
+
+  if (userKey) {
+    const now = Date.now();
+    const spend = await ctx.runQuery(internal.rateLimits.getSpend, { userKey, since: now - BUDGET_WINDOW_MS });
+    if (spend.costUsd >= dailyBudget(isAccount)) {
+      // Budget frees up as the oldest counted call leaves the window
+      const retryAfterMs = Math.max(0, (spend.oldestAt ?? now) + BUDGET_WINDOW_MS - now);
+      return {
+        userKey,
+        limited: {
+          reason: "daily_budget",
+          retryAfterMs,
+          message: isAccount
+            ? "You've reached today's AI limit. Filters and keyword search still work."
+            : "You've reached today's AI limit for guests. Sign in for more, or keep using filters.",
+        },
+      };
+    }
+  }
+
+  const own = await rateLimiter.limit(ctx, action, { key });
+  if (!own.ok) {
+    return { userKey, limited: tooManyRequests(own.retryAfter) };
+  }
+
+  if (!isAccount) {
+    const pool = await rateLimiter.limit(ctx, "guestPool");
+    if (!pool.ok) {
+      return { userKey, limited: tooManyRequests(pool.retryAfter) };
+    }
+  }
+
+  return { userKey, limited: null };
+}
+
+/**
+ * LLM spend attributed to a caller since a timestamp
+ */
+export const getSpend = internalQuery({
+  args: {
+    userKey: v.string(),
+    since: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const calls = await ctx.db
+      .query("llmUsage")
+      .withIndex("by_user_created", (q) => q.eq("userKey", args.userKey).gte("createdAt", args.since))
+      .collect();
+
+    return {
+      costUsd: calls.reduce((sum, call) => sum + call.costUsd, 0),
+      oldestAt: calls.length > 0 ? calls[0].createdAt : null,
+    };
+  },
+});
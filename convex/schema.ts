@@ -1,7 +1,144 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import { partial } from "convex-helpers/validators";
+import { authTables } from "@convex-dev/auth/server";
+
+// Opening hours: a weekly period, day 0 = Sunday, times in minutes from midnight.
+// close may exceed 24*60 for periods that run past midnight (e.g. 18:00-02:00 → 1080-1560).
+export const hoursPeriodValidator = v.object({
+  day: v.number(),
+  open: v.number(),
+  close: v.number(),
+});
+
+// A period inside a dated exception applies to every date in the exception range
+export const exceptionPeriodValidator = v.object({
+  open: v.number(),
+  close: v.number(),
+  label: v.optional(v.string()), // e.g. "Iftar", "Suhoor"
+});
+
+export const hoursExceptionValidator = v.object({
+  label: v.string(), // e.g. "Ramadan", "Eid al-Fitr", "National Day"
+  specialDayKey: v.optional(v.string()), // Links to specialDays when applied from the calendar
+  startDate: v.string(), // Dubai date, "YYYY-MM-DD" inclusive
+  endDate: v.string(), // Dubai date, "YYYY-MM-DD" inclusive
+  periods: v.array(exceptionPeriodValidator), // Empty = closed for the whole range
+});
+
+// Ranking weights for searchPlaces (see scoring.ts for what each one does)
+export const scoringWeightsValidator = v.object({
+  ratingMultiplier: v.number(),
+  nearbyRadiusKm: v.number(),
+  nearbyBonus: v.number(),
+  closeRadiusKm: v.number(),
+  closeBonus: v.number(),
+  openBonus: v.number(),
+  outdoorWeatherBonus: v.number(),
+  indoorWeatherBonus: v.number(),
+  indoorBadWeatherBonus: v.number(),
+  outdoorBadWeatherPenalty: v.number(),
+  metroRequestedBonus: v.number(),
+  metroBonus: v.number(),
+  preferredTagPerSelection: v.number(),
+  preferredTagCap: v.number(),
+  preferredPriceBonus: v.number(),
+  nameMatchBonus: v.number(),
+  textMatchBonus: v.number(),
+  groupFitBonus: v.number(),
+  reservationBonus: v.number(),
+  occasionFitBonus: v.number(),
+  dietaryMatchBonus: v.number(),
+  budgetFitBonus: v.number(),
+  seatingMatchBonus: v.number(),
+  bestMatchMargin: v.number(),
+});
+
+// Parse eval (see parseEval.ts)
+export const fieldMetricsValidator = v.object({
+  tp: v.number(),
+  fp: v.number(),
+  fn: v.number(),
+  precision: v.number(),
+  recall: v.number(),
+  f1: v.number(),
+});
+
+export const evalCaseValidator = v.object({
+  query: v.string(),
+  expected: v.any(), // filters the golden query expects
+  actual: v.any(), // filters the parser returned (null on error)
+  error: v.optional(v.string()),
+});
+
+// Account roles, lowest to highest privilege: curators edit venue data, admins also run
+// bulk/destructive operations, tune ranking and manage roles
+export const roleValidator = v.union(v.literal("user"), v.literal("curator"), v.literal("admin"));
+
+// Search filters a conversation thread was last using, restored when it's reopened
+export const conversationFiltersValidator = v.object({
+  category: v.optional(v.string()),
+  tags: v.array(v.string()),
+  priceLevel: v.optional(v.string()),
+  area: v.optional(v.string()),
+  nearMetro: v.optional(v.boolean()),
+  minRating: v.optional(v.number()),
+  cuisine: v.array(v.string()),
+  noise: v.optional(v.string()),
+  openNow: v.boolean(),
+  openAt: v.optional(v.union(v.number(), v.string())),
+  // Parsed intent (searchIntent.ts); optional for threads saved before it existed
+  partySize: v.optional(v.number()),
+  occasion: v.optional(v.string()),
+  dietary: v.optional(v.array(v.string())),
+  budgetPerPerson: v.optional(v.number()), // AED
+  openUntil: v.optional(v.union(v.number(), v.string())), // End of the time window that starts at openAt
+  seating: v.optional(v.string()),
+});
+
+const filterValueValidator = v.union(v.string(), v.number(), v.boolean());
+
+// One change to a thread's filters (filterState.ts): add/remove an item of a list
+// filter (tags, cuisine), set a single-value filter or clear it
+export const filterDeltaValidator = v.object({
+  op: v.union(v.literal("add"), v.literal("remove"), v.literal("set"), v.literal("clear")),
+  field: v.string(),
+  value: v.optional(filterValueValidator), // add/remove: the item; set: the new value
+  previous: v.optional(filterValueValidator), // set/clear: the value before, for undo
+});
+
+// A multiple-choice follow-up question for an ambiguous query (clarifications.ts);
+// picking an option applies its filter change without another round trip to the model
+export const clarificationQuestionValidator = v.object({
+  question: v.string(),
+  field: v.string(), // filter the answer sets, e.g. "partySize", "area"
+  options: v.array(v.object({ label: v.string(), delta: filterDeltaValidator })),
+});
+
+// One venue tag in the tag taxonomy (tagTaxonomy.ts)
+export const tagDefinitionFields = {
+  slug: v.string(), // stored on places, e.g. "kid-friendly"
+  label: v.string(),
+  labelAr: v.string(),
+  synonyms: v.array(v.string()), // words users and models use for it, e.g. "kids", "children"
+  group: v.string(), // parent group, e.g. "audience", "setting" (TAG_GROUPS)
+  googleAttributes: v.array(v.string()), // Google boolean attributes that imply it, e.g. "goodForChildren"
+  filterChip: v.boolean(), // offered as a quick filter in FilterChips
+};
+export const tagDefinitionValidator = v.object(tagDefinitionFields);
 
 export default defineSchema({
+  // Convex Auth: users, sessions, accounts, verification codes
+  ...authTables,
+
+  // Convex Auth's users table plus a role (unset = "user")
+  users: defineTable({
+    ...authTables.users.validator.fields,
+    role: v.optional(roleValidator),
+  })
+  .index("email", ["email"])
+  .index("phone", ["phone"]),
+
   // Places (venues) in Dubai
   places: defineTable({
     // Google Places Integration (ToS Compliant - only place_id stored permanently)
@@ -18,6 +155,7 @@ export default defineSchema({
     latitude: v.number(),
     longitude: v.number(),
     area: v.string(), // e.g., "Marina", "Downtown", "Business Bay"
+    areaKey: v.optional(v.string()), // Lowercased area, what area filters look up (see toAreaKey)
 
     // Metro information (CUSTOM - not from Google, our unique value-add)
     nearMetro: v.boolean(),
@@ -93,8 +231,11 @@ export default defineSchema({
     embedding: v.optional(v.array(v.float64())), // 1536 dimensions (OpenAI text-embedding-3-small)
     embeddingModel: v.optional(v.string()), // e.g., "text-embedding-3-small"
     lastEmbedded: v.optional(v.number()), // timestamp of last embedding generation
+
+    // Keyword search (name, Arabic name, highlights and Google summary in one field - see places.ts)
+    searchText: v.optional(v.string()),
   })
-  .index("by_area", ["area"])
+  .index("by_area_key", ["areaKey"])
   .index("by_category", ["category"])
   .index("by_rating", ["rating"])
   .index("by_near_metro", ["nearMetro"])
@@ -104,9 +245,136 @@ export default defineSchema({
   .vectorIndex("by_semantic_search", {
     vectorField: "embedding",
     dimensions: 1536,
-    filterFields: ["category", "priceLevel", "area", "nearMetro", "goodForChildren", "delivery"],
+    filterFields: ["category", "priceLevel", "areaKey", "nearMetro", "goodForChildren", "delivery"],
+  })
+  .searchIndex("search_text", {
+    searchField: "searchText",
+    filterFields: ["category", "priceLevel", "areaKey", "nearMetro"],
   }),
 
+  // Normalized opening hours (one per venue) - source of truth for open-now checks
+  placeHours: defineTable({
+    placeId: v.id("places"),
+    periods: v.array(hoursPeriodValidator), // Regular weekly schedule
+    exceptions: v.array(hoursExceptionValidator), // Dated overrides (Ramadan, Eid, closures)
+    source: v.string(), // "manual", "google"
+    lastUpdated: v.number(),
+  })
+  .index("by_place", ["placeId"]),
+
+  // City-wide special date ranges (Ramadan, Eid, National Day) applied to venues as exceptions
+  specialDays: defineTable({
+    key: v.string(), // e.g. "ramadan-2027"
+    label: v.string(),
+    labelAr: v.optional(v.string()),
+    kind: v.string(), // "ramadan", "eid", "public_holiday"
+    startDate: v.string(), // Dubai date, "YYYY-MM-DD" inclusive
+    endDate: v.string(),
+  })
+  .index("by_key", ["key"])
+  .index("by_end_date", ["endDate"]),
+
+  // Cached weather readings for Dubai (refreshed by cron, read by ranking and chat)
+  weatherSnapshots: defineTable({
+    provider: v.string(), // "open-meteo", "stub"
+    temperatureC: v.number(),
+    humidity: v.number(), // relative humidity, %
+    windKph: v.number(),
+    rain: v.boolean(),
+    dust: v.boolean(),
+    sandstorm: v.boolean(),
+    condition: v.string(), // "clear", "rain", "dust", "sandstorm"
+    observedAt: v.number(),
+  })
+  .index("by_observed_at", ["observedAt"]),
+
+  // Admin-editable ranking weights ("default" is used unless a search asks for another)
+  scoringProfiles: defineTable({
+    name: v.string(),
+    weights: partial(scoringWeightsValidator), // Missing weights fall back to the defaults
+    updatedAt: v.number(),
+    updatedBy: v.optional(v.string()),
+  })
+  .index("by_name", ["name"]),
+
+  // Follow-up questions asked about ambiguous queries and how users answered (for prompt tuning)
+  clarifications: defineTable({
+    userKey: v.optional(v.string()),
+    surface: v.string(), // "search" (AISearchBar) or "chat"
+    query: v.string(),
+    confidence: v.number(), // The parser's or chat model's confidence that prompted the question
+    promptVersion: v.optional(v.string()), // Parse prompt version (search only)
+    questions: v.array(clarificationQuestionValidator),
+    answers: v.array(
+      v.object({
+        questionIndex: v.number(),
+        label: v.string(),
+        answeredAt: v.number(),
+      })
+    ),
+    createdAt: v.number(),
+  })
+  .index("by_created_at", ["createdAt"]),
+
+  // Parse cache lookups per Dubai day (parseCache.ts)
+  parseCacheStats: defineTable({
+    day: v.string(), // "YYYY-MM-DD"
+    shard: v.number(), // Counters are split across shards so concurrent searches don't conflict
+    hits: v.number(),
+    misses: v.number(),
+    bypassed: v.number(), // Parses with conversation context, which aren't cached
+  })
+  .index("by_day_shard", ["day", "shard"]),
+
+  // Curator edits to the tag vocabulary (tagTaxonomy.ts) - rows override the built-in tags by slug
+  tagTaxonomy: defineTable({
+    ...tagDefinitionFields,
+    retired: v.optional(v.boolean()), // Hides a built-in tag
+    updatedAt: v.number(),
+    updatedBy: v.optional(v.string()),
+  })
+  .index("by_slug", ["slug"]),
+
+  // One row per LLM gateway call (see llm.ts) - token and cost accounting
+  llmUsage: defineTable({
+    task: v.string(), // "parse", "response", "chat", "enrichment", "memory", "embedding"
+    backend: v.string(), // "openrouter", "fake"
+    model: v.string(),
+    promptTokens: v.number(),
+    completionTokens: v.number(),
+    costUsd: v.number(),
+    latencyMs: v.number(),
+    attempts: v.number(),
+    success: v.boolean(),
+    error: v.optional(v.string()),
+    userKey: v.optional(v.string()), // caller (account or guest id) for per-user budgets
+    createdAt: v.number(),
+  })
+  .index("by_created_at", ["createdAt"])
+  .index("by_user_created", ["userKey", "createdAt"]),
+
+  // Recorded parser responses per prompt version, replayed by offline eval runs
+  parseEvalRecordings: defineTable({
+    promptVersion: v.string(),
+    query: v.string(),
+    model: v.string(),
+    content: v.string(), // raw JSON the model returned
+    recordedAt: v.number(),
+  })
+  .index("by_prompt_query", ["promptVersion", "query"]),
+
+  // Golden-query eval results with per-field precision/recall
+  parseEvalRuns: defineTable({
+    promptVersion: v.string(),
+    mode: v.string(), // "mock", "record", "replay"
+    model: v.string(),
+    label: v.optional(v.string()),
+    metrics: v.record(v.string(), fieldMetricsValidator),
+    cases: v.array(evalCaseValidator),
+    createdAt: v.number(),
+  })
+  .index("by_created_at", ["createdAt"]),
+
   // User preferences
   userPreferences: defineTable({
     userId: v.string(),
@@ -132,17 +400,7 @@ export default defineSchema({
   searchHistory: defineTable({
     userId: v.string(),
     query: v.string(),
-    filters: v.object({
-      category: v.optional(v.string()),
-      tags: v.array(v.string()),
-      priceLevel: v.optional(v.string()),
-      area: v.optional(v.string()),
-      nearMetro: v.optional(v.boolean()),
-      minRating: v.optional(v.number()),
-      cuisine: v.array(v.string()),
-      noise: v.optional(v.string()),
-      openNow: v.boolean(),
-    }),
+    filters: conversationFiltersValidator, // The full filter set the search ran with (older rows lack the intent fields)
     selectedPlaceId: v.optional(v.id("places")),
     timestamp: v.number(),
   })
@@ -157,26 +415,64 @@ export default defineSchema({
         role: v.string(), // "user" or "assistant"
         content: v.string(),
         timestamp: v.number(),
+        placeIds: v.optional(v.array(v.id("places"))), // Venues the assistant mentioned (chatAgent.ts)
+        grounded: v.optional(v.boolean()), // False if the reply named venues we couldn't verify (grounding.ts)
+        // Question the reply asked, shown as answer chips (clarifications.ts)
+        clarification: v.optional(
+          v.object({
+            id: v.id("clarifications"),
+            question: clarificationQuestionValidator,
+            answer: v.optional(v.string()), // Label of the option picked
+          })
+        ),
       })
     ),
     lastMessage: v.number(),
-    currentFilters: v.optional(
+    currentFilters: v.optional(conversationFiltersValidator),
+    // Threads (optional for conversations from before threads existed)
+    title: v.optional(v.string()), // From the first user message, or renamed
+    archived: v.optional(v.boolean()),
+    createdAt: v.optional(v.number()),
+    // Rolling summary of the thread's older turns (memory.ts)
+    memory: v.optional(
       v.object({
-        category: v.optional(v.string()),
-        tags: v.array(v.string()),
-        priceLevel: v.optional(v.string()),
-        area: v.optional(v.string()),
-        nearMetro: v.optional(v.boolean()),
-        minRating: v.optional(v.number()),
-        cuisine: v.array(v.string()),
-        noise: v.optional(v.string()),
-        openNow: v.boolean(),
+        summary: v.string(),
+        constraints: v.array(
+          v.object({
+            type: v.string(), // "party", "accessibility", "dietary", "budget", "area", "timing" or "other"
+            value: v.string(), // e.g. "Needs wheelchair access"
+          })
+        ),
+        summarizedThrough: v.number(), // Timestamp of the last message folded into the summary
+        updatedAt: v.number(),
       })
     ),
+    memoryPendingSince: v.optional(v.number()), // Set while a summary update is scheduled
+    // How currentFilters got where they are, one entry per turn that changed them (filterState.ts)
+    filterHistory: v.optional(
+      v.array(
+        v.object({
+          deltas: v.array(filterDeltaValidator),
+          messageTimestamp: v.number(), // The assistant message whose search made the change
+          undone: v.optional(v.boolean()),
+        })
+      )
+    ),
   })
-  .index("by_user", ["userId"])
+  .index("by_user", ["userId", "lastMessage"])
   .index("by_last_message", ["lastMessage"]),
 
+  // Assistant reply being streamed into a conversation; deleted once it lands in messages
+  chatStreams: defineTable({
+    userId: v.string(),
+    conversationId: v.optional(v.id("conversations")), // Thread the reply goes to (default: latest)
+    content: v.string(), // Text received so far
+    status: v.string(), // "streaming" or "cancelled"
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+  .index("by_user", ["userId", "createdAt"]),
+
   // User feedback for venue data quality (crowdsourcing improvements)
   placeFeedback: defineTable({
     placeId: v.id("places"),
@@ -190,5 +486,15 @@ export default defineSchema({
   })
   .index("by_place", ["placeId"])
   .index("by_status", ["status"])
-  .index("by_timestamp", ["timestamp"]),
+  .index("by_timestamp", ["timestamp"])
+  .index("by_user", ["userId"]),
+
+  // Outgoing mail captured by the local mail stub (MAIL_BACKEND=stub)
+  mailOutbox: defineTable({
+    to: v.string(),
+    subject: v.string(),
+    text: v.string(),
+    createdAt: v.number(),
+  })
+  .index("by_to", ["to", "createdAt"]),
 });
@@ -0,0 +1,180 @@
+/**
+ * Scoring Profiles
+ *
+ * Ranking weights for searchPlaces live in the scoringProfiles table so they can
+ * be tuned from the admin side without a redeploy. Every result carries a
+ * structured breakdown (one entry per signal with its contribution) so the UI
+ * can explain exactly why a venue ranked where it did.
+ */
+
+import { v, Infer } from "convex/values";
+import { partial } from "convex-helpers/validators";
+import { query, mutation, QueryCtx } from "./_generated/server";
+import { scoringWeightsValidator } from "./schema";
+import { requireRole } from "./users";
+
+export type ScoringWeights = Infer<typeof scoringWeightsValidator>;
+
+export interface ScoreContribution {
+  signal: string; // stable key, e.g. "rating", "distance", "weather"
+  label: string; // human-readable, e.g. "Rated 4.5"
+  contribution: number; // points added (negative for penalties)
+}
+
+export const DEFAULT_PROFILE_NAME = "default";
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  ratingMultiplier: 20, // points per rating star
+  nearbyRadiusKm: 2,
+  nearbyBonus: 30,
+  closeRadiusKm: 5,
+  closeBonus: 15,
+  openBonus: 25, // only when the search asked for open venues
+  outdoorWeatherBonus: 20,
+  indoorWeatherBonus: 15,
+  indoorBadWeatherBonus: 25, // rain, dust or sandstorm
+  outdoorBadWeatherPenalty: 15,
+  metroRequestedBonus: 20,
+  metroBonus: 5,
+  preferredTagPerSelection: 2,
+  preferredTagCap: 20,
+  preferredPriceBonus: 10,
+  nameMatchBonus: 40, // query words prefix-match the venue name
+  textMatchBonus: 10, // query matched highlights or the Google summary
+  groupFitBonus: 15, // good for groups, for parties of 5+
+  reservationBonus: 10, // takes reservations, for parties of 6+
+  occasionFitBonus: 8, // per attribute that suits the occasion (quiet for a business meeting, ...)
+  dietaryMatchBonus: 15, // per dietary need the venue caters for
+  budgetFitBonus: 10, // price level matches the budget per person
+  seatingMatchBonus: 10,
+  bestMatchMargin: 15, // lead over the runner-up needed to be called "best match"
+};
+
+/**
+ * Load a scoring profile's weights, falling back to the defaults
+ * Stored weights are merged over the defaults so new signals work before a profile is re-saved
+ */
+export async function getScoringWeights(
+  ctx: QueryCtx,
+  name: string = DEFAULT_PROFILE_NAME
+): Promise<{ name: string; weights: ScoringWeights }> {
+  const profile = await ctx.db
+    .query("scoringProfiles")
+    .withIndex("by_name", (q) => q.eq("name", name))
+    .first();
+
+  if (!profile) {
+    return { name: DEFAULT_PROFILE_NAME, weights: DEFAULT_SCORING_WEIGHTS };
+  }
+  return { name: profile.name, weights: { ...DEFAULT_SCORING_WEIGHTS, ...profile.weights } };
+}
+
+/**
+ * Record a signal's contribution (zero contributions are left out of the breakdown)
+ */
+export function addContribution(
+  breakdown: ScoreContribution[],
+  signal: string,
+  label: string,
+  contribution: number
+): void {
+  if (contribution !== 0) {
+    breakdown.push({ signal, label, contribution: Math.round(contribution * 10) / 10 });
+  }
+}
+
+export function totalScore(breakdown: ScoreContribution[]): number {
+  return breakdown.reduce((sum, entry) => sum + entry.contribution, 0);
+}
+
+/**
+ * Get a scoring profile (defaults if it hasn't been customized)
+ */
+export const getScoringProfile = query({
+  args: { name: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const profile = await ctx.db
+      .query("scoringProfiles")
+      .withIndex("by_name", (q) => q.eq("name", args.name ?? DEFAULT_PROFILE_NAME))
+      .first();
+    const { name, weights } = await getScoringWeights(ctx, args.name);
+
+    return {
+      name,
+      weights,
+      defaults: DEFAULT_SCORING_WEIGHTS,
+      customized: profile !== null,
+      updatedAt: profile?.updatedAt ?? null,
+      updatedBy: profile?.updatedBy ?? null,
+    };
+  },
+});
+
+/**
+ * List all stored scoring profiles
+ */
+export const listScoringProfiles = query({
+  args: {},
+  handler: async (ctx) => {
+    return await ctx.db.query("scoringProfiles").collect();
+  },
+});
+
+/**
+ * Update some weights of a scoring profile (admin action)
+ * Creates the profile from the defaults if it doesn't exist yet
+ */
+export const updateScoringProfile = mutation({
+  args: {
+    name: v.optional(v.string()),
+    weights: partial(scoringWeightsValidator),
+  },
+  handler: async (ctx, args) => {
+    const actor = await requireRole(ctx, "admin");
+
+    const name = args.name ?? DEFAULT_PROFILE_NAME;
+    const current = await getScoringWeights(ctx, name);
+
+    // Drop keys explicitly passed as undefined so they don't wipe the current value
+    const changes = Object.fromEntries(
+      Object.entries(args.weights).filter(([_, value]) => value !== undefined)
+    );
+    const weights = { ...current.weights, ...changes };
+
+    const existing = await ctx.db
+      .query("scoringProfiles")
+      .withIndex("by_name", (q) => q.eq("name", name))
+      .first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, { weights, updatedAt: Date.now(), updatedBy: actor.label });
+      return existing._id;
+    }
+    return await ctx.db.insert("scoringProfiles", {
+      name,
+      weights,
+      updatedAt: Date.now(),
+      updatedBy: actor.label,
+    });
+  },
+});
+
+/**
+ * Reset a scoring profile to the default weights (admin action)
+ */
+export const resetScoringProfile = mutation({
+  args: { name: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, "admin");
+
+    const existing = await ctx.db
+      .query("scoringProfiles")
+      .withIndex("by_name", (q) => q.eq("name", args.name ?? DEFAULT_PROFILE_NAME))
+      .first();
+
+    if (existing) {
+      await ctx.db.delete(existing._id);
+    }
+    return { success: true };
+  },
+});
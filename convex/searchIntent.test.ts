@@ -0,0 +1,63 @@
+import { describe, expect, test } from "vitest";
+import { Doc } from "./_generated/dataModel";
+import { budgetToPriceLevel, failsIntent } from "./searchIntent";
+
+// Only the fields intent signals read; everything Google-sourced starts unknown
+function place(overrides: Partial<Doc<"places">> = {}): Doc<"places"> {
+  return { name: "Test Venue", tags: [], priceLevel: "Mid", ...overrides } as Doc<"places">;
+}
+
+describe("budgetToPriceLevel", () => {
+  test("maps a budget per person to the highest price level it affords", () => {
+    expect(budgetToPriceLevel(40)).toBe("Low");
+    expect(budgetToPriceLevel(60)).toBe("Low");
+    expect(budgetToPriceLevel(61)).toBe("Mid");
+    expect(budgetToPriceLevel(150)).toBe("Mid");
+    expect(budgetToPriceLevel(300)).toBe("High");
+    expect(budgetToPriceLevel(2000)).toBe("Lux");
+  });
+});
+
+describe("failsIntent", () => {
+  test("no intent rules nothing out", () => {
+    expect(failsIntent(place({ goodForGroups: false, priceLevel: "Lux" }), {})).toBe(false);
+  });
+
+  test("unknown attributes never exclude a venue", () => {
+    expect(
+      failsIntent(place(), { partySize: 10, dietary: ["vegetarian", "halal"], seating: "outdoor" })
+    ).toBe(false);
+  });
+
+  test("groups of five or more need a venue that suits groups", () => {
+    const notForGroups = place({ goodForGroups: false });
+    expect(failsIntent(notForGroups, { partySize: 4 })).toBe(false);
+    expect(failsIntent(notForGroups, { partySize: 5 })).toBe(true);
+    expect(failsIntent(place({ goodForGroups: true }), { partySize: 8 })).toBe(false);
+  });
+
+  test("any unmet dietary need rules a venue out", () => {
+    const noVegetarian = place({ servesVegetarianFood: false });
+    expect(failsIntent(noVegetarian, { dietary: ["vegetarian"] })).toBe(true);
+    // Vegan falls back on the vegetarian attribute, unless the venue is tagged vegan
+    expect(failsIntent(noVegetarian, { dietary: ["vegan"] })).toBe(true);
+    expect(failsIntent(place({ servesVegetarianFood: false, tags: ["vegan"] }), { dietary: ["vegan"] })).toBe(false);
+  });
+
+  test("seating follows Google attributes, then tags", () => {
+    expect(failsIntent(place({ outdoorSeating: false, tags: ["outdoor"] }), { seating: "outdoor" })).toBe(true);
+    expect(failsIntent(place({ tags: ["outdoor"] }), { seating: "outdoor" })).toBe(false);
+    expect(failsIntent(place({ dineIn: false }), { seating: "indoor" })).toBe(true);
+    expect(failsIntent(place({ dineIn: false, seatingTypes: ["indoor"] }), { seating: "indoor" })).toBe(false);
+  });
+
+  test("venues priced above the budget are excluded", () => {
+    expect(failsIntent(place({ priceLevel: "High" }), { budgetPerPerson: 100 })).toBe(true);
+    expect(failsIntent(place({ priceLevel: "Mid" }), { budgetPerPerson: 100 })).toBe(false);
+    expect(failsIntent(place({ priceLevel: "Low" }), { budgetPerPerson: 100 })).toBe(false);
+  });
+
+  test("unknown occasions and seating options are ignored", () => {
+    expect(failsIntent(place(), { occasion: "graduation", seating: "hammock" })).toBe(false);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Search Intent Signals
+ *
+ * Maps the richer parts of a parsed query - party size, occasion, dietary needs, budget per
+ * person and seating - onto searchPlaces using the Google attributes we store
+ * (goodForGroups, reservable, servesVegetarianFood, outdoorSeating, ...):
+ * - an attribute that rules a venue out (goodForGroups: false for a party of 8) excludes it
+ * - a matching attribute is a scoring signal
+ * Unknown attributes (most manually added venues) never exclude a venue.
+ */
+
+import { Doc } from "./_generated/dataModel";
+import { addContribution, ScoreContribution, ScoringWeights } from "./scoring";
+
+export const OCCASIONS = ["date", "business", "birthday", "celebration"] as const;
+export const DIETARY_NEEDS = ["halal", "vegetarian", "vegan", "gluten-free"] as const;
+export const SEATING_OPTIONS = ["indoor", "outdoor", "sofa", "high-chair"] as const;
+
+// Most a person spends at each price level, in AED
+const PRICE_LEVEL_MAX_AED: Array<[string, number]> = [
+  ["Low", 60],
+  ["Mid", 150],
+  ["High", 300],
+  ["Lux", Infinity],
+];
+
+// Party size from which a venue has to suit groups
+const GROUP_SIZE = 5;
+
+// Party size from which being able to book counts
+const RESERVATION_SIZE = 6;
+
+export interface IntentFilters {
+  partySize?: number;
+  occasion?: string;
+  dietary?: string[];
+  budgetPerPerson?: number; // AED
+  seating?: string;
+}
+
+type Place = Doc<"places">;
+
+// true / false from an attribute, undefined when we don't know
+type Signal = (place: Place) => boolean | undefined;
+
+function tagged(place: Place, tag: string): true | undefined {
+  return place.tags.includes(tag) || place.seatingTypes?.includes(tag) ? true : undefined;
+}
+
+const reservable: Signal = (place) => place.reservable;
+const goodForGroups: Signal = (place) => place.goodForGroups;
+
+const OCCASION_SIGNALS: Record<string, Array<{ label: string; signal: Signal }>> = {
+  date: [
+    { label: "Calm enough to talk", signal: (place) => (place.noise ? place.noise !== "Lively" : undefined) },
+    { label: "Takes reservations", signal: reservable },
+  ],
+  business: [
+    { label: "Quiet for a meeting", signal: (place) => (place.noise ? place.noise === "Quiet" : undefined) },
+    { label: "Takes reservations", signal: reservable },
+  ],
+  birthday: [
+    { label: "Good for groups", signal: goodForGroups },
+    { label: "Takes reservations", signal: reservable },
+  ],
+  celebration: [
+    { label: "Good for groups", signal: goodForGroups },
+    { label: "Live music", signal: (place) => place.liveMusic },
+  ],
+};
+
+const DIETARY_SIGNALS: Record<string, Signal> = {
+  vegetarian: (place) => place.servesVegetarianFood,
+  // Google has no vegan attribute; vegetarian options are the closest signal
+  vegan: (place) => tagged(place, "vegan") ?? place.servesVegetarianFood,
+  halal: (place) => tagged(place, "halal"),
+  "gluten-free": (place) => tagged(place, "gluten-free"),
+};
+
+const SEATING_SIGNALS: Record<string, Signal> = {
+  outdoor: (place) => place.outdoorSeating ?? tagged(place, "outdoor"),
+  indoor: (place) => tagged(place, "indoor") ?? place.dineIn,
+  sofa: (place) => tagged(place, "sofa"),
+  "high-chair": (place) => tagged(place, "high-chair") ?? place.goodForChildren,
+};
+
+/**
+ * The price level a budget per person affords (venues above it are excluded)
+ */
+export function budgetToPriceLevel(budgetPerPerson: number): string {
+  return PRICE_LEVEL_MAX_AED.find(([, max]) => budgetPerPerson <= max)![0];
+}
+
+function priceRank(level: string): number {
+  return PRICE_LEVEL_MAX_AED.findIndex(([name]) => name === level);
+}
+
+/**
+ * Whether the venue's known attributes rule it out
+ */
+export function failsIntent(place: Place, intent: IntentFilters): boolean {
+  if (intent.partySize !== undefined && intent.partySize >= GROUP_SIZE && place.goodForGroups === false) {
+    return true;
+  }
+  if (intent.dietary?.some((need) => DIETARY_SIGNALS[need]?.(place) === false)) {
+    return true;
+  }
+  if (intent.seating && SEATING_SIGNALS[intent.seating]?.(place) === false) {
+    return true;
+  }
+  if (intent.budgetPerPerson !== undefined) {
+    return priceRank(place.priceLevel) > priceRank(budgetToPriceLevel(intent.budgetPerPerson));
+  }
+  return false;
+}
+
+/**
+ * Add the venue's intent matches to its score breakdown and reasons
+ */
+export function scoreIntent(
+  place: Place,
+  intent: IntentFilters,
+  weights: ScoringWeights,
+  breakdown: ScoreContribution[],
+  reasons: string[]
+): void {
+  if (intent.partySize !== undefined && intent.partySize >= GROUP_SIZE && place.goodForGroups) {
+    addContribution(breakdown, "party", `Good for groups of ${intent.partySize}`, weights.groupFitBonus);
+    reasons.push("Good for groups");
+  }
+  if (intent.partySize !== undefined && intent.partySize >= RESERVATION_SIZE && place.reservable) {
+    addContribution(breakdown, "party", "Takes reservations", weights.reservationBonus);
+  }
+
+  for (const { label, signal } of OCCASION_SIGNALS[intent.occasion ?? ""] ?? []) {
+    if (signal(place)) {
+      addContribution(breakdown, "occasion", `${label} (${intent.occasion})`, weights.occasionFitBonus);
+    }
+  }
+
+  for (const need of intent.dietary ?? []) {
+    const label = need === "vegetarian" || need === "vegan" ? "Vegetarian options" : need.charAt(0).toUpperCase() + need.slice(1);
+    if (DIETARY_SIGNALS[need]?.(place) && !reasons.includes(label)) {
+      addContribution(breakdown, "dietary", label, weights.dietaryMatchBonus);
+      reasons.push(label);
+    }
+  }
+
+  if (intent.budgetPerPerson !== undefined && place.priceLevel === budgetToPriceLevel(intent.budgetPerPerson)) {
+    addContribution(breakdown, "budget", `Fits AED ${intent.budgetPerPerson} per person`, weights.budgetFitBonus);
+  }
+
+  if (intent.seating && SEATING_SIGNALS[intent.seating]?.(place)) {
+    addContribution(breakdown, "seating", `${intent.seating.charAt(0).toUpperCase()}${intent.seating.slice(1)} seating`, weights.seatingMatchBonus);
+  }
+}
@@ -1,19 +1,29 @@
-import { mutation } from "./_generated/server";
+import { internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { legacyHoursToModel, upsertPlaceHours } from "./openingHours";
+import { buildSearchText, toAreaKey } from "./places";
 
-// Clear all places from the database
-export const clearPlaces = mutation({
+// Clear all places from the database (internal: npx convex run seedData:clearPlaces)
+export const clearPlaces = internalMutation({
   args: {},
   handler: async (ctx) => {
     const places = await ctx.db.query("places").collect();
     for (const place of places) {
       await ctx.db.delete(place._id);
     }
+
+    // Normalized hours belong to the deleted places
+    const hours = await ctx.db.query("placeHours").collect();
+    for (const entry of hours) {
+      await ctx.db.delete(entry._id);
+    }
+
     return { message: `Deleted ${places.length} places` };
   },
 });
 
-// Sample Dubai venues data for MVP testing
-export const seedPlaces = mutation({
+// Sample Dubai venues data for MVP testing (internal: npx convex run seedData:seedPlaces)
+export const seedPlaces = internalMutation({
   args: {},
   handler: async (ctx) => {
     const places = [
@@ -380,10 +390,26 @@ export const seedPlaces = mutation({
     ];
 
     for (const place of places) {
-      await ctx.db.insert("places", {
+      const placeId = await ctx.db.insert("places", {
         ...place,
+        areaKey: toAreaKey(place.area),
+        searchText: buildSearchText(place),
         dataSource: "manual", // All seed data is manually curated
       });
+
+      const hours = legacyHoursToModel(place.openingHours);
+      if (hours) {
+        await upsertPlaceHours(ctx, placeId, { ...hours, source: "manual" });
+      }
+    }
+
+    // Places already in the table may predate area keys and the keyword index
+    const unkeyed = await ctx.db
+      .query("places")
+      .withIndex("by_area_key", (q) => q.eq("areaKey", undefined))
+      .first();
+    if (unkeyed) {
+      await ctx.scheduler.runAfter(0, internal.places.backfillSearchText, {});
     }
 
     return { message: `Seeded ${places.length} places successfully` };
@@ -1,25 +1,12 @@
-import { action, internalAction } from "./_generated/server";
+import { action, ActionCtx, internalAction } from "./_generated/server";
 import { v } from "convex/values";
+import { FunctionReference, FunctionReturnType } from "convex/server";
 import { api, components, internal } from "./_generated/api";
-import OpenAI from "openai";
 import { ActionCache } from "@convex-dev/action-cache";
-
-// Initialize OpenAI client configured for OpenRouter
-const getOpenAIClient = () => {
-  const apiKey = process.env.OPENROUTER_API_KEY;
-  if (!apiKey) {
-    throw new Error("OPENROUTER_API_KEY environment variable is not set");
-  }
-
-  return new OpenAI({
-    baseURL: "https://openrouter.ai/api/v1",
-    apiKey: apiKey,
-    defaultHeaders: {
-      "HTTP-Referer": process.env.APP_URL || "http://localhost:3000",
-      "X-Title": "Where2 Dubai",
-    },
-  });
-};
+import { resolveOpenAt } from "./openingHours";
+import { toAreaKey } from "./places";
+import { embed } from "./llm";
+import { checkAIRateLimit, RateLimitInfo } from "./rateLimits";
 
 // Query embedding cache - caches embeddings for 24 hours
 const queryEmbeddingCache = new ActionCache(components.actionCache, {
@@ -30,21 +17,39 @@ const queryEmbeddingCache = new ActionCache(components.actionCache, {
 
 /**
  * Internal action to generate query embedding (cached)
+ * The spend counts against the caller whose lookup missed (see semanticSearch)
  */
 export const generateQueryEmbeddingInternal = internalAction({
   args: {
     query: v.string(),
+    userKey: v.optional(v.string()), // Added on a miss, never part of the cache key
   },
   handler: async (ctx, args) => {
-    const client = getOpenAIClient();
-    const response = await client.embeddings.create({
-      model: "openai/text-embedding-3-small",
-      input: args.query,
-    });
-    return response.data[0].embedding;
+    const { embedding } = await embed(ctx, args.query, { userKey: args.userKey });
+    return embedding;
   },
 });
 
+// A venue as getPlaceById returns it, plus how it scored against the query
+export type SemanticPlace = NonNullable<FunctionReturnType<typeof api.places.getPlaceById>> & {
+  distance?: number;
+  semanticScore: number;
+  combinedScore: number;
+};
+
+interface SemanticSearchResults {
+  places: SemanticPlace[];
+  bestMatch: SemanticPlace | null;
+  totalCount: number;
+  openAt: number | null;
+  searchType: "semantic";
+}
+
+// Rate-limited calls come back empty, with success: false and the limit that was hit
+export type SemanticSearchResult =
+  | (SemanticSearchResults & { success?: undefined; error?: undefined })
+  | (SemanticSearchResults & { success: false; error: "rate_limited"; rateLimit: RateLimitInfo });
+
 /**
  * Semantic search using vector similarity
  */
@@ -61,52 +66,76 @@ export const semanticSearch = action({
         cuisine: v.optional(v.array(v.string())),
         minRating: v.optional(v.number()),
         openNow: v.optional(v.boolean()),
+        openAt: v.optional(v.union(v.number(), v.string())), // Timestamp or phrase like "tonight at 11"
       })
     ),
     limit: v.optional(v.number()),
     userLat: v.optional(v.number()),
     userLon: v.optional(v.number()),
+    guestId: v.optional(v.string()),
   },
-  handler: async (ctx, args): Promise<any> => {
+  handler: async (ctx, args): Promise<SemanticSearchResult> => {
     const limit = args.limit || 50;
 
+    const { userKey, limited } = await checkAIRateLimit(ctx, "semantic", args.guestId);
+    if (limited) {
+      return {
+        success: false,
+        error: "rate_limited",
+        rateLimit: limited,
+        places: [],
+        bestMatch: null,
+        totalCount: 0,
+        openAt: null,
+        searchType: "semantic",
+      };
+    }
+
     // Get cached query embedding (or generate if not cached)
-    const queryEmbedding: number[] = await queryEmbeddingCache.fetch(ctx, {
+    // Only a miss embeds; the caller's key goes along with that call (not the lookup),
+    // so the spend counts against them while the embedding stays shared
+    const attributingCtx = {
+      runQuery: ctx.runQuery,
+      runMutation: ctx.runMutation,
+      runAction: ((reference: FunctionReference<"action", "internal">, args: Record<string, unknown>) =>
+        ctx.runAction(reference, { ...args, userKey: userKey ?? undefined })) as ActionCtx["runAction"],
+    };
+    const queryEmbedding: number[] = await queryEmbeddingCache.fetch(attributingCtx, {
       query: args.query,
     });
 
-    // Build filter expression for vector search
+    // Vector filters can only OR equality checks together, so the index narrows on one
+    // field (area, else category, price, metro) and every filter is re-checked below
+    const filters = args.filters;
     const filterExpression = (q: any) => {
-      const conditions: any[] = [];
-
-      if (args.filters?.category) {
-        conditions.push(q.eq("category", args.filters.category));
-      }
-      if (args.filters?.priceLevel) {
-        conditions.push(q.eq("priceLevel", args.filters.priceLevel));
-      }
-      if (args.filters?.area) {
-        conditions.push(q.eq("area", args.filters.area));
+      if (filters?.area) {
+        // Rows the areaKey backfill hasn't reached have none; they're matched on area below
+        return q.or(q.eq("areaKey", toAreaKey(filters.area)), q.eq("areaKey", undefined));
       }
-      if (args.filters?.nearMetro !== undefined) {
-        conditions.push(q.eq("nearMetro", args.filters.nearMetro));
-      }
-
-      return conditions.length > 0 ? q.and(...conditions) : undefined;
+      if (filters?.category) return q.eq("category", filters.category);
+      if (filters?.priceLevel) return q.eq("priceLevel", filters.priceLevel);
+      return q.eq("nearMetro", filters?.nearMetro);
     };
+    const hasIndexFilters =
+      !!filters?.category || !!filters?.priceLevel || !!filters?.area || filters?.nearMetro !== undefined;
 
-    // Perform vector search
+    // Perform vector search (a filter that returns nothing would match no venues, so only pass one with conditions)
     const vectorResults: any[] = await ctx.vectorSearch("places", "by_semantic_search", {
       vector: queryEmbedding,
       limit,
-      filter: filterExpression,
+      filter: hasIndexFilters ? filterExpression : undefined,
     });
 
-    // Enrich results with full place data and scoring
+    // Evaluate hours at the requested time (Dubai time), defaulting to now
+    const now = Date.now();
+    const openAt = resolveOpenAt(args.filters?.openAt, now);
+
+    // Enrich results with full place data, open status and scoring
     const enrichedResults: any[] = await Promise.all(
       vectorResults.map(async (result: any) => {
         const place: any = await ctx.runQuery(api.places.getPlaceById, {
           placeId: result._id,
+          openAt: openAt ?? now,
         });
 
         if (!place) return null;
@@ -145,6 +174,22 @@ export const semanticSearch = action({
     // Filter out nulls and apply additional filters
     let filteredResults: any[] = enrichedResults.filter((r: any) => r !== null);
 
+    // Apply the index filters the vector search didn't narrow on
+    // (rows without an area key pass the vector filter for any area)
+    if (filters?.area) {
+      const areaKey = toAreaKey(filters.area);
+      filteredResults = filteredResults.filter((place: any) => toAreaKey(place.area) === areaKey);
+    }
+    if (filters?.category) {
+      filteredResults = filteredResults.filter((place: any) => place.category === filters.category);
+    }
+    if (filters?.priceLevel) {
+      filteredResults = filteredResults.filter((place: any) => place.priceLevel === filters.priceLevel);
+    }
+    if (filters?.nearMetro !== undefined) {
+      filteredResults = filteredResults.filter((place: any) => place.nearMetro === filters.nearMetro);
+    }
+
     // Apply tag filters (post-filter since tags not in vector index)
     if (args.filters?.tags && args.filters.tags.length > 0) {
       filteredResults = filteredResults.filter((place: any) =>
@@ -166,32 +211,9 @@ export const semanticSearch = action({
       );
     }
 
-    // Apply openNow filter if requested
-    if (args.filters?.openNow) {
-      const now = new Date();
-      const dayOfWeek = [
-        "sunday",
-        "monday",
-        "tuesday",
-        "wednesday",
-        "thursday",
-        "friday",
-        "saturday",
-      ][now.getDay()];
-      const currentTime = now.toLocaleTimeString("en-US", {
-        hour12: false,
-        hour: "2-digit",
-        minute: "2-digit",
-        timeZone: "Asia/Dubai",
-      });
-
-      filteredResults = filteredResults.filter((place: any) => {
-        const hours = (place.openingHours as any)[dayOfWeek];
-        if (!hours || hours === "Closed") return false;
-
-        const [openTime, closeTime] = hours.split("-").map((t: string) => t.trim());
-        return currentTime >= openTime && currentTime <= closeTime;
-      });
+    // Apply openNow / openAt filter if requested (skip unknown hours)
+    if (args.filters?.openNow || openAt !== null) {
+      filteredResults = filteredResults.filter((place: any) => place.isOpen === true);
     }
 
     // Sort by combined score
@@ -204,6 +226,7 @@ export const semanticSearch = action({
       places: filteredResults,
       bestMatch,
       totalCount: filteredResults.length,
+      openAt,
       searchType: "semantic",
     };
   },
@@ -0,0 +1,299 @@
+/**
+ * Tag Taxonomy
+ *
+ * The one vocabulary of venue tags. Each tag has English and Arabic labels, synonyms,
+ * a parent group and the Google boolean attributes that imply it (outdoorSeating means
+ * "outdoor"). Everything that names tags is generated from it: the parser's tag enum,
+ * the chat agent's search tool, the enrichment prompt, FilterChips, autocomplete labels
+ * and the validation in updatePlaceEnrichment.
+ *
+ * Built-in tags live in DEFAULT_TAG_TAXONOMY; curators add, edit or retire tags in the
+ * tagTaxonomy table, whose rows override the built-ins by slug.
+ */
+
+import { v, Infer } from "convex/values";
+import { query, mutation, ActionCtx, QueryCtx } from "./_generated/server";
+import { api } from "./_generated/api";
+import { Doc } from "./_generated/dataModel";
+import { tagDefinitionValidator } from "./schema";
+import { requireRole } from "./users";
+
+export type TagDefinition = Infer<typeof tagDefinitionValidator>;
+
+export const TAG_GROUPS: Record<string, { label: string; labelAr: string }> = {
+  audience: { label: "Who it's for", labelAr: "لمن" },
+  setting: { label: "Setting", labelAr: "المكان" },
+  vibe: { label: "Vibe", labelAr: "الأجواء" },
+  occasion: { label: "Good for", labelAr: "مناسب لـ" },
+  meal: { label: "Meals", labelAr: "الوجبات" },
+  dietary: { label: "Dietary", labelAr: "النظام الغذائي" },
+};
+
+function tag(
+  slug: string,
+  label: string,
+  labelAr: string,
+  group: string,
+  synonyms: string[],
+  options: { googleAttributes?: string[]; filterChip?: boolean } = {}
+): TagDefinition {
+  return {
+    slug,
+    label,
+    labelAr,
+    synonyms,
+    group,
+    googleAttributes: options.googleAttributes ?? [],
+    filterChip: options.filterChip ?? false,
+  };
+}
+
+export const DEFAULT_TAG_TAXONOMY: TagDefinition[] = [
+  tag("family-friendly", "Family-friendly", "مناسب للعائلات", "audience", ["family", "families"], { filterChip: true }),
+  tag("kid-friendly", "Kid-friendly", "مناسب للأطفال", "audience", ["kids", "children", "child-friendly"], {
+    googleAttributes: ["goodForChildren"],
+  }),
+  tag("pet-friendly", "Pet-friendly", "يسمح بالحيوانات الأليفة", "audience", ["pets", "dogs", "dog-friendly"]),
+  tag("work-friendly", "Work-friendly", "مناسب للعمل", "audience", ["laptop", "remote work", "work from cafe"]),
+
+  tag("outdoor", "Outdoor", "جلسات خارجية", "setting", ["outside", "terrace", "patio", "al fresco"], {
+    googleAttributes: ["outdoorSeating"],
+    filterChip: true,
+  }),
+  tag("indoor", "Indoor", "داخلي", "setting", ["inside", "air-conditioned", "air conditioned"], { filterChip: true }),
+  tag("waterfront", "Waterfront", "على الواجهة المائية", "setting", ["by the water", "sea view", "marina view", "creek"], {
+    filterChip: true,
+  }),
+  tag("beach", "Beach", "شاطئ", "setting", ["beachfront", "on the beach"]),
+  tag("rooftop", "Rooftop", "سطح", "setting", ["roof terrace", "roof top"]),
+  tag("view", "View", "إطلالة", "setting", ["skyline", "scenic", "burj view"]),
+
+  tag("quiet", "Quiet", "هادئ", "vibe", ["calm", "peaceful"], { filterChip: true }),
+  tag("lively", "Lively", "حيوي", "vibe", ["buzzing", "vibrant"]),
+  tag("live-music", "Live music", "موسيقى حية", "vibe", ["live band", "band"], { googleAttributes: ["liveMusic"] }),
+  tag("romantic", "Romantic", "رومانسي", "vibe", ["intimate", "cozy"]),
+  tag("casual", "Casual", "غير رسمي", "vibe", ["laid-back", "relaxed"]),
+  tag("upscale", "Upscale", "راقٍ", "vibe", ["fancy", "fine dining", "luxury"]),
+
+  tag("good-for-groups", "Good for groups", "مناسب للمجموعات", "occasion", ["groups", "large party"], {
+    googleAttributes: ["goodForGroups"],
+  }),
+  tag("good-for-dates", "Good for dates", "مناسب للمواعيد", "occasion", ["date night", "date"]),
+  tag("good-for-meetings", "Good for meetings", "مناسب للاجتماعات", "occasion", ["meetings", "business"]),
+
+  tag("breakfast-spot", "Breakfast", "فطور", "meal", ["breakfast"], { googleAttributes: ["servesBreakfast"] }),
+  tag("brunch-spot", "Brunch", "برانش", "meal", ["brunch"], { googleAttributes: ["servesBrunch"] }),
+  tag("late-night", "Late night", "يفتح متأخراً", "meal", ["open late", "after midnight"]),
+
+  tag("vegetarian", "Vegetarian", "نباتي", "dietary", ["veggie"], { googleAttributes: ["servesVegetarianFood"] }),
+  tag("vegan", "Vegan", "نباتي صرف", "dietary", ["plant-based"]),
+  tag("halal", "Halal", "حلال", "dietary", []),
+  tag("gluten-free", "Gluten-free", "خالٍ من الغلوتين", "dietary", ["coeliac", "celiac"]),
+];
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+/**
+ * The effective taxonomy: built-in tags with stored rows merged over them, in group order
+ * Stored rows override by slug, so new built-in tags show up without re-saving anything
+ */
+export async function loadTagTaxonomy(ctx: QueryCtx): Promise<TagDefinition[]> {
+  const stored = await ctx.db.query("tagTaxonomy").collect();
+  const bySlug = new Map(DEFAULT_TAG_TAXONOMY.map((definition) => [definition.slug, definition]));
+
+  for (const row of stored) {
+    if (row.retired) {
+      bySlug.delete(row.slug);
+    } else {
+      bySlug.set(row.slug, toDefinition(row));
+    }
+  }
+
+  const groups = Object.keys(TAG_GROUPS);
+  return Array.from(bySlug.values()).sort((a, b) => groups.indexOf(a.group) - groups.indexOf(b.group));
+}
+
+function toDefinition(row: Doc<"tagTaxonomy">): TagDefinition {
+  const { slug, label, labelAr, synonyms, group, googleAttributes, filterChip } = row;
+  return { slug, label, labelAr, synonyms, group, googleAttributes, filterChip };
+}
+
+/**
+ * All tags (FilterChips, autocomplete, and actions that build prompts or schemas)
+ */
+export const listTags = query({
+  args: {},
+  handler: async (ctx): Promise<TagDefinition[]> => {
+    return await loadTagTaxonomy(ctx);
+  },
+});
+
+/**
+ * The effective taxonomy from an action (parser, chat agent, enrichment)
+ */
+export async function fetchTagTaxonomy(ctx: ActionCtx): Promise<TagDefinition[]> {
+  return await ctx.runQuery(api.tagTaxonomy.listTags, {});
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+function normalize(text: string): string {
+  return text.trim().toLowerCase().replace(/[\s_]+/g, "-");
+}
+
+/**
+ * The slug a tag, label or synonym refers to ("Kids" -> "kid-friendly"), or null
+ */
+export function resolveTag(taxonomy: TagDefinition[], text: string): string | null {
+  const wanted = normalize(text);
+  const match = taxonomy.find((definition) =>
+    [definition.slug, definition.label, ...definition.synonyms].some((name) => normalize(name) === wanted)
+  );
+  return match?.slug ?? null;
+}
+
+/**
+ * Map tags to their slugs, throwing on any the taxonomy doesn't know
+ */
+export function validateTags(taxonomy: TagDefinition[], tags: string[]): string[] {
+  const unknown = tags.filter((name) => !resolveTag(taxonomy, name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown tags: ${unknown.join(", ")}`);
+  }
+  return Array.from(new Set(tags.map((name) => resolveTag(taxonomy, name)!)));
+}
+
+/**
+ * Whether a venue has a tag - tagged directly, or implied by one of its Google attributes
+ */
+export function placeHasTag(place: Doc<"places">, slug: string, taxonomy: TagDefinition[]): boolean {
+  if (place.tags.some((name) => name.toLowerCase() === slug.toLowerCase())) {
+    return true;
+  }
+  const definition = taxonomy.find((candidate) => candidate.slug === slug);
+  const attributes = place as unknown as Record<string, unknown>;
+  return definition?.googleAttributes.some((attribute) => attributes[attribute] === true) ?? false;
+}
+
+/**
+ * Tags a venue's Google attributes imply that it isn't tagged with yet
+ */
+export function impliedTags(place: Doc<"places">, taxonomy: TagDefinition[]): string[] {
+  return taxonomy
+    .filter((definition) => !place.tags.includes(definition.slug) && placeHasTag(place, definition.slug, taxonomy))
+    .map((definition) => definition.slug);
+}
+
+/**
+ * Short fingerprint of the taxonomy that changes whenever a tag is added, edited or retired
+ * (keys cached parses, whose tags come from the taxonomy they were parsed with)
+ */
+export function taxonomyVersion(taxonomy: TagDefinition[]): string {
+  // FNV-1a over the serialized definitions
+  const text = JSON.stringify(taxonomy);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193) >>> 0;
+  }
+  return hash.toString(36);
+}
+
+// ============================================================================
+// Prompts and schemas
+// ============================================================================
+
+/**
+ * Description for a tags field in a JSON schema or tool definition, listing synonyms
+ */
+export function describeTagsForSchema(taxonomy: TagDefinition[]): string {
+  const withSynonyms = taxonomy
+    .filter((definition) => definition.synonyms.length > 0)
+    .map((definition) => `${definition.slug} (${definition.synonyms.join(", ")})`);
+  return `Venue characteristics. Synonyms: ${withSynonyms.join("; ")}`;
+}
+
+/**
+ * The tag list for prompts, one line per group, e.g. "- Setting: outdoor, indoor, ..."
+ */
+export function describeTagsForPrompt(taxonomy: TagDefinition[]): string {
+  return Object.entries(TAG_GROUPS)
+    .map(([group, { label }]) => {
+      const slugs = taxonomy.filter((definition) => definition.group === group).map((definition) => definition.slug);
+      return slugs.length > 0 ? `- ${label}: ${slugs.join(", ")}` : null;
+    })
+    .filter((line): line is string => line !== null)
+    .join("\n");
+}
+
+// ============================================================================
+// Editing (curators)
+// ============================================================================
+
+/**
+ * Add a tag or replace a tag's definition (curator action)
+ */
+export const upsertTag = mutation({
+  args: { tag: tagDefinitionValidator },
+  handler: async (ctx, args) => {
+    const actor = await requireRole(ctx, "curator");
+
+    const slug = normalize(args.tag.slug);
+    if (!/^[a-z0-9-]+$/.test(slug)) {
+      throw new Error(`Invalid tag slug: ${args.tag.slug}`);
+    }
+    if (!TAG_GROUPS[args.tag.group]) {
+      throw new Error(`Unknown tag group: ${args.tag.group}`);
+    }
+    const taxonomy = await loadTagTaxonomy(ctx);
+    const clash = args.tag.synonyms.find((synonym) => {
+      const owner = resolveTag(taxonomy, synonym);
+      return owner !== null && owner !== slug;
+    });
+    if (clash) {
+      throw new Error(`"${clash}" already refers to ${resolveTag(taxonomy, clash)}`);
+    }
+
+    const definition = { ...args.tag, slug, synonyms: args.tag.synonyms.map((synonym) => synonym.trim()).filter(Boolean) };
+    const existing = await ctx.db
+      .query("tagTaxonomy")
+      .withIndex("by_slug", (q) => q.eq("slug", slug))
+      .first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, { ...definition, retired: undefined, updatedAt: Date.now(), updatedBy: actor.label });
+      return existing._id;
+    }
+    return await ctx.db.insert("tagTaxonomy", { ...definition, updatedAt: Date.now(), updatedBy: actor.label });
+  },
+});
+
+/**
+ * Stop offering a tag (curator action). Venues keep it until re-enriched.
+ */
+export const retireTag = mutation({
+  args: { slug: v.string() },
+  handler: async (ctx, args) => {
+    const actor = await requireRole(ctx, "curator");
+
+    const taxonomy = await loadTagTaxonomy(ctx);
+    const current = taxonomy.find((definition) => definition.slug === args.slug);
+    if (!current) {
+      throw new Error(`Unknown tag: ${args.slug}`);
+    }
+
+    const existing = await ctx.db
+      .query("tagTaxonomy")
+      .withIndex("by_slug", (q) => q.eq("slug", args.slug))
+      .first();
+    if (existing) {
+      await ctx.db.patch(existing._id, { retired: true, updatedAt: Date.now(), updatedBy: actor.label });
+    } else {
+      await ctx.db.insert("tagTaxonomy", { ...current, retired: true, updatedAt: Date.now(), updatedBy: actor.label });
+    }
+    return { success: true };
+  },
+});
@@ -0,0 +1,48 @@
+/// <reference types="vite/client" />
+/**
+ * Test Harness
+ *
+ * Builds a convex-test backend with this app's functions and the components from
+ * convex.config.ts, seeded with the sample venues from seedData.ts. Tests run with the fake
+ * LLM backend, stub weather and Google Places fixtures, so nothing leaves the machine.
+ */
+
+import { convexTest } from "convex-test";
+import actionCacheTest from "@convex-dev/action-cache/test";
+import ratelimiterSchema from "../node_modules/@convex-dev/ratelimiter/dist/esm/component/schema.js";
+import { internal } from "./_generated/api";
+import schema from "./schema";
+
+// Every function module, without tests and this file
+export const modules = import.meta.glob("./**/!(*.*.*)*.*s");
+
+const ratelimiterModules = import.meta.glob("../node_modules/@convex-dev/ratelimiter/dist/esm/component/**/*.js");
+
+const DUBAI_UTC_OFFSET_MS = 4 * 60 * 60 * 1000;
+
+/**
+ * A timestamp for a Dubai wall-clock time ("2025-03-17T20:00" is a Monday evening)
+ */
+export function dubaiTime(localIso: string): number {
+  return Date.parse(`${localIso}Z`) - DUBAI_UTC_OFFSET_MS;
+}
+
+export function setupTest() {
+  process.env.LLM_BACKEND = "fake";
+  process.env.WEATHER_PROVIDER = "stub";
+  process.env.GOOGLE_PLACES_BACKEND = "fixtures";
+
+  const t = convexTest(schema, modules);
+  actionCacheTest.register(t, "actionCache");
+  t.registerComponent("ratelimiter", ratelimiterSchema, ratelimiterModules);
+  return t;
+}
+
+/**
+ * A test backend with the seedData.ts venues (and their normalized hours) loaded
+ */
+export async function setupSeededTest() {
+  const t = setupTest();
+  await t.mutation(internal.seedData.seedPlaces, {});
+  return t;
+}
@@ -0,0 +1,242 @@
+/**
+ * User Identity and Roles
+ *
+ * User-owned rows (preferences, search history, conversations, feedback) are keyed by a
+ * string: the account id when signed in, otherwise the browser's guest id. The server
+ * decides which - a client-supplied id is only ever accepted as a guest id.
+ *
+ * Write paths beyond a user's own data are gated with requireRole: "curator" for venue
+ * data, hours, enrichment, Google sync and feedback review; "admin" for ranking weights,
+ * bulk maintenance and role changes. Bootstrap the first admin from the CLI:
+ *
+ *   npx convex run users:grantRole '{"email": "you@example.com", "role": "admin"}'
+ */
+
+import { v, Infer } from "convex/values";
+import { Auth } from "convex/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { ActionCtx, internalMutation, internalQuery, mutation, query, QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { roleValidator } from "./schema";
+
+export type Role = Infer<typeof roleValidator>;
+
+const ROLE_RANK: Record<Role, number> = { user: 0, curator: 1, admin: 2 };
+
+// Guest ids generated in the browser (app/page.tsx): "user-<timestamp>-<random>"
+const GUEST_ID_PATTERN = /^user-\d+-[a-z0-9]+$/;
+
+/**
+ * Key for the caller's rows: the signed-in account, else a well-formed guest id, else null.
+ * Account ids never match the guest pattern, so passing one as a guest id gets nothing.
+ */
+export async function getUserKey(ctx: { auth: Auth }, guestId?: string): Promise<string | null> {
+  const userId = await getAuthUserId(ctx);
+  if (userId) {
+    return userId;
+  }
+  return guestId && GUEST_ID_PATTERN.test(guestId) ? guestId : null;
+}
+
+/**
+ * Like getUserKey, for writes that need an owner
+ */
+export async function requireUserKey(ctx: { auth: Auth }, guestId?: string): Promise<string> {
+  const key = await getUserKey(ctx, guestId);
+  if (!key) {
+    throw new Error("Not signed in and no valid guest id");
+  }
+  return key;
+}
+
+// ============================================================================
+// Roles
+// ============================================================================
+
+interface Actor {
+  userId: Id<"users">;
+  role: Role;
+  label: string; // for audit fields like reviewedBy
+}
+
+async function loadActor(ctx: QueryCtx): Promise<Actor | null> {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) {
+    return null;
+  }
+  const user = await ctx.db.get(userId);
+  if (!user) {
+    return null;
+  }
+  return { userId, role: user.role ?? "user", label: user.email ?? userId };
+}
+
+/**
+ * The signed-in caller, if their role is at least `minimum`; throws otherwise.
+ * Works from queries, mutations and actions (actions look the role up via a query).
+ */
+export async function requireRole(ctx: QueryCtx | ActionCtx, minimum: Role): Promise<Actor> {
+  const actor: Actor | null =
+    "db" in ctx ? await loadActor(ctx) : await ctx.runQuery(internal.users.getActor, {});
+
+  if (!actor) {
+    throw new Error("Not signed in");
+  }
+  if (ROLE_RANK[actor.role] < ROLE_RANK[minimum]) {
+    throw new Error(`Forbidden: requires the ${minimum} role`);
+  }
+  return actor;
+}
+
+export const getActor = internalQuery({
+  args: {},
+  handler: async (ctx): Promise<Actor | null> => {
+    return await loadActor(ctx);
+  },
+});
+
+/**
+ * Change another account's role (admin only)
+ */
+export const setUserRole = mutation({
+  args: {
+    userId: v.id("users"),
+    role: roleValidator,
+  },
+  handler: async (ctx, args) => {
+    const actor = await requireRole(ctx, "admin");
+
+    if (actor.userId === args.userId) {
+      throw new Error("Admins can't change their own role");
+    }
+
+    const user = await ctx.db.get(args.userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+    await ctx.db.patch(args.userId, { role: args.role });
+    return { success: true };
+  },
+});
+
+/**
+ * Set a role by email from the CLI - the only way to create the first admin
+ */
+export const grantRole = internalMutation({
+  args: {
+    email: v.string(),
+    role: roleValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await ctx.db
+      .query("users")
+      .withIndex("email", (q) => q.eq("email", args.email.toLowerCase()))
+      .first();
+    if (!user) {
+      throw new Error(`No account for ${args.email} - sign in once first`);
+    }
+    await ctx.db.patch(user._id, { role: args.role });
+    return { userId: user._id, role: args.role };
+  },
+});
+
+// ============================================================================
+// Account
+// ============================================================================
+
+/**
+ * The signed-in user, or null for guests
+ */
+export const viewer = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+
+    const user = await ctx.db.get(userId);
+    return user
+      ? { _id: user._id, email: user.email ?? null, name: user.name ?? null, role: user.role ?? "user" }
+      : null;
+  },
+});
+
+/**
+ * Move a guest's preferences, search history, conversations and feedback onto the
+ * signed-in account. Called after sign-in; a no-op once the guest has nothing left.
+ */
+export const mergeGuestData = mutation({
+  args: { guestId: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not signed in");
+    }
+    if (!GUEST_ID_PATTERN.test(args.guestId)) {
+      throw new Error("Invalid guest id");
+    }
+
+    // Preferences: one row per user, so fold the guest's learned tags/areas into the account's
+    let preferences = false;
+    const guestPrefs = await ctx.db
+      .query("userPreferences")
+      .withIndex("by_user", (q) => q.eq("userId", args.guestId))
+      .first();
+    if (guestPrefs) {
+      const accountPrefs = await ctx.db
+        .query("userPreferences")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .first();
+
+      if (!accountPrefs) {
+        await ctx.db.patch(guestPrefs._id, { userId });
+      } else {
+        const preferredTags = accountPrefs.preferredTags.map((entry) => ({ ...entry }));
+        for (const { tag, count } of guestPrefs.preferredTags) {
+          const existing = preferredTags.find((entry) => entry.tag === tag);
+          if (existing) {
+            existing.count += count;
+          } else {
+            preferredTags.push({ tag, count });
+          }
+        }
+
+        await ctx.db.patch(accountPrefs._id, {
+          preferredTags,
+          preferredAreas: Array.from(new Set([...accountPrefs.preferredAreas, ...guestPrefs.preferredAreas])),
+          preferredPriceLevel: accountPrefs.preferredPriceLevel ?? guestPrefs.preferredPriceLevel,
+          lastActive: Math.max(accountPrefs.lastActive, guestPrefs.lastActive),
+        });
+        await ctx.db.delete(guestPrefs._id);
+      }
+      preferences = true;
+    }
+
+    // Everything else just changes owner
+    const searchHistory = await ctx.db
+      .query("searchHistory")
+      .withIndex("by_user", (q) => q.eq("userId", args.guestId))
+      .collect();
+    const conversations = await ctx.db
+      .query("conversations")
+      .withIndex("by_user", (q) => q.eq("userId", args.guestId))
+      .collect();
+    const feedback = await ctx.db
+      .query("placeFeedback")
+      .withIndex("by_user", (q) => q.eq("userId", args.guestId))
+      .collect();
+
+    for (const doc of [...searchHistory, ...conversations, ...feedback]) {
+      await ctx.db.patch(doc._id, { userId });
+    }
+
+    return {
+      preferences,
+      searchHistory: searchHistory.length,
+      conversations: conversations.length,
+      feedback: feedback.length,
+    };
+  },
+});
@@ -0,0 +1,262 @@
+/**
+ * Weather Context
+ *
+ * Feeds real conditions into ranking and the chat prompt:
+ * - WeatherProvider: pluggable source of current conditions for Dubai
+ *   ("open-meteo" live API, or "stub" - deterministic seasonal readings for tests)
+ * - weatherSnapshots: cached readings, refreshed on a schedule (see crons.ts)
+ * - getWeatherContext: latest fresh snapshot, falling back to the stub's seasonal reading
+ *
+ * Select the provider with the WEATHER_PROVIDER environment variable (default "open-meteo").
+ */
+
+import { v } from "convex/values";
+import { internalAction, internalMutation, query, QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+
+export interface WeatherReading {
+  temperatureC: number;
+  humidity: number; // relative humidity, %
+  windKph: number;
+  rain: boolean;
+  dust: boolean; // elevated airborne dust / haze
+  sandstorm: boolean;
+  condition: string; // "clear", "rain", "dust", "sandstorm"
+}
+
+export interface WeatherContext extends WeatherReading {
+  temp: "pleasant" | "warm" | "hot";
+  outdoor: boolean; // comfortable to sit outside
+  source: string; // provider name, or "seasonal" when no fresh snapshot exists
+  observedAt: number;
+}
+
+export interface WeatherProvider {
+  name: string;
+  fetchCurrent(at: number): Promise<WeatherReading>;
+}
+
+// Central Dubai - one reading covers the whole city for ranking purposes
+const DUBAI_LATITUDE = 25.2048;
+const DUBAI_LONGITUDE = 55.2708;
+
+// Snapshots older than this are ignored in favor of the seasonal fallback
+const SNAPSHOT_MAX_AGE_MS = 3 * 60 * 60 * 1000; // 3 hours
+// Snapshots older than this are pruned on refresh
+const SNAPSHOT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// Dust concentration (μg/m³) thresholds
+const DUST_THRESHOLD = 150;
+const SANDSTORM_THRESHOLD = 600;
+// Wind strong enough to turn dust into a sandstorm (km/h)
+const SANDSTORM_WIND_KPH = 40;
+
+// Dubai monthly climate normals (daily mean °C, mean relative humidity %), January first
+const MONTHLY_NORMALS: Array<[number, number]> = [
+  [20, 65], [21, 65], [24, 60], [28, 50], [32, 45], [34, 50],
+  [36, 55], [36, 55], [33, 60], [30, 60], [26, 60], [22, 65],
+];
+
+/**
+ * Deterministic provider: seasonal normals for the current month, never rain or dust.
+ * Used in tests and as the fallback when no fresh snapshot exists.
+ */
+export const stubWeatherProvider: WeatherProvider = {
+  name: "stub",
+  async fetchCurrent(at: number) {
+    return seasonalReading(at);
+  },
+};
+
+function seasonalReading(at: number): WeatherReading {
+  // Dubai is UTC+4; month boundaries are close enough either way for normals
+  const [temperatureC, humidity] = MONTHLY_NORMALS[new Date(at).getUTCMonth()];
+  return {
+    temperatureC,
+    humidity,
+    windKph: 12,
+    rain: false,
+    dust: false,
+    sandstorm: false,
+    condition: "clear",
+  };
+}
+
+/**
+ * Live provider backed by Open-Meteo (no API key required)
+ * Forecast API for temperature/humidity/rain, air-quality API for dust
+ */
+export const openMeteoProvider: WeatherProvider = {
+  name: "open-meteo",
+  async fetchCurrent() {
+    const location = `latitude=${DUBAI_LATITUDE}&longitude=${DUBAI_LONGITUDE}`;
+
+    const [forecastResponse, airResponse] = await Promise.all([
+      fetch(
+        `https://api.open-meteo.com/v1/forecast?${location}&current=temperature_2m,relative_humidity_2m,precipitation,weather_code,wind_speed_10m`
+      ),
+      fetch(`https://air-quality-api.open-meteo.com/v1/air-quality?${location}&current=dust`),
+    ]);
+
+    if (!forecastResponse.ok) {
+      throw new Error(`Open-Meteo forecast error: ${forecastResponse.status}`);
+    }
+
+    const forecast = (await forecastResponse.json()).current;
+    // Dust is a nice-to-have; a failed air-quality call shouldn't drop the whole reading
+    const dustLevel: number = airResponse.ok ? (await airResponse.json()).current?.dust ?? 0 : 0;
+
+    const windKph: number = forecast.wind_speed_10m ?? 0;
+    const weatherCode: number = forecast.weather_code ?? 0;
+    // WMO codes: drizzle 51-57, rain 61-67, showers 80-82, thunderstorm 95-99
+    const rain =
+      (forecast.precipitation ?? 0) > 0 ||
+      (weatherCode >= 51 && weatherCode <= 67) ||
+      (weatherCode >= 80 && weatherCode <= 82) ||
+      weatherCode >= 95;
+    const sandstorm = dustLevel >= SANDSTORM_THRESHOLD || (dustLevel >= DUST_THRESHOLD && windKph >= SANDSTORM_WIND_KPH);
+    const dust = dustLevel >= DUST_THRESHOLD;
+
+    return {
+      temperatureC: forecast.temperature_2m,
+      humidity: forecast.relative_humidity_2m,
+      windKph,
+      rain,
+      dust,
+      sandstorm,
+      condition: sandstorm ? "sandstorm" : rain ? "rain" : dust ? "dust" : "clear",
+    };
+  },
+};
+
+const PROVIDERS: Record<string, WeatherProvider> = {
+  [stubWeatherProvider.name]: stubWeatherProvider,
+  [openMeteoProvider.name]: openMeteoProvider,
+};
+
+/**
+ * Resolve the configured provider
+ */
+export function getWeatherProvider(): WeatherProvider {
+  const name = process.env.WEATHER_PROVIDER || openMeteoProvider.name;
+  const provider = PROVIDERS[name];
+  if (!provider) {
+    throw new Error(`Unknown WEATHER_PROVIDER "${name}" (expected ${Object.keys(PROVIDERS).join(", ")})`);
+  }
+  return provider;
+}
+
+/**
+ * Derive ranking-friendly flags from a raw reading
+ */
+export function toWeatherContext(reading: WeatherReading, source: string, observedAt: number): WeatherContext {
+  const temp = reading.temperatureC <= 30 ? "pleasant" : reading.temperatureC <= 34 ? "warm" : "hot";
+  // Muggy heat is uncomfortable outside even when the thermometer looks fine
+  const muggy = reading.humidity >= 70 && reading.temperatureC >= 28;
+  const outdoor =
+    !reading.rain &&
+    !reading.dust &&
+    !reading.sandstorm &&
+    !muggy &&
+    reading.temperatureC >= 15 &&
+    reading.temperatureC <= 32;
+
+  return { ...reading, temp, outdoor, source, observedAt };
+}
+
+/**
+ * Get the current weather context for ranking
+ * Uses the latest fresh snapshot; falls back to seasonal normals if none is fresh
+ */
+export async function getWeatherContext(ctx: QueryCtx): Promise<WeatherContext> {
+  const now = Date.now();
+  const latest = await ctx.db
+    .query("weatherSnapshots")
+    .withIndex("by_observed_at")
+    .order("desc")
+    .first();
+
+  if (latest && now - latest.observedAt <= SNAPSHOT_MAX_AGE_MS) {
+    return toWeatherContext(latest, latest.provider, latest.observedAt);
+  }
+  return toWeatherContext(seasonalReading(now), "seasonal", now);
+}
+
+/**
+ * Describe the weather for an LLM prompt, e.g. "38°C, humidity 55%, dusty (indoor preferred)"
+ */
+export function describeWeather(weather: WeatherContext): string {
+  const flags = [
+    weather.sandstorm ? "sandstorm" : weather.dust ? "dusty" : null,
+    weather.rain ? "raining" : null,
+  ].filter(Boolean);
+
+  return [
+    `${Math.round(weather.temperatureC)}°C`,
+    `humidity ${Math.round(weather.humidity)}%`,
+    ...flags,
+  ].join(", ") + (weather.outdoor ? " (outdoor-friendly)" : " (indoor preferred)");
+}
+
+/**
+ * Current weather context (for UI and actions)
+ */
+export const getCurrentWeather = query({
+  args: {},
+  handler: async (ctx) => {
+    return await getWeatherContext(ctx);
+  },
+});
+
+/**
+ * Fetch a reading from the configured provider and cache it (scheduled)
+ */
+export const refreshWeather = internalAction({
+  args: {},
+  handler: async (ctx) => {
+    const provider = getWeatherProvider();
+    const observedAt = Date.now();
+
+    try {
+      const reading = await provider.fetchCurrent(observedAt);
+      await ctx.runMutation(internal.weather.storeSnapshot, {
+        ...reading,
+        provider: provider.name,
+        observedAt,
+      });
+      return { success: true, provider: provider.name, condition: reading.condition };
+    } catch (error: any) {
+      // Ranking keeps using the last snapshot (or seasonal normals) until the next run
+      console.error("Error refreshing weather:", error);
+      return { success: false, provider: provider.name, error: error.message };
+    }
+  },
+});
+
+/**
+ * Store a weather snapshot and prune old ones
+ */
+export const storeSnapshot = internalMutation({
+  args: {
+    provider: v.string(),
+    temperatureC: v.number(),
+    humidity: v.number(),
+    windKph: v.number(),
+    rain: v.boolean(),
+    dust: v.boolean(),
+    sandstorm: v.boolean(),
+    condition: v.string(),
+    observedAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.insert("weatherSnapshots", args);
+
+    const expired = await ctx.db
+      .query("weatherSnapshots")
+      .withIndex("by_observed_at", (q) => q.lt("observedAt", args.observedAt - SNAPSHOT_RETENTION_MS))
+      .take(100);
+    for (const snapshot of expired) {
+      await ctx.db.delete(snapshot._id);
+    }
+  },
+});
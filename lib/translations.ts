@@ -16,11 +16,7 @@ export const translations = {
     vibe: "Vibe:",
     openNow: "Open Now",
     nearMetro: "Near Metro",
-    outdoor: "Outdoor",
-    indoor: "Indoor",
-    familyFriendly: "Family-friendly",
-    kidFriendly: "Kid-friendly",
-    waterfront: "Waterfront",
+    // Tag labels come from the tag taxonomy (convex/tagTaxonomy.ts)
     bestMatch: "Best Match",
     otherGreatOptions: "Other great options",
     found: "Found",
@@ -64,11 +60,7 @@ export const translations = {
     vibe: "الأجواء:",
     openNow: "مفتوح الآن",
     nearMetro: "بالقرب من المترو",
-    outdoor: "في الهواء الطلق",
-    indoor: "داخلي",
-    familyFriendly: "مناسب للعائلات",
-    kidFriendly: "مناسب للأطفال",
-    waterfront: "على الواجهة البحرية",
+    // Tag labels come from the tag taxonomy (convex/tagTaxonomy.ts)
     bestMatch: "أفضل تطابق",
     otherGreatOptions: "خيارات رائعة أخرى",
     found: "تم العثور على",
@@ -0,0 +1,10 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    // convex-test runs functions in the same runtime Convex queries and mutations use
+    environment: "edge-runtime",
+    include: ["convex/**/*.test.ts"],
+    server: { deps: { inline: ["convex-test", "@convex-dev/action-cache"] } },
+  },
+});